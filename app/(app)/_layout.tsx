@@ -0,0 +1,5 @@
+import { GuardedStack } from '~/components/GuardedStack';
+
+export default function AppLayout() {
+  return <GuardedStack allow={['ready']} />;
+}
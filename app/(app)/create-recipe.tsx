@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Container } from '~/components/Container';
+import { AllergenWarning } from '~/components/AllergenWarning';
+import { Button } from '~/components/Button';
+import { PreferencesEditor } from '~/components/PreferencesEditor';
+import { useAllergenMatches, usePreferences, useSavePreferences, useSaveRecipe } from '~/hooks';
+import { findExpiringSoon } from '~/utils/expiry';
+import { DEFAULT_PREFERENCES, inventoryRepo, toRecipePreferences } from '~/utils/repositories';
+import { aiService, Allergy, GeneratedRecipe, getGenerationErrorMessage } from '~/utils/ai';
+import { findMissingIngredients } from '~/utils/ingredientMatch';
+import { useShallow } from 'zustand/react/shallow';
+import {
+  DraftRecipe,
+  selectBatch,
+  selectBatchDrafts,
+  selectDraftPreferences,
+  useAppStore,
+  useFormatQuantity,
+} from '~/store/store';
+
+interface RecipeCardProps {
+  recipe: GeneratedRecipe;
+  missingIngredients: string[];
+  /** The allergies the recipe was generated for. */
+  allergies?: Allergy[];
+  onView: () => void;
+  onSave: () => void;
+  loading: boolean;
+}
+
+function RecipeCard({
+  recipe,
+  missingIngredients,
+  allergies,
+  onView,
+  onSave,
+  loading,
+}: RecipeCardProps) {
+  const formatQuantity = useFormatQuantity();
+  const allergenMatches = useAllergenMatches(recipe.ingredients, allergies);
+
+  return (
+    <View className="mb-4 rounded-xl bg-white p-6 shadow-sm">
+      <Text style={{ fontFamily: 'Nunito_700Bold' }} className="mb-2 text-2xl text-earth-800">
+        {recipe.title}
+      </Text>
+      <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-4 text-earth-600">
+        {recipe.description}
+      </Text>
+
+      <View className="mb-4 flex-row flex-wrap gap-2">
+        <View className="rounded-full bg-sage-100 px-3 py-1">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-sm text-sage-700">
+            {recipe.difficulty}
+          </Text>
+        </View>
+        <View className="rounded-full bg-earth-100 px-3 py-1">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-sm text-earth-700">
+            {recipe.type}
+          </Text>
+        </View>
+        <View className="rounded-full bg-cream-100 px-3 py-1">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-sm text-earth-700">
+            {recipe.time}
+          </Text>
+        </View>
+      </View>
+
+      <View className="mb-4">
+        {recipe.ingredients.map((ingredient, index) => {
+          const missing = missingIngredients.includes(ingredient.name);
+          return (
+            <View key={index} className="mb-1 flex-row items-center">
+              <Text
+                style={{ fontFamily: 'Nunito_400Regular' }}
+                className={`flex-1 ${missing ? 'text-terracotta-600' : 'text-earth-700'}`}>
+                • {formatQuantity(ingredient)} {ingredient.name}
+              </Text>
+              {missing && (
+                <View className="rounded-full bg-terracotta-100 px-2 py-0.5">
+                  <Text
+                    style={{ fontFamily: 'Nunito_500Medium' }}
+                    className="text-xs text-terracotta-700">
+                    missing
+                  </Text>
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </View>
+
+      {allergenMatches.length > 0 && <AllergenWarning matches={allergenMatches} />}
+
+      <View className="flex-row gap-3">
+        <TouchableOpacity
+          className="flex-1 rounded-lg border-2 border-earth-600 py-3"
+          onPress={onView}>
+          <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-center text-earth-600">
+            View
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          className="flex-1 rounded-lg bg-earth-600 py-3"
+          onPress={onSave}
+          disabled={loading}>
+          {loading ? (
+            <ActivityIndicator color="white" size="small" />
+          ) : (
+            <Text
+              style={{ fontFamily: 'Nunito_600SemiBold' }}
+              className="text-center text-cream-50">
+              Save
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+export default function CreateRecipeScreen() {
+  const [generating, setGenerating] = useState(false);
+  const { data: savedPreferences, error: preferencesError } = usePreferences();
+  const draftPreferences = useAppStore(selectDraftPreferences);
+  const setDraftPreferences = useAppStore((state) => state.setDraftPreferences);
+  const clearDraftPreferences = useAppStore((state) => state.clearDraftPreferences);
+  const batch = useAppStore(selectBatch);
+  const setBatch = useAppStore((state) => state.setBatch);
+  // Unsaved edits win over the saved preferences until they're saved
+  const preferences = draftPreferences ?? savedPreferences ?? DEFAULT_PREFERENCES;
+  const drafts = useAppStore(useShallow(selectBatchDrafts));
+  const inventoryNames = batch?.inventoryNames ?? [];
+  const savePreferences = useSavePreferences();
+  const saveRecipe = useSaveRecipe();
+  const saving = saveRecipe.isPending ? saveRecipe.variables.title : null;
+  const router = useRouter();
+
+  useEffect(() => {
+    if (preferencesError) {
+      console.error('❌ Error fetching preferences:', preferencesError);
+      Alert.alert('Error', 'Failed to load preferences. Using default values.');
+    }
+  }, [preferencesError]);
+
+  const generateRecipes = async () => {
+    try {
+      console.log('🚀 Starting recipe generation...');
+      setGenerating(true);
+
+      // Get user's ingredients
+      console.log('🥕 Getting user ingredients...');
+      const ingredients = await inventoryRepo.listIngredients();
+      console.log('✅ Ingredients found:', ingredients.length, 'items');
+
+      // Get user's utensils
+      console.log('🔧 Getting user utensils...');
+      const utensils = await inventoryRepo.listUtensils();
+      console.log('✅ Utensils found:', utensils.length, 'items');
+
+      const ingredientNames = ingredients.map((i) => i.name);
+      const utensilNames = utensils.map((u) => u.name);
+      const expiringNames = findExpiringSoon(ingredients).map((i) => i.name);
+
+      console.log('📤 Sending to AI service:');
+      console.log('   - Ingredients:', ingredientNames);
+      console.log('   - Utensils:', utensilNames);
+      console.log('   - Expiring soon:', expiringNames);
+      console.log('   - Preferences:', preferences);
+
+      const generatedRecipes = await aiService.generateRecipes(
+        ingredientNames,
+        utensilNames,
+        toRecipePreferences(preferences),
+        expiringNames
+      );
+
+      console.log('✅ Generated recipes received:', generatedRecipes.length, 'recipes');
+      setBatch(generatedRecipes, ingredientNames, preferences.allergies);
+    } catch (error) {
+      console.error('❌ Error generating recipes:', error);
+      Alert.alert('Error', getGenerationErrorMessage(error));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleViewRecipe = (draft: DraftRecipe) => {
+    router.push({ pathname: '/recipes/draft/[id]', params: { id: draft.id } });
+  };
+
+  const handleSaveRecipe = async (recipe: GeneratedRecipe) => {
+    try {
+      await saveRecipe.mutateAsync(recipe);
+
+      // The dashboard picks up the new recipe from the cache
+      Alert.alert('Success', 'Recipe saved successfully!', [
+        {
+          text: 'OK',
+          onPress: () => router.back(),
+        },
+      ]);
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+      Alert.alert('Error', 'Failed to save recipe. Please try again.');
+    }
+  };
+
+  const handleSavePreferences = async () => {
+    try {
+      console.log('💾 Saving user preferences...');
+      console.log('📊 Current preferences to save:', preferences);
+
+      await savePreferences.mutateAsync(preferences);
+      clearDraftPreferences();
+
+      console.log('✅ Preferences saved successfully');
+      Alert.alert('Success', 'Preferences saved successfully!');
+    } catch (error) {
+      console.error('❌ Error saving preferences:', error);
+      Alert.alert('Error', 'Failed to save preferences. Please try again.');
+    }
+  };
+
+  return (
+    <Container>
+      <View className="flex-1 bg-cream-50">
+        <Stack.Screen options={{ title: 'Create New Recipe', headerShown: false }} />
+
+        <ScrollView className="flex-1 px-6 pt-12" keyboardShouldPersistTaps="handled">
+          <Text
+            style={{ fontFamily: 'Nunito_700Bold' }}
+            className="mb-4 text-center text-4xl text-earth-800">
+            Create New Recipe
+          </Text>
+          <Text
+            style={{ fontFamily: 'Nunito_500Medium' }}
+            className="mb-8 text-center text-lg text-earth-600">
+            Customize your preferences and generate recipes
+          </Text>
+
+          <View className="mb-8 rounded-xl bg-white p-6 shadow-sm">
+            <Text
+              style={{ fontFamily: 'Nunito_600SemiBold' }}
+              className="mb-4 text-xl text-earth-800">
+              Preferences
+            </Text>
+
+            <PreferencesEditor preferences={preferences} onChange={setDraftPreferences} />
+
+            <Button
+              onPress={handleSavePreferences}
+              loading={savePreferences.isPending}
+              className="mt-6">
+              Save Preferences
+            </Button>
+          </View>
+
+          <Button onPress={generateRecipes} loading={generating} className="mb-8">
+            Generate Recipes
+          </Button>
+
+          {drafts.map((draft) => (
+            <RecipeCard
+              key={draft.id}
+              recipe={draft.recipe}
+              missingIngredients={findMissingIngredients(draft.recipe.ingredients, inventoryNames)}
+              allergies={draft.allergies}
+              onView={() => handleViewRecipe(draft)}
+              onSave={() => handleSaveRecipe(draft.recipe)}
+              loading={saving === draft.recipe.title}
+            />
+          ))}
+        </ScrollView>
+      </View>
+    </Container>
+  );
+}
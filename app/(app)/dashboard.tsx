@@ -0,0 +1,366 @@
+import { useState, useEffect, useMemo } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Container } from '~/components/Container';
+import { SyncStatus } from '~/components/SyncStatus';
+import { Button } from '~/components/Button';
+import { useDeleteRecipe, useInventory, useLastCook, useRecipes, useUndoLastCook } from '~/hooks';
+import { formatMultiplier } from '~/utils/cooking';
+import {
+  READINESS_FILTERS,
+  ReadinessFilter,
+  RecipeReadiness,
+  RecipeSort,
+  compareReadiness,
+  describeReadiness,
+  getRecipeReadiness,
+} from '~/utils/readiness';
+import { Recipe } from '~/utils/repositories';
+
+interface RecipeCardProps {
+  recipe: Recipe;
+  readiness: RecipeReadiness;
+  onView: () => void;
+  onDelete: () => void;
+  loading: boolean;
+}
+
+const READINESS_STYLES = {
+  ready: { badge: 'bg-sage-100', text: 'text-sage-700' },
+  short: { badge: 'bg-earth-100', text: 'text-earth-700' },
+  missing: { badge: 'bg-terracotta-100', text: 'text-terracotta-700' },
+};
+
+function RecipeCard({ recipe, readiness, onView, onDelete, loading }: RecipeCardProps) {
+  const totalTime = (recipe.prep_time_minutes ?? 0) + (recipe.cook_time_minutes ?? 0);
+
+  return (
+    <View className="mb-4 rounded-xl bg-white p-6 shadow-sm">
+      <View className="mb-2 flex-row items-start justify-between">
+        <Text style={{ fontFamily: 'Nunito_700Bold' }} className="flex-1 text-xl text-earth-800">
+          {recipe.title}
+        </Text>
+        {recipe.is_used && (
+          <View className="rounded-full bg-sage-100 px-2 py-1">
+            <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-xs text-sage-700">
+              Used
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-4 text-earth-600">
+        {recipe.description}
+      </Text>
+
+      <View className="mb-4 flex-row flex-wrap gap-2">
+        <View className="rounded-full bg-cream-100 px-3 py-1">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-sm text-earth-700">
+            {totalTime} min
+          </Text>
+        </View>
+        <View className="rounded-full bg-sage-100 px-3 py-1">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-sm text-sage-700">
+            {recipe.servings} servings
+          </Text>
+        </View>
+        {!recipe.is_used && (
+          <View className={`rounded-full px-3 py-1 ${READINESS_STYLES[readiness.status].badge}`}>
+            <Text
+              style={{ fontFamily: 'Nunito_500Medium' }}
+              className={`text-sm ${READINESS_STYLES[readiness.status].text}`}>
+              {describeReadiness(readiness)}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <View className="flex-row gap-3">
+        <TouchableOpacity
+          className="flex-1 rounded-lg border-2 border-earth-600 py-3"
+          onPress={onView}>
+          <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-center text-earth-600">
+            View
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          className="rounded-lg bg-red-600 px-6 py-3"
+          onPress={onDelete}
+          disabled={loading}>
+          {loading ? (
+            <ActivityIndicator color="white" size="small" />
+          ) : (
+            <Text
+              style={{ fontFamily: 'Nunito_600SemiBold' }}
+              className="text-center text-cream-50">
+              Delete
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+export default function DashboardScreen() {
+  const { data: recipes = [], error: recipesError, isPending: recipesPending } = useRecipes();
+  const {
+    data: inventory = [],
+    error: inventoryError,
+    isPending: inventoryPending,
+  } = useInventory();
+  const { data: lastCook } = useLastCook();
+  const undoCook = useUndoLastCook();
+  const deleteRecipe = useDeleteRecipe();
+  const [filter, setFilter] = useState<ReadinessFilter>('all');
+  const [sort, setSort] = useState<RecipeSort>('newest');
+  const loading = recipesPending || inventoryPending;
+  const deleting = deleteRecipe.isPending ? deleteRecipe.variables.id : null;
+  const router = useRouter();
+
+  useEffect(() => {
+    const error = recipesError || inventoryError;
+    if (error) {
+      console.error('Error fetching recipes:', error);
+      Alert.alert('Error', 'Failed to load recipes. Please try again.');
+    }
+  }, [recipesError, inventoryError]);
+
+  const readiness = useMemo(
+    () =>
+      new Map(
+        recipes.map((recipe) => [recipe.id, getRecipeReadiness(recipe.ingredients, inventory)])
+      ),
+    [recipes, inventory]
+  );
+
+  const visibleRecipes = useMemo(() => {
+    // Cooked recipes can't be cooked again, so they only show up unfiltered
+    const filtered =
+      filter === 'all'
+        ? recipes
+        : recipes.filter(
+            (recipe) => !recipe.is_used && readiness.get(recipe.id)?.status === filter
+          );
+    if (sort === 'newest') return filtered;
+
+    return [...filtered].sort(
+      (a, b) =>
+        Number(a.is_used) - Number(b.is_used) ||
+        compareReadiness(readiness.get(a.id)!, readiness.get(b.id)!)
+    );
+  }, [recipes, readiness, filter, sort]);
+
+  const handleUndoLastCook = () => {
+    if (!lastCook) return;
+
+    Alert.alert('Undo Cook', `Put back the ingredients used for ${lastCook.recipe_title}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Undo',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const result = await undoCook.mutateAsync();
+            if (!result.startsWith('Success')) {
+              Alert.alert('Error', result);
+            }
+          } catch (error) {
+            console.error('Error undoing cook:', error);
+            Alert.alert('Error', 'Failed to undo. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleViewRecipe = (recipe: Recipe) => {
+    router.push({ pathname: '/recipes/[id]', params: { id: recipe.id } });
+  };
+
+  const handleDeleteRecipe = async (recipe: Recipe) => {
+    Alert.alert('Delete Recipe', 'Are you sure you want to delete this recipe?', [
+      {
+        text: 'Cancel',
+        style: 'cancel',
+      },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteRecipe.mutateAsync(recipe);
+            Alert.alert('Success', 'Recipe deleted successfully.');
+          } catch (error) {
+            console.error('Error deleting recipe:', error);
+            Alert.alert('Error', 'Failed to delete recipe. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleCreateNewRecipe = () => {
+    // This will open the bottom sheet for creating new recipes
+    router.push('/create-recipe');
+  };
+
+  if (loading) {
+    return (
+      <Container>
+        <View className="flex-1 bg-cream-50">
+          <Stack.Screen options={{ title: 'My Recipes', headerShown: false }} />
+
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#8B4513" />
+            <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mt-4 text-earth-600">
+              Loading your recipes...
+            </Text>
+          </View>
+        </View>
+      </Container>
+    );
+  }
+
+  return (
+    <Container>
+      <View className="flex-1 bg-cream-50">
+        <Stack.Screen options={{ title: 'My Recipes', headerShown: false }} />
+
+        <ScrollView className="flex-1 px-6 pt-12">
+          <Text
+            style={{ fontFamily: 'Nunito_700Bold' }}
+            className="mb-4 text-center text-4xl text-earth-800">
+            My Recipes
+          </Text>
+          <Text
+            style={{ fontFamily: 'Nunito_500Medium' }}
+            className="mb-8 text-center text-lg text-earth-600">
+            Your saved recipe collection
+          </Text>
+
+          <SyncStatus />
+
+          {lastCook && (
+            <View className="mb-6 flex-row items-center rounded-lg bg-white p-4 shadow-sm">
+              <Text style={{ fontFamily: 'Nunito_400Regular' }} className="flex-1 text-earth-700">
+                Last cooked: {lastCook.recipe_title}
+                {lastCook.servings_multiplier !== 1 &&
+                  ` (${formatMultiplier(lastCook.servings_multiplier)})`}
+              </Text>
+              <TouchableOpacity onPress={handleUndoLastCook} disabled={undoCook.isPending}>
+                <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-earth-600">
+                  {undoCook.isPending ? 'Undoing...' : 'Undo'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {recipes.length > 0 && (
+            <View className="mb-6">
+              <View className="mb-3 flex-row flex-wrap gap-2">
+                {READINESS_FILTERS.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() => setFilter(option.value)}
+                    className={`rounded-full border-2 px-4 py-2 ${
+                      filter === option.value
+                        ? 'border-earth-600 bg-earth-600'
+                        : 'border-earth-300 bg-cream-50'
+                    }`}>
+                    <Text
+                      style={{ fontFamily: 'Nunito_500Medium' }}
+                      className={filter === option.value ? 'text-cream-50' : 'text-earth-700'}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TouchableOpacity
+                onPress={() => setSort(sort === 'newest' ? 'readiness' : 'newest')}
+                className="self-start">
+                <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-earth-600">
+                  Sort: {sort === 'newest' ? 'Newest first' : 'Most cookable first'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {recipes.length === 0 ? (
+            <View className="flex-1 items-center justify-center py-12">
+              <Text
+                style={{ fontFamily: 'Nunito_500Medium' }}
+                className="mb-4 text-center text-earth-600">
+                No recipes yet
+              </Text>
+              <Text
+                style={{ fontFamily: 'Nunito_400Regular' }}
+                className="mb-8 text-center text-earth-500">
+                Create your first recipe to get started
+              </Text>
+            </View>
+          ) : visibleRecipes.length === 0 ? (
+            <Text
+              style={{ fontFamily: 'Nunito_400Regular' }}
+              className="py-12 text-center text-earth-500">
+              No recipes match this filter
+            </Text>
+          ) : (
+            visibleRecipes.map((recipe) => (
+              <RecipeCard
+                key={recipe.id}
+                recipe={recipe}
+                readiness={readiness.get(recipe.id)!}
+                onView={() => handleViewRecipe(recipe)}
+                onDelete={() => handleDeleteRecipe(recipe)}
+                loading={deleting === recipe.id}
+              />
+            ))
+          )}
+        </ScrollView>
+
+        <View className="px-6 pb-8">
+          <Button onPress={handleCreateNewRecipe} className="mb-4">
+            Create New Recipe
+          </Button>
+          <View className="flex-row space-x-3">
+            <TouchableOpacity
+              className="flex-1 rounded-lg border-2 border-earth-600 py-4"
+              onPress={() => router.push('/shopping-list')}>
+              <Text
+                style={{ fontFamily: 'Nunito_600SemiBold' }}
+                className="text-center text-lg text-earth-600">
+                Shopping List
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              className="flex-1 rounded-lg border-2 border-earth-600 py-4"
+              onPress={() => router.push('/inventory-history')}>
+              <Text
+                style={{ fontFamily: 'Nunito_600SemiBold' }}
+                className="text-center text-lg text-earth-600">
+                History
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <View className="mt-3 flex-row">
+            <TouchableOpacity className="flex-1 py-2" onPress={() => router.push('/household')}>
+              <Text
+                style={{ fontFamily: 'Nunito_600SemiBold' }}
+                className="text-center text-earth-600">
+                Household
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity className="flex-1 py-2" onPress={() => router.push('/settings')}>
+              <Text
+                style={{ fontFamily: 'Nunito_600SemiBold' }}
+                className="text-center text-earth-600">
+                Settings
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Container>
+  );
+}
@@ -2,33 +2,17 @@ import { View, Text, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { supabase } from '~/utils/supabase';
 import { Container } from '~/components/Container';
+import {
+  Ingredient,
+  Profile,
+  UserPreferences,
+  Utensil,
+  inventoryRepo,
+  preferencesRepo,
+  profileRepo,
+} from '~/utils/repositories';
 import { useState, useEffect } from 'react';
 
-interface Profile {
-  full_name: string;
-  onboarding_complete: boolean;
-}
-
-interface UserPreferences {
-  diet: string;
-  tastes: string[];
-  preferred_difficulty: string;
-  preferred_time_minutes: number;
-  preferred_portions: number;
-}
-
-interface Ingredient {
-  id: number;
-  name: string;
-  quantity: number;
-  unit: string;
-}
-
-interface Utensil {
-  id: number;
-  name: string;
-}
-
 export default function Debug() {
   const router = useRouter();
   const [profile, setProfile] = useState<Profile | null>(null);
@@ -43,44 +27,17 @@ export default function Debug() {
 
   const loadUserData = async () => {
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('No user found');
-
       // Load profile
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('full_name, onboarding_complete')
-        .eq('id', user.id)
-        .single();
-
-      setProfile(profileData);
+      setProfile(await profileRepo.get());
 
       // Load preferences
-      const { data: prefData } = await supabase
-        .from('user_preferences')
-        .select('*')
-        .eq('id', user.id)
-        .single();
-
-      setPreferences(prefData);
+      setPreferences(await preferencesRepo.get());
 
       // Load ingredients
-      const { data: ingData } = await supabase
-        .from('ingredients')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      setIngredients(ingData || []);
+      setIngredients(await inventoryRepo.listIngredients());
 
       // Load utensils
-      const { data: utData } = await supabase
-        .from('utensils')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      setUtensils(utData || []);
+      setUtensils(await inventoryRepo.listUtensils());
     } catch (error) {
       console.error('Error loading user data:', error);
     } finally {
@@ -90,11 +47,8 @@ export default function Debug() {
 
   const handleLogout = async () => {
     const { error } = await supabase.auth.signOut();
-    if (error) {
-      Alert.alert('Error', error.message);
-    } else {
-      router.push('/');
-    }
+    // The (app) layout sends the user back to the landing screen once signed out
+    if (error) Alert.alert('Error', error.message);
   };
 
   return (
@@ -109,7 +63,7 @@ export default function Debug() {
             </Text>
             <TouchableOpacity
               onPress={handleLogout}
-              className="bg-terracotta-500 rounded-lg px-4 py-2">
+              className="rounded-lg bg-terracotta-500 px-4 py-2">
               <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-cream-50">
                 Logout
               </Text>
@@ -146,7 +100,13 @@ export default function Debug() {
                     Preferences
                   </Text>
                   <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-600">
-                    Diet: {preferences.diet}
+                    Diet: {preferences.diets.join(', ')}
+                  </Text>
+                  <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-600">
+                    Allergies:{' '}
+                    {preferences.allergies
+                      .map(({ allergen, severity }) => `${allergen} (${severity})`)
+                      .join(', ')}
                   </Text>
                   <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-600">
                     Tastes: {preferences.tastes.join(', ')}
@@ -0,0 +1,353 @@
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Container } from '~/components/Container';
+import { useAuth } from '~/context/SupabaseContext';
+import {
+  useCreateHousehold,
+  useCreateInvite,
+  useHouseholdMembers,
+  useHouseholds,
+  useJoinHousehold,
+  useLeaveHousehold,
+  useRemoveMember,
+  useSetMemberRole,
+  useSwitchHousehold,
+} from '~/hooks';
+import { useSyncStore } from '~/utils/offline';
+import { Household, HouseholdMember } from '~/utils/repositories';
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export default function HouseholdScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { data: households = [], error, isPending: loading } = useHouseholds();
+  const active = households.find((household) => household.active);
+  const isOwner = active?.role === 'owner';
+  const { data: members = [] } = useHouseholdMembers(active?.id);
+  const hasPendingEdits = useSyncStore((state) => state.pending.length > 0);
+
+  const switchHousehold = useSwitchHousehold();
+  const createHousehold = useCreateHousehold();
+  const joinHousehold = useJoinHousehold();
+  const leaveHousehold = useLeaveHousehold();
+  const createInvite = useCreateInvite();
+  const removeMember = useRemoveMember();
+  const setMemberRole = useSetMemberRole();
+
+  const [inviteCode, setInviteCode] = useState('');
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error loading households:', error);
+      Alert.alert('Error', 'Failed to load your households. Please try again.');
+    }
+  }, [error]);
+
+  // Queued edits are written to whichever household is active when they sync
+  const ensureSynced = () => {
+    if (!hasPendingEdits) return true;
+    Alert.alert(
+      'Changes Still Syncing',
+      'Wait for your offline changes to sync before changing households.'
+    );
+    return false;
+  };
+
+  const handleSwitch = async (household: Household) => {
+    if (!ensureSynced()) return;
+    try {
+      await switchHousehold.mutateAsync(household.id);
+    } catch (error) {
+      console.error('Error switching household:', error);
+      Alert.alert('Error', 'Failed to switch household. Please try again.');
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!inviteCode.trim()) {
+      Alert.alert('Error', 'Please enter an invite code');
+      return;
+    }
+    if (!ensureSynced()) return;
+
+    try {
+      const result = await joinHousehold.mutateAsync(inviteCode);
+      setInviteCode('');
+      Alert.alert('Success', result.replace(/^Success: /, ''));
+    } catch (error) {
+      console.error('Error joining household:', error);
+      Alert.alert('Error', errorMessage(error, 'Failed to join household. Please try again.'));
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      Alert.alert('Error', 'Please enter a name for the household');
+      return;
+    }
+    if (!ensureSynced()) return;
+
+    try {
+      await createHousehold.mutateAsync(newName.trim());
+      setNewName('');
+    } catch (error) {
+      console.error('Error creating household:', error);
+      Alert.alert('Error', 'Failed to create household. Please try again.');
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!active) return;
+    try {
+      const code = await createInvite.mutateAsync(active.id);
+      await Share.share({
+        message: `Join ${active.name} on our kitchen app with the invite code ${code}. It works once and expires in a week.`,
+      });
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      Alert.alert('Error', 'Failed to create an invite. Please try again.');
+    }
+  };
+
+  const handleLeave = () => {
+    if (!active || !ensureSynced()) return;
+
+    Alert.alert('Leave Household', `You'll lose access to ${active.name}'s kitchen.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await leaveHousehold.mutateAsync(active.id);
+          } catch (error) {
+            console.error('Error leaving household:', error);
+            Alert.alert('Error', errorMessage(error, 'Failed to leave. Please try again.'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleManageMember = (member: HouseholdMember) => {
+    if (!active) return;
+    const variables = { householdId: active.id, userId: member.user_id };
+    const name = member.full_name || 'this member';
+
+    Alert.alert(name, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: member.role === 'owner' ? 'Make Member' : 'Make Owner',
+        onPress: async () => {
+          try {
+            await setMemberRole.mutateAsync({
+              ...variables,
+              role: member.role === 'owner' ? 'member' : 'owner',
+            });
+          } catch (error) {
+            console.error('Error changing role:', error);
+            Alert.alert('Error', errorMessage(error, 'Failed to change role. Please try again.'));
+          }
+        },
+      },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await removeMember.mutateAsync(variables);
+          } catch (error) {
+            console.error('Error removing member:', error);
+            Alert.alert('Error', errorMessage(error, 'Failed to remove member. Please try again.'));
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title: 'Household', headerShown: false }} />
+      <View className="flex-1 bg-cream-50">
+        <View className="mb-8 flex-row items-center px-6 pb-4 pt-12">
+          <TouchableOpacity onPress={() => router.back()} className="mr-4">
+            <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-2xl text-earth-600">
+              ←
+            </Text>
+          </TouchableOpacity>
+          <Text style={{ fontFamily: 'Nunito_700Bold' }} className="text-2xl text-earth-800">
+            Household
+          </Text>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#8B4513" />
+          </View>
+        ) : (
+          <ScrollView className="flex-1 px-6">
+            {active && (
+              <View className="mb-6 rounded-xl bg-white p-6 shadow-sm">
+                <Text style={{ fontFamily: 'Nunito_700Bold' }} className="text-xl text-earth-800">
+                  {active.name}
+                </Text>
+                <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-4 text-earth-600">
+                  Everyone here shares the same ingredients, utensils and recipes.
+                </Text>
+
+                {members.map((member) => (
+                  <View
+                    key={member.user_id}
+                    className="flex-row items-center border-t border-cream-100 py-3">
+                    <Text
+                      style={{ fontFamily: 'Nunito_600SemiBold' }}
+                      className="flex-1 text-earth-800">
+                      {member.full_name || 'Unnamed member'}
+                      {member.user_id === user?.id && ' (you)'}
+                    </Text>
+                    <View className="mr-3 rounded-full bg-sage-100 px-2 py-1">
+                      <Text
+                        style={{ fontFamily: 'Nunito_500Medium' }}
+                        className="text-xs text-sage-700">
+                        {member.role === 'owner' ? 'Owner' : 'Member'}
+                      </Text>
+                    </View>
+                    {isOwner && member.user_id !== user?.id && (
+                      <TouchableOpacity onPress={() => handleManageMember(member)}>
+                        <Text
+                          style={{ fontFamily: 'Nunito_600SemiBold' }}
+                          className="text-earth-600">
+                          Manage
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+
+                <View className="mt-4 flex-row space-x-3">
+                  {isOwner && (
+                    <TouchableOpacity
+                      onPress={handleInvite}
+                      disabled={createInvite.isPending}
+                      className="flex-1 rounded-lg bg-sage-600 py-3">
+                      <Text
+                        style={{ fontFamily: 'Nunito_600SemiBold' }}
+                        className="text-center text-cream-50">
+                        {createInvite.isPending ? 'Creating...' : 'Invite Someone'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                  {(households.length > 1 || members.length > 1) && (
+                    <TouchableOpacity
+                      onPress={handleLeave}
+                      disabled={leaveHousehold.isPending}
+                      className="flex-1 rounded-lg border-2 border-red-600 py-3">
+                      <Text
+                        style={{ fontFamily: 'Nunito_600SemiBold' }}
+                        className="text-center text-red-600">
+                        Leave
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            )}
+
+            {households.length > 1 && (
+              <View className="mb-6">
+                <Text
+                  style={{ fontFamily: 'Nunito_700Bold' }}
+                  className="mb-3 text-lg text-earth-800">
+                  Switch Household
+                </Text>
+                {households.map((household) => (
+                  <TouchableOpacity
+                    key={household.id}
+                    onPress={() => handleSwitch(household)}
+                    disabled={household.active || switchHousehold.isPending}
+                    className={`mb-3 rounded-lg border-2 p-4 ${
+                      household.active
+                        ? 'border-earth-600 bg-earth-600'
+                        : 'border-earth-300 bg-white'
+                    }`}>
+                    <Text
+                      style={{ fontFamily: 'Nunito_600SemiBold' }}
+                      className={household.active ? 'text-cream-50' : 'text-earth-800'}>
+                      {household.name}
+                      {household.active && ' · current'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <View className="mb-6">
+              <Text
+                style={{ fontFamily: 'Nunito_700Bold' }}
+                className="mb-3 text-lg text-earth-800">
+                Join a Household
+              </Text>
+              <View className="flex-row space-x-3">
+                <TextInput
+                  className="flex-1 rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+                  value={inviteCode}
+                  onChangeText={setInviteCode}
+                  placeholder="Invite code"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+                <TouchableOpacity
+                  onPress={handleJoin}
+                  disabled={joinHousehold.isPending}
+                  className="justify-center rounded-lg bg-earth-600 px-6">
+                  <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-cream-50">
+                    {joinHousehold.isPending ? 'Joining...' : 'Join'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <View className="mb-8">
+              <Text
+                style={{ fontFamily: 'Nunito_700Bold' }}
+                className="mb-3 text-lg text-earth-800">
+                Start a New Household
+              </Text>
+              <View className="flex-row space-x-3">
+                <TextInput
+                  className="flex-1 rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+                  value={newName}
+                  onChangeText={setNewName}
+                  placeholder="e.g., Beach House"
+                  autoCapitalize="words"
+                />
+                <TouchableOpacity
+                  onPress={handleCreate}
+                  disabled={createHousehold.isPending}
+                  className="justify-center rounded-lg bg-earth-600 px-6">
+                  <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-cream-50">
+                    {createHousehold.isPending ? 'Creating...' : 'Create'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </ScrollView>
+        )}
+      </View>
+    </Container>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { Stack, useRouter, useLocalSearchParams } from 'expo-router';
+import { Container } from '~/components/Container';
+import { useInventoryEvents, useMonthlyUsage } from '~/hooks';
+import { EVENT_LABELS, InventoryEvent, formatChange, formatUsage } from '~/utils/inventoryHistory';
+
+function EventRow({ event, showName }: { event: InventoryEvent; showName: boolean }) {
+  const change = formatChange(event);
+
+  return (
+    <View className="mb-3 flex-row items-center rounded-lg bg-white p-4 shadow-sm">
+      <View className="flex-1">
+        <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-earth-800">
+          {showName
+            ? `${EVENT_LABELS[event.event_type]}: ${event.ingredient_name}`
+            : EVENT_LABELS[event.event_type]}
+        </Text>
+        <Text style={{ fontFamily: 'Nunito_400Regular' }} className="text-sm text-earth-500">
+          {new Date(event.created_at).toLocaleString()}
+        </Text>
+      </View>
+      <View className="items-end">
+        {change !== '' && (
+          <Text
+            style={{ fontFamily: 'Nunito_600SemiBold' }}
+            className={(event.quantity_change ?? 0) < 0 ? 'text-terracotta-700' : 'text-sage-700'}>
+            {change}
+          </Text>
+        )}
+        <Text style={{ fontFamily: 'Nunito_400Regular' }} className="text-sm text-earth-500">
+          {event.quantity_after} {event.unit} left
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+export default function InventoryHistoryScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ ingredientId?: string; name?: string }>();
+  const ingredientId = params.ingredientId ? Number(params.ingredientId) : null;
+  const eventsQuery = useInventoryEvents(ingredientId);
+  // Monthly usage is only shown on the inventory-wide history
+  const usageQuery = useMonthlyUsage(new Date(), ingredientId === null);
+  const events = eventsQuery.data ?? [];
+  const usage = usageQuery.data ?? [];
+  // isLoading rather than isPending, which stays true while the query is disabled
+  const loading = eventsQuery.isPending || usageQuery.isLoading;
+  const error = eventsQuery.error ?? usageQuery.error;
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error loading inventory history:', error);
+      Alert.alert('Error', 'Failed to load history. Please try again.');
+    }
+  }, [error]);
+
+  const title = params.name ? `${params.name} History` : 'Inventory History';
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title, headerShown: false }} />
+      <View className="flex-1 bg-cream-50">
+        <View className="mb-8 flex-row items-center px-6 pb-4 pt-12">
+          <TouchableOpacity onPress={() => router.back()} className="mr-4">
+            <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-2xl text-earth-600">
+              ←
+            </Text>
+          </TouchableOpacity>
+          <Text style={{ fontFamily: 'Nunito_700Bold' }} className="text-2xl text-earth-800">
+            {title}
+          </Text>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#8B4513" />
+          </View>
+        ) : (
+          <ScrollView className="flex-1 px-6">
+            {ingredientId === null && (
+              <View className="mb-6">
+                <Text
+                  style={{ fontFamily: 'Nunito_600SemiBold' }}
+                  className="mb-3 text-xl text-earth-800">
+                  Used this month
+                </Text>
+                {usage.length === 0 ? (
+                  <Text style={{ fontFamily: 'Nunito_400Regular' }} className="text-earth-500">
+                    Nothing cooked yet this month
+                  </Text>
+                ) : (
+                  usage.map((item) => (
+                    <Text
+                      key={`${item.ingredient_name}-${item.unit}`}
+                      style={{ fontFamily: 'Nunito_400Regular' }}
+                      className="mb-1 text-earth-700">
+                      You used {formatUsage(item.quantity_used, item.unit)} of{' '}
+                      {item.ingredient_name.toLowerCase()}
+                    </Text>
+                  ))
+                )}
+              </View>
+            )}
+
+            <Text
+              style={{ fontFamily: 'Nunito_600SemiBold' }}
+              className="mb-3 text-xl text-earth-800">
+              {ingredientId === null ? 'Recent changes' : 'Changes'}
+            </Text>
+            {events.length === 0 ? (
+              <Text style={{ fontFamily: 'Nunito_400Regular' }} className="text-earth-500">
+                No changes recorded yet
+              </Text>
+            ) : (
+              events.map((event) => (
+                <EventRow key={event.id} event={event} showName={ingredientId === null} />
+              ))
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Container>
+  );
+}
@@ -0,0 +1,445 @@
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Stack, useRouter, useLocalSearchParams } from 'expo-router';
+import { AllergenGate, AllergenWarning } from '~/components/AllergenWarning';
+import { Container } from '~/components/Container';
+import { Button } from '~/components/Button';
+import {
+  useAddToShoppingList,
+  useAllergenMatches,
+  useCookRecipe,
+  useInventory,
+  useRecipe,
+  useUndoLastCook,
+} from '~/hooks';
+import { SERVINGS_MULTIPLIERS, formatMultiplier } from '~/utils/cooking';
+import { CookCheck, IngredientStatus, checkCanCook, describeShortfall } from '~/utils/cookCheck';
+import { describeReadiness, getRecipeReadiness } from '~/utils/readiness';
+import { shortfallsToShoppingItems } from '~/utils/shoppingList';
+import { Recipe } from '~/utils/repositories';
+import { selectCompletedSteps, useAppStore, useFormatQuantity } from '~/store/store';
+import { formatAmount, normalizeRecipeIngredients, scaleIngredients } from '~/utils/units';
+
+const STATUS_LABELS: Record<IngredientStatus, string | null> = {
+  available: null,
+  staple: 'not tracked, assumed on hand',
+  missing: 'missing',
+  insufficient: 'not enough',
+  incompatible: 'check units',
+};
+
+export default function SavedRecipeScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { recipe, loading, error } = useRecipe(Number(id));
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error loading recipe:', error);
+      Alert.alert('Error', 'Failed to load this recipe. Please try again.');
+    }
+  }, [error]);
+
+  if (recipe) return <SavedRecipeDetail recipe={recipe} />;
+
+  return (
+    <Container>
+      <View className="flex-1 items-center justify-center bg-cream-50 px-6">
+        <Stack.Screen options={{ title: 'Recipe', headerShown: false }} />
+        {loading ? (
+          <ActivityIndicator size="large" color="#8B4513" />
+        ) : (
+          <>
+            <Text
+              style={{ fontFamily: 'Nunito_500Medium' }}
+              className="mb-6 text-center text-earth-600">
+              This recipe doesn&apos;t exist or has been deleted.
+            </Text>
+            <TouchableOpacity
+              onPress={() => router.replace('/dashboard')}
+              className="rounded-lg bg-sage-600 px-8 py-4">
+              <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-lg text-cream-50">
+                My Recipes
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </Container>
+  );
+}
+
+function SavedRecipeDetail({ recipe }: { recipe: Recipe }) {
+  const [cookModalVisible, setCookModalVisible] = useState(false);
+  const [multiplier, setMultiplier] = useState(1);
+  const router = useRouter();
+  const { data: inventory, refetch: refetchInventory } = useInventory();
+  const cookRecipe = useCookRecipe();
+  const undoLastCook = useUndoLastCook();
+  const addToShoppingList = useAddToShoppingList();
+  const ingredients = normalizeRecipeIngredients(recipe.ingredients);
+  const completedSteps = useAppStore(selectCompletedSteps(recipe.id));
+  const toggleCookStep = useAppStore((state) => state.toggleCookStep);
+  const clearCookProgress = useAppStore((state) => state.clearCookProgress);
+  const formatQuantity = useFormatQuantity();
+  const readiness = inventory ? getRecipeReadiness(recipe.ingredients, inventory) : null;
+  const allergenMatches = useAllergenMatches(ingredients);
+  const [showAnyway, setShowAnyway] = useState(false);
+
+  // The check for the portion picked in the cook dialog, once the inventory has loaded
+  const cookCheck: CookCheck | null = inventory
+    ? checkCanCook(scaleIngredients(ingredients, multiplier), inventory)
+    : null;
+
+  const handleAddToShoppingList = async (servingsMultiplier = 1) => {
+    try {
+      const { data: latestInventory = [] } = await refetchInventory({ throwOnError: true });
+      const { shortfalls } = checkCanCook(
+        scaleIngredients(ingredients, servingsMultiplier),
+        latestInventory
+      );
+      const items = shortfallsToShoppingItems(shortfalls, recipe.id);
+
+      if (items.length === 0) {
+        Alert.alert('Nothing to add', 'You have everything this recipe needs.');
+        return;
+      }
+
+      await addToShoppingList.mutateAsync(items);
+      Alert.alert('Added', `${items.length} item(s) added to your shopping list.`, [
+        { text: 'OK', style: 'cancel' },
+        { text: 'View List', onPress: () => router.push('/shopping-list') },
+      ]);
+    } catch (error) {
+      console.error('Error adding to shopping list:', error);
+      Alert.alert('Error', 'Failed to add items to your shopping list. Please try again.');
+    }
+  };
+
+  const handleCookRecipe = () => {
+    setMultiplier(1);
+    setCookModalVisible(true);
+    // Re-read the inventory in case it changed since the screen opened. The cook RPC
+    // checks it again, so a failure here only loses the preview.
+    refetchInventory();
+  };
+
+  const handleUndoCook = async () => {
+    try {
+      const result = await undoLastCook.mutateAsync();
+      if (result.startsWith('Success')) {
+        Alert.alert('Undone', 'Your ingredients have been restored.');
+      } else {
+        Alert.alert('Error', result);
+      }
+    } catch (error) {
+      console.error('Error undoing cook:', error);
+      Alert.alert('Error', 'Failed to undo. Please try again.');
+    }
+  };
+
+  const handleConfirmCook = async () => {
+    const servingsMultiplier = multiplier;
+    setCookModalVisible(false);
+
+    try {
+      const data = await cookRecipe.mutateAsync({ recipe, servingsMultiplier });
+
+      if (data && data.startsWith('Success')) {
+        clearCookProgress(recipe.id);
+        Alert.alert(
+          'Success',
+          'Ingredients have been subtracted from your inventory. Enjoy your meal!',
+          [
+            { text: 'OK', style: 'cancel' },
+            { text: 'Undo', style: 'destructive', onPress: handleUndoCook },
+          ]
+        );
+      } else {
+        Alert.alert('Error', data || 'Failed to cook recipe. Please check your ingredients.', [
+          { text: 'OK', style: 'cancel' },
+          {
+            text: 'Add to Shopping List',
+            onPress: () => handleAddToShoppingList(servingsMultiplier),
+          },
+        ]);
+      }
+    } catch (error) {
+      console.error('Error cooking recipe:', error);
+      Alert.alert('Error', 'Failed to cook recipe. Please try again.');
+    }
+  };
+
+  const totalTime = (recipe.prep_time_minutes ?? 0) + (recipe.cook_time_minutes ?? 0);
+
+  // Saved before the allergy was declared, or the recipe was added by someone else in the household
+  if (allergenMatches.length > 0 && !showAnyway) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: recipe.title, headerShown: false }} />
+        <AllergenGate
+          matches={allergenMatches}
+          onBack={() => router.back()}
+          onShowAnyway={() => setShowAnyway(true)}
+        />
+      </Container>
+    );
+  }
+
+  return (
+    <Container>
+      <View className="flex-1 bg-cream-50">
+        <Stack.Screen options={{ title: recipe.title, headerShown: false }} />
+
+        <ScrollView className="flex-1 px-6 pt-12">
+          {allergenMatches.length > 0 && <AllergenWarning matches={allergenMatches} />}
+          <Text style={{ fontFamily: 'Nunito_700Bold' }} className="mb-4 text-3xl text-earth-800">
+            {recipe.title}
+          </Text>
+          <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-6 text-earth-600">
+            {recipe.description}
+          </Text>
+
+          <View className="mb-6 flex-row flex-wrap gap-2">
+            <View className="rounded-full bg-cream-100 px-3 py-1">
+              <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-sm text-earth-700">
+                {totalTime} min
+              </Text>
+            </View>
+            <View className="rounded-full bg-sage-100 px-3 py-1">
+              <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-sm text-sage-700">
+                {recipe.servings} servings
+              </Text>
+            </View>
+            {recipe.is_used && (
+              <View className="rounded-full bg-sage-100 px-3 py-1">
+                <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-sm text-sage-700">
+                  Used
+                </Text>
+              </View>
+            )}
+          </View>
+
+          <View className="mb-8">
+            <Text
+              style={{ fontFamily: 'Nunito_600SemiBold' }}
+              className="mb-4 text-xl text-earth-800">
+              Ingredients
+            </Text>
+            {readiness && !recipe.is_used && (
+              <Text
+                style={{ fontFamily: 'Nunito_500Medium' }}
+                className={`mb-3 ${readiness.canCook ? 'text-sage-700' : 'text-terracotta-700'}`}>
+                {describeReadiness(readiness)}
+              </Text>
+            )}
+            {readiness && !recipe.is_used && !readiness.canCook && (
+              <TouchableOpacity
+                onPress={() => handleAddToShoppingList()}
+                disabled={addToShoppingList.isPending}
+                className="mb-4 self-start rounded-lg bg-sage-600 px-4 py-2">
+                <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-cream-50">
+                  {addToShoppingList.isPending ? 'Adding...' : 'Add missing to shopping list'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            <View className="space-y-2">
+              {ingredients.map((ingredient, index) => {
+                const check = readiness && !recipe.is_used ? readiness.ingredients[index] : null;
+                const label = check ? STATUS_LABELS[check.status] : null;
+                const short = check?.status === 'missing' || check?.status === 'insufficient';
+
+                return (
+                  <View key={index} className="flex-row items-center">
+                    <Text className="mr-2 text-earth-600">•</Text>
+                    <View className="flex-1">
+                      <Text
+                        style={{ fontFamily: 'Nunito_400Regular' }}
+                        className={short ? 'text-terracotta-600' : 'text-earth-700'}>
+                        {formatQuantity(ingredient)} {ingredient.name}
+                      </Text>
+                      {check?.status === 'insufficient' && (
+                        <Text
+                          style={{ fontFamily: 'Nunito_400Regular' }}
+                          className="text-sm text-earth-500">
+                          You have {formatQuantity({ quantity: check.available, unit: check.unit })}
+                        </Text>
+                      )}
+                      {check?.status === 'incompatible' && (
+                        <Text
+                          style={{ fontFamily: 'Nunito_400Regular' }}
+                          className="text-sm text-earth-500">
+                          Your {check.inventoryName} is kept in a unit we can&apos;t compare
+                        </Text>
+                      )}
+                    </View>
+                    {label && (
+                      <View
+                        className={`rounded-full px-2 py-0.5 ${
+                          short ? 'bg-terracotta-100' : 'bg-cream-100'
+                        }`}>
+                        <Text
+                          style={{ fontFamily: 'Nunito_500Medium' }}
+                          className={`text-xs ${short ? 'text-terracotta-700' : 'text-earth-600'}`}>
+                          {label}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+
+          <View className="mb-8">
+            <Text
+              style={{ fontFamily: 'Nunito_600SemiBold' }}
+              className="mb-4 text-xl text-earth-800">
+              Instructions
+            </Text>
+            <View className="space-y-4">
+              {recipe.instructions.map((instruction, index) => {
+                // Tapping a step ticks it off; progress is kept if the user leaves mid-recipe
+                const done = completedSteps.includes(index);
+                return (
+                  <TouchableOpacity
+                    key={index}
+                    className="flex-row"
+                    onPress={() => toggleCookStep(recipe.id, index)}>
+                    <View
+                      className={`mr-3 mt-1 h-6 w-6 rounded-full ${done ? 'bg-sage-600' : 'bg-earth-600'}`}>
+                      <Text
+                        style={{ fontFamily: 'Nunito_600SemiBold' }}
+                        className="flex h-full items-center justify-center text-center text-sm text-cream-50">
+                        {done ? '✓' : index + 1}
+                      </Text>
+                    </View>
+                    <Text
+                      style={{ fontFamily: 'Nunito_400Regular' }}
+                      className={`flex-1 ${done ? 'text-earth-400 line-through' : 'text-earth-700'}`}>
+                      {instruction}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </ScrollView>
+
+        <View className="px-6 pb-8">
+          {!recipe.is_used && (
+            <Button onPress={handleCookRecipe} loading={cookRecipe.isPending} className="mb-4">
+              Cook This Recipe
+            </Button>
+          )}
+
+          <TouchableOpacity
+            className="rounded-lg border-2 border-earth-600 py-4"
+            onPress={() => router.back()}>
+            <Text
+              style={{ fontFamily: 'Nunito_600SemiBold' }}
+              className="text-center text-lg text-earth-600">
+              Back
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <Modal
+          visible={cookModalVisible}
+          transparent
+          animationType="slide"
+          onRequestClose={() => setCookModalVisible(false)}>
+          <View className="flex-1 justify-center bg-black/50 px-6">
+            <View className="rounded-xl bg-white p-6">
+              <Text
+                style={{ fontFamily: 'Nunito_700Bold' }}
+                className="mb-2 text-xl text-earth-800">
+                Cook Recipe
+              </Text>
+              <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-4 text-earth-600">
+                This will subtract the ingredients from your inventory. How much are you making?
+              </Text>
+
+              <View className="mb-4 flex-row gap-2">
+                {SERVINGS_MULTIPLIERS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    onPress={() => setMultiplier(option)}
+                    className={`flex-1 rounded-lg border-2 py-2 ${
+                      multiplier === option
+                        ? 'border-earth-600 bg-earth-600'
+                        : 'border-earth-300 bg-cream-50'
+                    }`}>
+                    <Text
+                      style={{ fontFamily: 'Nunito_600SemiBold' }}
+                      className={`text-center ${
+                        multiplier === option ? 'text-cream-50' : 'text-earth-700'
+                      }`}>
+                      {formatMultiplier(option)}
+                    </Text>
+                    {recipe.servings !== null && (
+                      <Text
+                        style={{ fontFamily: 'Nunito_400Regular' }}
+                        className={`text-center text-xs ${
+                          multiplier === option ? 'text-cream-100' : 'text-earth-500'
+                        }`}>
+                        {formatAmount(recipe.servings * option)} servings
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {cookCheck && cookCheck.shortfalls.length > 0 && (
+                <View className="mb-4 rounded-lg bg-earth-100 p-3">
+                  <Text
+                    style={{ fontFamily: 'Nunito_600SemiBold' }}
+                    className="mb-1 text-earth-800">
+                    You may not have enough of:
+                  </Text>
+                  {cookCheck.shortfalls.map((shortfall) => (
+                    <Text
+                      key={shortfall.name}
+                      style={{ fontFamily: 'Nunito_400Regular' }}
+                      className="text-sm text-earth-700">
+                      • {describeShortfall(shortfall)}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              <View className="flex-row space-x-3">
+                <TouchableOpacity
+                  onPress={() => setCookModalVisible(false)}
+                  className="flex-1 rounded-lg bg-gray-300 py-3">
+                  <Text
+                    style={{ fontFamily: 'Nunito_600SemiBold' }}
+                    className="text-center text-earth-800">
+                    Cancel
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleConfirmCook}
+                  className="flex-1 rounded-lg bg-earth-600 py-3">
+                  <Text
+                    style={{ fontFamily: 'Nunito_600SemiBold' }}
+                    className="text-center text-cream-50">
+                    {cookCheck && !cookCheck.canCook ? 'Cook Anyway' : 'Cook'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </View>
+    </Container>
+  );
+}
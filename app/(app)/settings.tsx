@@ -0,0 +1,473 @@
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Image,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { Container } from '~/components/Container';
+import { useAuth } from '~/context/SupabaseContext';
+import {
+  useDeleteAccount,
+  useExportAccount,
+  useProfile,
+  useUpdateProfile,
+  useUploadAvatar,
+} from '~/hooks';
+import { selectSettings, useAppStore } from '~/store/store';
+import { ExportFormat } from '~/utils/accountExport';
+import { AUTH_REDIRECT_URL } from '~/utils/authLinks';
+import { UnitSystem } from '~/utils/conversion';
+import { useSyncStore } from '~/utils/offline';
+import { supabase } from '~/utils/supabase';
+
+const UNIT_SYSTEM_OPTIONS: { value: UnitSystem; label: string }[] = [
+  { value: 'metric', label: 'Metric (g, ml)' },
+  { value: 'imperial', label: 'Imperial (oz, cups)' },
+];
+
+interface OptionRowProps<T extends string> {
+  options: { value: T; label: string }[];
+  selected: T;
+  onSelect: (value: T) => void;
+}
+
+function OptionRow<T extends string>({ options, selected, onSelect }: OptionRowProps<T>) {
+  return (
+    <View className="flex-row flex-wrap gap-2">
+      {options.map(({ value, label }) => (
+        <TouchableOpacity
+          key={value}
+          onPress={() => onSelect(value)}
+          className={`rounded-full border-2 px-4 py-2 ${
+            value === selected ? 'border-earth-600 bg-earth-600' : 'border-earth-300 bg-white'
+          }`}>
+          <Text
+            style={{ fontFamily: 'Nunito_500Medium' }}
+            className={value === selected ? 'text-cream-50' : 'text-earth-700'}>
+            {label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { data: profile, error, isPending: loading } = useProfile();
+  const updateProfile = useUpdateProfile();
+  const uploadAvatar = useUploadAvatar();
+  const exportAccount = useExportAccount();
+  const deleteAccount = useDeleteAccount();
+  const settings = useAppStore(selectSettings);
+  const updateSettings = useAppStore((state) => state.updateSettings);
+  const pendingEdits = useSyncStore((state) => state.pending.length);
+
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error loading profile:', error);
+      Alert.alert('Error', 'Failed to load your profile. Please try again.');
+    }
+  }, [error]);
+
+  useEffect(() => {
+    setName(profile?.full_name ?? '');
+  }, [profile?.full_name]);
+
+  const handleSaveName = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter your name');
+      return;
+    }
+
+    try {
+      await updateProfile.mutateAsync({ full_name: name.trim() });
+      Alert.alert('Saved', 'Your name has been updated.');
+    } catch (error) {
+      console.error('Error saving name:', error);
+      Alert.alert('Error', 'Failed to save your name. Please try again.');
+    }
+  };
+
+  const handleChangePhoto = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.7,
+    });
+    if (result.canceled) return;
+
+    const [asset] = result.assets;
+    try {
+      await uploadAvatar.mutateAsync({
+        uri: asset.uri,
+        contentType: asset.mimeType ?? 'image/jpeg',
+      });
+    } catch (error) {
+      console.error('Error uploading avatar:', error);
+      Alert.alert('Error', 'Failed to upload your photo. Please try again.');
+    }
+  };
+
+  const handleChangeEmail = async () => {
+    if (!email.trim()) {
+      Alert.alert('Error', 'Please enter your new email');
+      return;
+    }
+
+    setSavingEmail(true);
+    try {
+      // Nothing changes until the link sent to the new address is opened
+      const { error } = await supabase.auth.updateUser(
+        { email: email.trim() },
+        { emailRedirectTo: AUTH_REDIRECT_URL }
+      );
+
+      if (error) {
+        Alert.alert('Error', error.message);
+      } else {
+        setEmail('');
+        Alert.alert(
+          'Check Your Email',
+          'Open the link we sent to confirm the change. You keep using your current email until then.'
+        );
+      }
+    } catch {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSavingEmail(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (!password || !confirmPassword) {
+      Alert.alert('Error', 'Please fill in both password fields');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    if (password.length < 6) {
+      Alert.alert('Error', 'Password must be at least 6 characters');
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        Alert.alert('Error', error.message);
+      } else {
+        setPassword('');
+        setConfirmPassword('');
+        Alert.alert('Password Updated', 'Your new password is saved.');
+      }
+    } catch {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const handleExport = () => {
+    const share = async (format: ExportFormat) => {
+      try {
+        await exportAccount.mutateAsync(format);
+      } catch (error) {
+        console.error('Error exporting data:', error);
+        Alert.alert('Error', 'Failed to export your data. Please try again.');
+      }
+    };
+
+    Alert.alert('Export My Data', 'Everything we store about you, in the format you choose.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Readable (Markdown)', onPress: () => share('markdown') },
+      { text: 'Complete (JSON)', onPress: () => share('json') },
+    ]);
+  };
+
+  const handleDeleteAccount = () => {
+    Alert.alert(
+      'Delete Account',
+      'This permanently deletes your account, your preferences and any household only you are in. Households you share keep their kitchen. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Account',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteAccount.mutateAsync();
+              // The session belongs to a user that no longer exists, so only clear it here
+              await supabase.auth.signOut({ scope: 'local' });
+              Alert.alert('Account Deleted', 'Your account and data have been deleted.');
+            } catch (error) {
+              console.error('Error deleting account:', error);
+              Alert.alert('Error', 'Failed to delete your account. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSignOut = () => {
+    // Signing out clears the offline queue along with the rest of the user's data
+    const message =
+      pendingEdits > 0
+        ? "Some of your changes haven't synced yet and will be lost."
+        : 'You can sign back in at any time.';
+
+    Alert.alert('Sign Out', message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out',
+        style: 'destructive',
+        onPress: async () => {
+          // The (app) layout sends the user back to the landing screen once signed out
+          const { error } = await supabase.auth.signOut();
+          if (error) Alert.alert('Error', error.message);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title: 'Settings', headerShown: false }} />
+      <View className="flex-1 bg-cream-50">
+        <View className="mb-8 flex-row items-center px-6 pb-4 pt-12">
+          <TouchableOpacity onPress={() => router.back()} className="mr-4">
+            <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-2xl text-earth-600">
+              ←
+            </Text>
+          </TouchableOpacity>
+          <Text style={{ fontFamily: 'Nunito_700Bold' }} className="text-2xl text-earth-800">
+            Settings
+          </Text>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#8B4513" />
+          </View>
+        ) : (
+          <ScrollView className="flex-1 px-6" keyboardShouldPersistTaps="handled">
+            <View className="mb-6 rounded-xl bg-white p-6 shadow-sm">
+              <Text
+                style={{ fontFamily: 'Nunito_700Bold' }}
+                className="mb-4 text-xl text-earth-800">
+                Profile
+              </Text>
+
+              <View className="mb-4 flex-row items-center">
+                {profile?.avatar_url ? (
+                  <Image
+                    source={{ uri: profile.avatar_url }}
+                    className="mr-4 h-20 w-20 rounded-full bg-cream-100"
+                  />
+                ) : (
+                  <View className="mr-4 h-20 w-20 items-center justify-center rounded-full bg-sage-100">
+                    <Text
+                      style={{ fontFamily: 'Nunito_700Bold' }}
+                      className="text-3xl text-sage-700">
+                      {(profile?.full_name || user?.email || '?').charAt(0).toUpperCase()}
+                    </Text>
+                  </View>
+                )}
+                <TouchableOpacity
+                  onPress={handleChangePhoto}
+                  disabled={uploadAvatar.isPending}
+                  className="rounded-lg border-2 border-earth-600 px-4 py-2">
+                  <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-earth-600">
+                    {uploadAvatar.isPending ? 'Uploading...' : 'Change Photo'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
+                Name
+              </Text>
+              <View className="flex-row space-x-3">
+                <TextInput
+                  className="flex-1 rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="Enter your name"
+                  autoCapitalize="words"
+                />
+                <TouchableOpacity
+                  onPress={handleSaveName}
+                  disabled={updateProfile.isPending || name.trim() === (profile?.full_name ?? '')}
+                  className="justify-center rounded-lg bg-earth-600 px-6">
+                  <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-cream-50">
+                    {updateProfile.isPending ? 'Saving...' : 'Save'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <View className="mb-6 rounded-xl bg-white p-6 shadow-sm">
+              <Text
+                style={{ fontFamily: 'Nunito_700Bold' }}
+                className="mb-1 text-xl text-earth-800">
+                Account
+              </Text>
+              <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-4 text-earth-600">
+                Signed in as {user?.email}
+              </Text>
+
+              <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
+                New Email
+              </Text>
+              <TextInput
+                className="mb-3 rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+                value={email}
+                onChangeText={setEmail}
+                placeholder="Enter your new email"
+                autoCapitalize="none"
+                keyboardType="email-address"
+              />
+              <TouchableOpacity
+                onPress={handleChangeEmail}
+                disabled={savingEmail}
+                className="mb-6 rounded-lg bg-earth-600 py-3">
+                <Text
+                  style={{ fontFamily: 'Nunito_600SemiBold' }}
+                  className="text-center text-cream-50">
+                  {savingEmail ? 'Sending Link...' : 'Change Email'}
+                </Text>
+              </TouchableOpacity>
+
+              <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
+                New Password
+              </Text>
+              <TextInput
+                className="mb-3 rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+                value={password}
+                onChangeText={setPassword}
+                placeholder="Enter a new password"
+                secureTextEntry
+              />
+              <TextInput
+                className="mb-3 rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                placeholder="Confirm your new password"
+                secureTextEntry
+              />
+              <TouchableOpacity
+                onPress={handleChangePassword}
+                disabled={savingPassword}
+                className="rounded-lg bg-earth-600 py-3">
+                <Text
+                  style={{ fontFamily: 'Nunito_600SemiBold' }}
+                  className="text-center text-cream-50">
+                  {savingPassword ? 'Saving...' : 'Change Password'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <View className="mb-6 rounded-xl bg-white p-6 shadow-sm">
+              <Text
+                style={{ fontFamily: 'Nunito_700Bold' }}
+                className="mb-4 text-xl text-earth-800">
+                App
+              </Text>
+
+              <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
+                Units
+              </Text>
+              <Text
+                style={{ fontFamily: 'Nunito_400Regular' }}
+                className="mb-3 text-sm text-earth-500">
+                Recipes and the shopping list show amounts in these units.
+              </Text>
+              <OptionRow
+                options={UNIT_SYSTEM_OPTIONS}
+                selected={settings.unitSystem}
+                onSelect={(unitSystem) => updateSettings({ unitSystem })}
+              />
+            </View>
+
+            <View className="mb-6 rounded-xl bg-white p-6 shadow-sm">
+              <Text
+                style={{ fontFamily: 'Nunito_700Bold' }}
+                className="mb-1 text-xl text-earth-800">
+                Your Data
+              </Text>
+              <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-4 text-earth-600">
+                Take a copy of your profile, preferences, kitchen, recipes and cook history, or
+                delete your account.
+              </Text>
+              <TouchableOpacity
+                onPress={handleExport}
+                disabled={exportAccount.isPending}
+                className="mb-3 rounded-lg bg-earth-600 py-3">
+                <Text
+                  style={{ fontFamily: 'Nunito_600SemiBold' }}
+                  className="text-center text-cream-50">
+                  {exportAccount.isPending ? 'Exporting...' : 'Export My Data'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleDeleteAccount}
+                disabled={deleteAccount.isPending}
+                className="rounded-lg bg-red-600 py-3">
+                {deleteAccount.isPending ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <Text
+                    style={{ fontFamily: 'Nunito_600SemiBold' }}
+                    className="text-center text-cream-50">
+                    Delete My Account
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              onPress={() => router.push('/onboarding/ingredients')}
+              className="mb-4 rounded-lg border-2 border-earth-600 py-4">
+              <Text
+                style={{ fontFamily: 'Nunito_600SemiBold' }}
+                className="text-center text-lg text-earth-600">
+                Run Onboarding Again
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={handleSignOut}
+              className="mb-8 rounded-lg border-2 border-red-600 py-4">
+              <Text
+                style={{ fontFamily: 'Nunito_600SemiBold' }}
+                className="text-center text-lg text-red-600">
+                Sign Out
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </View>
+    </Container>
+  );
+}
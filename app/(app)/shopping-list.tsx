@@ -0,0 +1,159 @@
+import { useEffect } from 'react';
+import { View, Text, TouchableOpacity, FlatList, Alert, ActivityIndicator } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Container } from '~/components/Container';
+import {
+  useMarkBought,
+  useRemoveShoppingItem,
+  useShoppingList,
+  useToggleShoppingItem,
+} from '~/hooks';
+import { ShoppingListItem } from '~/utils/shoppingList';
+import { useFormatQuantity } from '~/store/store';
+
+export default function ShoppingListScreen() {
+  const router = useRouter();
+  const { data: items = [], error, isPending: loading } = useShoppingList();
+  const toggleItem = useToggleShoppingItem();
+  const removeItem = useRemoveShoppingItem();
+  const markBought = useMarkBought();
+  const moving = markBought.isPending;
+  const formatQuantity = useFormatQuantity();
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error loading shopping list:', error);
+      Alert.alert('Error', 'Failed to load your shopping list. Please try again.');
+    }
+  }, [error]);
+
+  const handleToggleItem = async (item: ShoppingListItem) => {
+    try {
+      await toggleItem.mutateAsync(item);
+    } catch (error) {
+      console.error('Error updating shopping list item:', error);
+    }
+  };
+
+  const handleDeleteItem = async (itemId: number) => {
+    try {
+      await removeItem.mutateAsync(itemId);
+    } catch (error) {
+      console.error('Error deleting shopping list item:', error);
+      Alert.alert('Error', 'Failed to remove item. Please try again.');
+    }
+  };
+
+  const checkedItems = items.filter((item) => item.checked);
+
+  const handleMarkBought = async () => {
+    try {
+      const skipped = await markBought.mutateAsync(checkedItems);
+
+      if (skipped.length > 0) {
+        Alert.alert(
+          'Some items were kept',
+          `These are in your inventory in a unit we can't add to: ${skipped.join(', ')}. Update them from your ingredients instead.`
+        );
+      } else {
+        Alert.alert('Success', 'Bought items have been added to your inventory.');
+      }
+    } catch (error) {
+      console.error('Error moving items to inventory:', error);
+      Alert.alert('Error', 'Failed to update your inventory. Please try again.');
+    }
+  };
+
+  const renderItem = ({ item }: { item: ShoppingListItem }) => (
+    <View className="mb-3 flex-row items-center rounded-lg bg-white p-4 shadow-sm">
+      <TouchableOpacity
+        onPress={() => handleToggleItem(item)}
+        className={`mr-4 h-6 w-6 items-center justify-center rounded border-2 ${
+          item.checked ? 'border-sage-600 bg-sage-600' : 'border-earth-300 bg-cream-50'
+        }`}>
+        {item.checked && <Text className="text-sm text-cream-50">✓</Text>}
+      </TouchableOpacity>
+      <View className="flex-1">
+        <Text
+          style={{ fontFamily: 'Nunito_600SemiBold' }}
+          className={`text-lg ${item.checked ? 'text-earth-400 line-through' : 'text-earth-800'}`}>
+          {item.name}
+        </Text>
+        <Text style={{ fontFamily: 'Nunito_400Regular' }} className="text-earth-600">
+          {formatQuantity(item)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => handleDeleteItem(item.id)}
+        className="rounded-lg bg-terracotta-500 px-3 py-1">
+        <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-cream-50">
+          Remove
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title: 'Shopping List', headerShown: false }} />
+      <View className="flex-1 bg-cream-50">
+        <View className="mb-8 flex-row items-center px-6 pb-4 pt-12">
+          <TouchableOpacity onPress={() => router.back()} className="mr-4">
+            <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-2xl text-earth-600">
+              ←
+            </Text>
+          </TouchableOpacity>
+          <Text style={{ fontFamily: 'Nunito_700Bold' }} className="text-2xl text-earth-800">
+            Shopping List
+          </Text>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#8B4513" />
+          </View>
+        ) : (
+          <FlatList
+            data={items}
+            renderItem={renderItem}
+            keyExtractor={(item) => item.id.toString()}
+            className="flex-1 px-6"
+            ListEmptyComponent={
+              <View className="flex-1 items-center justify-center py-8">
+                <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-earth-600">
+                  Your shopping list is empty
+                </Text>
+                <Text
+                  style={{ fontFamily: 'Nunito_400Regular' }}
+                  className="mt-2 text-center text-earth-500">
+                  Add missing ingredients from a saved recipe
+                </Text>
+              </View>
+            }
+          />
+        )}
+
+        <View className="px-6 pb-8">
+          <TouchableOpacity
+            onPress={handleMarkBought}
+            disabled={checkedItems.length === 0 || moving}
+            className={`rounded-lg py-4 ${
+              checkedItems.length > 0 && !moving ? 'bg-earth-600' : 'bg-gray-400'
+            }`}>
+            <Text
+              style={{ fontFamily: 'Nunito_600SemiBold' }}
+              className={`text-center text-lg ${
+                checkedItems.length > 0 && !moving ? 'text-cream-50' : 'text-gray-200'
+              }`}>
+              {moving
+                ? 'Updating inventory...'
+                : checkedItems.length > 0
+                  ? `Mark ${checkedItems.length} as bought`
+                  : 'Mark as bought'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Container>
+  );
+}
@@ -0,0 +1,15 @@
+import { Redirect } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+
+// On web, OAuth runs in a popup that lands here; this hands its URL back to the opener
+WebBrowser.maybeCompleteAuthSession();
+
+/**
+ * Where emailed sign-up, magic link and password reset links, and OAuth redirects, open
+ * the app. The auth provider signs in from the link while the (auth) layout shows its
+ * spinner, then the layout moves the user on; if the link failed they're still signed out
+ * and land here.
+ */
+export default function AuthCallback() {
+  return <Redirect href="/login" />;
+}
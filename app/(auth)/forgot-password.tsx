@@ -0,0 +1,94 @@
+import { View, Text, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { supabase } from '~/utils/supabase';
+import { PASSWORD_RESET_REDIRECT_URL } from '~/utils/authLinks';
+import { Container } from '~/components/Container';
+
+export default function ForgotPassword() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ email?: string }>();
+  const [email, setEmail] = useState(params.email ?? '');
+  const [loading, setLoading] = useState(false);
+
+  const handleSendLink = async () => {
+    if (!email) {
+      Alert.alert('Error', 'Please enter your email');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // The link opens the app signed in, on the screen for choosing a new password
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: PASSWORD_RESET_REDIRECT_URL,
+      });
+
+      if (error) {
+        Alert.alert('Error', error.message);
+      } else {
+        Alert.alert(
+          'Check Your Email',
+          'If an account exists for that email, we sent it a link to reset your password.',
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+      }
+    } catch {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title: 'Forgot Password', headerShown: false }} />
+      <View className="flex-1 bg-cream-50">
+        <View className="mb-8 flex-row items-center px-6 pb-4 pt-12">
+          <TouchableOpacity onPress={() => router.back()} className="mr-4">
+            <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-2xl text-earth-600">
+              ←
+            </Text>
+          </TouchableOpacity>
+          <Text style={{ fontFamily: 'Nunito_700Bold' }} className="text-2xl text-earth-800">
+            Forgot Password
+          </Text>
+        </View>
+
+        <Text
+          style={{ fontFamily: 'Nunito_400Regular' }}
+          className="mb-6 px-6 text-base text-earth-600">
+          Enter the email you signed up with and we&apos;ll send you a link to choose a new
+          password.
+        </Text>
+
+        <View className="mb-8 px-6">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
+            Email
+          </Text>
+          <TextInput
+            className="rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+            value={email}
+            onChangeText={setEmail}
+            placeholder="Enter your email"
+            autoCapitalize="none"
+            keyboardType="email-address"
+            returnKeyType="done"
+            onSubmitEditing={handleSendLink}
+          />
+        </View>
+
+        <TouchableOpacity
+          className="mx-6 mb-4 rounded-lg bg-earth-600 py-4"
+          onPress={handleSendLink}
+          disabled={loading}>
+          <Text
+            style={{ fontFamily: 'Nunito_600SemiBold' }}
+            className="text-center text-lg text-cream-50">
+            {loading ? 'Sending...' : 'Send Reset Link'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </Container>
+  );
+}
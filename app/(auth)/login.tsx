@@ -1,8 +1,10 @@
-import { View, Text, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { View, Text, TextInput, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { useState, useRef } from 'react';
 import { supabase } from '~/utils/supabase';
+import { AUTH_REDIRECT_URL } from '~/utils/authLinks';
 import { Container } from '~/components/Container';
+import { OAuthButtons } from '~/components/OAuthButtons';
 
 export default function Login() {
   const router = useRouter();
@@ -10,6 +12,7 @@ export default function Login() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
+  const [sendingLink, setSendingLink] = useState(false);
 
   const handleLogin = async () => {
     if (!username || !password) {
@@ -24,26 +27,9 @@ export default function Login() {
         password,
       });
 
+      // On success the (auth) layout sends the user on, to onboarding or the dashboard
       if (error) {
         Alert.alert('Login Failed', error.message);
-      } else {
-        // Check onboarding status after successful login
-        const {
-          data: { user },
-        } = await supabase.auth.getUser();
-        if (user) {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('onboarding_complete')
-            .eq('id', user.id)
-            .single();
-
-          if (profile?.onboarding_complete) {
-            router.push('/dashboard');
-          } else {
-            router.push('/onboarding/ingredients');
-          }
-        }
       }
     } catch {
       Alert.alert('Error', 'An unexpected error occurred');
@@ -52,10 +38,36 @@ export default function Login() {
     }
   };
 
+  const handleMagicLink = async () => {
+    if (!username) {
+      Alert.alert('Error', 'Please enter your email');
+      return;
+    }
+
+    setSendingLink(true);
+    try {
+      // Only for existing accounts: new users go through registration for their name
+      const { error } = await supabase.auth.signInWithOtp({
+        email: username,
+        options: { emailRedirectTo: AUTH_REDIRECT_URL, shouldCreateUser: false },
+      });
+
+      if (error) {
+        Alert.alert('Error', error.message);
+      } else {
+        Alert.alert('Check Your Email', 'We sent you a link. Open it on this device to sign in.');
+      }
+    } catch {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSendingLink(false);
+    }
+  };
+
   return (
     <Container>
       <Stack.Screen options={{ title: 'Login', headerShown: false }} />
-      <View className="flex-1 bg-cream-50">
+      <ScrollView className="flex-1 bg-cream-50" keyboardShouldPersistTaps="handled">
         <View className="mb-8 flex-row items-center px-6 pb-4 pt-12">
           <TouchableOpacity onPress={() => router.back()} className="mr-4">
             <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-2xl text-earth-600">
@@ -84,7 +96,7 @@ export default function Login() {
           />
         </View>
 
-        <View className="mb-8 px-6">
+        <View className="mb-2 px-6">
           <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
             Password
           </Text>
@@ -101,6 +113,14 @@ export default function Login() {
           />
         </View>
 
+        <TouchableOpacity
+          onPress={() => router.push({ pathname: '/forgot-password', params: { email: username } })}
+          className="mb-8 self-end px-6">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-earth-600">
+            Forgot password?
+          </Text>
+        </TouchableOpacity>
+
         <TouchableOpacity
           className="mx-6 mb-4 rounded-lg bg-earth-600 py-4"
           onPress={handleLogin}
@@ -112,12 +132,25 @@ export default function Login() {
           </Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          className="mx-6 mb-6 rounded-lg border-2 border-earth-600 py-4"
+          onPress={handleMagicLink}
+          disabled={sendingLink}>
+          <Text
+            style={{ fontFamily: 'Nunito_600SemiBold' }}
+            className="text-center text-lg text-earth-600">
+            {sendingLink ? 'Sending Link...' : 'Email Me a Sign-In Link'}
+          </Text>
+        </TouchableOpacity>
+
+        <OAuthButtons />
+
         <TouchableOpacity onPress={() => router.push('/register')} className="px-6">
           <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-center text-earth-600">
             Don&apos;t have an account? Register
           </Text>
         </TouchableOpacity>
-      </View>
+      </ScrollView>
     </Container>
   );
 }
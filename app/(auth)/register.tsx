@@ -1,8 +1,10 @@
-import { View, Text, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { View, Text, TextInput, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { useState, useRef } from 'react';
 import { supabase } from '~/utils/supabase';
+import { AUTH_REDIRECT_URL } from '~/utils/authLinks';
 import { Container } from '~/components/Container';
+import { OAuthButtons } from '~/components/OAuthButtons';
 
 export default function Register() {
   const router = useRouter();
@@ -38,6 +40,8 @@ export default function Register() {
         email,
         password,
         options: {
+          // The confirmation link signs the user in and carries on to onboarding
+          emailRedirectTo: AUTH_REDIRECT_URL,
           data: {
             full_name: name,
             display_name: name,
@@ -50,7 +54,7 @@ export default function Register() {
       } else {
         Alert.alert(
           'Registration Successful',
-          'Your account has been created! Please check your email to confirm your account, then login to get started.',
+          'Your account has been created! Please open the link we emailed you on this device to confirm your account and get started.',
           [
             {
               text: 'Go to Login',
@@ -73,7 +77,7 @@ export default function Register() {
   return (
     <Container>
       <Stack.Screen options={{ title: 'Register', headerShown: false }} />
-      <View className="flex-1 bg-cream-50">
+      <ScrollView className="flex-1 bg-cream-50" keyboardShouldPersistTaps="handled">
         <View className="mb-8 flex-row items-center px-6 pb-4 pt-12">
           <TouchableOpacity onPress={() => router.back()} className="mr-4">
             <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-2xl text-earth-600">
@@ -169,12 +173,14 @@ export default function Register() {
           </Text>
         </TouchableOpacity>
 
+        <OAuthButtons />
+
         <TouchableOpacity onPress={() => router.push('/login')} className="px-6">
           <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-center text-earth-600">
             Already have an account? Login
           </Text>
         </TouchableOpacity>
-      </View>
+      </ScrollView>
     </Container>
   );
 }
@@ -0,0 +1,7 @@
+import { GuardedStack } from '~/components/GuardedStack';
+
+// Onboarding can be revisited after it's finished. Generated recipe drafts live here too,
+// since onboarding shows them before the user has reached the main app.
+export default function OnboardingLayout() {
+  return <GuardedStack allow={['onboarding', 'ready']} />;
+}
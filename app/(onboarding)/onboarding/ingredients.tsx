@@ -1,42 +1,25 @@
 import { View, Text, TouchableOpacity, FlatList, Alert, Modal, TextInput } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { useState, useEffect, useRef } from 'react';
-import { supabase } from '~/utils/supabase';
 import { Container } from '~/components/Container';
-
-interface Ingredient {
-  id: number;
-  name: string;
-  quantity: number;
-  unit: string;
-}
-
-const UNITS = [
-  'g',
-  'kg',
-  'mg',
-  'ml',
-  'l',
-  'cup',
-  'cups',
-  'tbsp',
-  'tsp',
-  'oz',
-  'lb',
-  'piece',
-  'pieces',
-  'whole',
-  'clove',
-  'cloves',
-  'stick',
-  'pinch',
-  'dash',
-  'bunch',
-];
+import { SyncStatus } from '~/components/SyncStatus';
+import {
+  describeExpiry,
+  describeOpened,
+  findExpiringSoon,
+  formatDate,
+  getExpiryStatus,
+  parseDate,
+} from '~/utils/expiry';
+import { useDeleteIngredient, useInventory, useUpsertIngredient } from '~/hooks';
+import { Ingredient, isUniqueViolation } from '~/utils/repositories';
+import { UNITS } from '~/utils/units';
 
 export default function OnboardingIngredients() {
   const router = useRouter();
-  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const { data: ingredients = [], error } = useInventory();
+  const upsertIngredient = useUpsertIngredient();
+  const deleteIngredient = useDeleteIngredient();
   const [modalVisible, setModalVisible] = useState(false);
   const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
   const nameInputRef = useRef<TextInput>(null);
@@ -45,45 +28,18 @@ export default function OnboardingIngredients() {
     name: '',
     quantity: '',
     unit: '',
+    expires_on: '',
+    opened_on: '',
   });
-  const [loading, setLoading] = useState(false);
+  const loading = upsertIngredient.isPending;
 
   useEffect(() => {
-    loadIngredients();
-  }, []);
-
-  const loadIngredients = async () => {
-    console.log('Loading ingredients...');
-    try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) {
-        console.log('No authenticated user found, clearing ingredients');
-        setIngredients([]);
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from('ingredients')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      console.log('Load ingredients result:', { data, error });
-      if (data && !error) {
-        setIngredients(data);
-      }
-    } catch (error) {
-      console.error('Error loading ingredients:', error);
-      setIngredients([]);
-    }
-  };
+    if (error) console.error('Error loading ingredients:', error);
+  }, [error]);
 
   const resetForm = () => {
-    setFormData({ name: '', quantity: '', unit: '' });
+    setFormData({ name: '', quantity: '', unit: '', expires_on: '', opened_on: '' });
     setEditingIngredient(null);
-    setLoading(false);
   };
 
   const openAddModal = () => {
@@ -97,6 +53,8 @@ export default function OnboardingIngredients() {
       name: ingredient.name,
       quantity: ingredient.quantity.toString(),
       unit: ingredient.unit,
+      expires_on: ingredient.expires_on ?? '',
+      opened_on: ingredient.opened_on ?? '',
     });
     setEditingIngredient(ingredient);
     setModalVisible(true);
@@ -115,70 +73,52 @@ export default function OnboardingIngredients() {
       return;
     }
 
-    setLoading(true);
-    try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error('No authenticated user found');
-      }
+    const expiresOn = formData.expires_on.trim();
+    const openedOn = formData.opened_on.trim();
+    if ((expiresOn && !parseDate(expiresOn)) || (openedOn && !parseDate(openedOn))) {
+      Alert.alert('Error', 'Please enter dates as YYYY-MM-DD');
+      return;
+    }
 
+    try {
       const ingredientData = {
         name: formData.name.trim(),
         quantity,
         unit: formData.unit.trim(),
-        user_id: user.id,
+        expires_on: expiresOn || null,
+        opened_on: openedOn || null,
       };
 
       console.log('Saving ingredient:', ingredientData);
 
-      let result;
-      if (editingIngredient) {
-        console.log('Updating existing ingredient:', editingIngredient.id);
-        result = await supabase
-          .from('ingredients')
-          .update(ingredientData)
-          .eq('id', editingIngredient.id)
-          .select();
-      } else {
-        console.log('Creating new ingredient');
-        result = await supabase.from('ingredients').insert(ingredientData).select();
-      }
-
-      console.log('Save ingredient result:', result);
-
-      if (result.error) {
-        console.error('Supabase error:', result.error);
-
-        // Handle specific error codes
-        if (result.error.code === '23505') {
-          Alert.alert(
-            'Duplicate Ingredient',
-            'You already have this ingredient in your inventory. Please use a different name or edit the existing one.',
-            [
-              {
-                text: 'OK',
-                onPress: () => {
-                  // Keep modal open for user to correct
-                },
-              },
-            ]
-          );
-          return;
-        }
-
-        throw result.error;
-      }
+      await upsertIngredient.mutateAsync({
+        id: editingIngredient?.id,
+        ingredient: ingredientData,
+      });
 
       setModalVisible(false);
       resetForm();
-      loadIngredients();
     } catch (error) {
       console.error('Failed to save ingredient:', error);
+
+      // Handle specific error codes
+      if (isUniqueViolation(error)) {
+        Alert.alert(
+          'Duplicate Ingredient',
+          'You already have this ingredient in your inventory. Please use a different name or edit the existing one.',
+          [
+            {
+              text: 'OK',
+              onPress: () => {
+                // Keep modal open for user to correct
+              },
+            },
+          ]
+        );
+        return;
+      }
+
       Alert.alert('Error', 'Failed to save ingredient');
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -190,18 +130,16 @@ export default function OnboardingIngredients() {
     openEditModal(ingredient);
   };
 
-  const handleDeleteIngredient = async (ingredientId: number) => {
-    console.log('Deleting ingredient:', ingredientId);
+  const handleDeleteIngredient = async (ingredient: Ingredient) => {
+    console.log('Deleting ingredient:', ingredient.id);
     Alert.alert('Delete Ingredient', 'Are you sure you want to delete this ingredient?', [
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Delete',
         onPress: async () => {
-          const { error } = await supabase.from('ingredients').delete().eq('id', ingredientId);
-          console.log('Delete ingredient result:', { error });
-          if (!error) {
-            setIngredients(ingredients.filter((ing) => ing.id !== ingredientId));
-          } else {
+          try {
+            await deleteIngredient.mutateAsync(ingredient);
+          } catch (error) {
             console.error('Delete error:', error);
           }
         },
@@ -209,36 +147,68 @@ export default function OnboardingIngredients() {
     ]);
   };
 
-  const renderIngredientCard = ({ item }: { item: Ingredient }) => (
-    <View className="mb-3 rounded-lg bg-white p-4 shadow-sm">
-      <View className="flex-row items-center justify-between">
-        <View className="flex-1">
-          <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-lg text-earth-800">
-            {item.name}
-          </Text>
-          <Text style={{ fontFamily: 'Nunito_400Regular' }} className="text-earth-600">
-            {item.quantity} {item.unit}
-          </Text>
-        </View>
-        <View className="flex-row space-x-2">
-          <TouchableOpacity
-            onPress={() => handleEditIngredient(item)}
-            className="rounded-lg bg-sage-500 px-3 py-1">
-            <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-cream-50">
-              Edit
+  const expiringSoon = findExpiringSoon(ingredients);
+
+  const renderIngredientCard = ({ item }: { item: Ingredient }) => {
+    const expiryStatus = getExpiryStatus(item);
+
+    return (
+      <View className="mb-3 rounded-lg bg-white p-4 shadow-sm">
+        <View className="flex-row items-center justify-between">
+          <View className="flex-1">
+            <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-lg text-earth-800">
+              {item.name}
             </Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            onPress={() => handleDeleteIngredient(item.id)}
-            className="bg-terracotta-500 rounded-lg px-3 py-1">
-            <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-cream-50">
-              Delete
+            <Text style={{ fontFamily: 'Nunito_400Regular' }} className="text-earth-600">
+              {item.quantity} {item.unit}
             </Text>
-          </TouchableOpacity>
+            {item.expires_on && (
+              <Text
+                style={{ fontFamily: 'Nunito_500Medium' }}
+                className={`text-sm ${
+                  expiryStatus === 'fresh' ? 'text-sage-700' : 'text-terracotta-700'
+                }`}>
+                {describeExpiry(item.expires_on)}
+              </Text>
+            )}
+            {item.opened_on && (
+              <Text style={{ fontFamily: 'Nunito_400Regular' }} className="text-sm text-earth-500">
+                {describeOpened(item.opened_on)}
+              </Text>
+            )}
+          </View>
+          <View className="flex-row space-x-2">
+            <TouchableOpacity
+              onPress={() =>
+                router.push({
+                  pathname: '/inventory-history',
+                  params: { ingredientId: item.id.toString(), name: item.name },
+                })
+              }
+              className="rounded-lg border border-earth-300 px-3 py-1">
+              <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-earth-700">
+                History
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleEditIngredient(item)}
+              className="rounded-lg bg-sage-500 px-3 py-1">
+              <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-cream-50">
+                Edit
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleDeleteIngredient(item)}
+              className="rounded-lg bg-terracotta-500 px-3 py-1">
+              <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-cream-50">
+                Delete
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
       </View>
-    </View>
-  );
+    );
+  };
 
   return (
     <Container>
@@ -260,6 +230,7 @@ export default function OnboardingIngredients() {
             You must enter at least three ingredients to continue. We assume you already have:
             water, salt, and sugar.
           </Text>
+          <SyncStatus />
         </View>
 
         <FlatList
@@ -267,6 +238,30 @@ export default function OnboardingIngredients() {
           renderItem={renderIngredientCard}
           keyExtractor={(item) => item.id.toString()}
           className="flex-1 px-6"
+          ListHeaderComponent={
+            expiringSoon.length > 0 ? (
+              <View className="mb-4 rounded-lg bg-earth-100 p-4">
+                <Text
+                  style={{ fontFamily: 'Nunito_700Bold' }}
+                  className="mb-2 text-lg text-earth-800">
+                  Expiring soon
+                </Text>
+                {expiringSoon.map((item) => (
+                  <Text
+                    key={item.id}
+                    style={{ fontFamily: 'Nunito_400Regular' }}
+                    className="text-earth-700">
+                    • {item.name}: {describeExpiry(item.expires_on!).toLowerCase()}
+                  </Text>
+                ))}
+                <Text
+                  style={{ fontFamily: 'Nunito_400Regular' }}
+                  className="mt-2 text-sm text-earth-600">
+                  New recipes will try to use these first.
+                </Text>
+              </View>
+            ) : null
+          }
           ListEmptyComponent={
             <View className="flex-1 items-center justify-center py-8">
               <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-earth-600">
@@ -326,7 +321,7 @@ export default function OnboardingIngredients() {
                 />
               </View>
 
-              <View className="mb-6">
+              <View className="mb-4">
                 <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
                   Unit
                 </Text>
@@ -350,6 +345,42 @@ export default function OnboardingIngredients() {
                 </View>
               </View>
 
+              <View className="mb-4">
+                <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
+                  Expires on (optional)
+                </Text>
+                <TextInput
+                  className="rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+                  value={formData.expires_on}
+                  onChangeText={(text) => setFormData({ ...formData, expires_on: text })}
+                  placeholder="YYYY-MM-DD"
+                  autoCapitalize="none"
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+
+              <View className="mb-6">
+                <View className="mb-2 flex-row items-center justify-between">
+                  <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-earth-700">
+                    Opened on (optional)
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => setFormData({ ...formData, opened_on: formatDate(new Date()) })}>
+                    <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-sage-600">
+                      Today
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                <TextInput
+                  className="rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+                  value={formData.opened_on}
+                  onChangeText={(text) => setFormData({ ...formData, opened_on: text })}
+                  placeholder="YYYY-MM-DD"
+                  autoCapitalize="none"
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+
               <View className="flex-row space-x-3">
                 <TouchableOpacity
                   onPress={() => {
@@ -1,10 +1,15 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
+import { AllergenWarning } from '~/components/AllergenWarning';
 import { Container } from '~/components/Container';
 
-import { supabase } from '~/utils/supabase';
-import { aiService, GeneratedRecipe } from '~/utils/ai';
+import { useAllergenMatches, useCompleteOnboarding, useSaveRecipe } from '~/hooks';
+import { findExpiringSoon } from '~/utils/expiry';
+import { inventoryRepo, preferencesRepo, toRecipePreferences } from '~/utils/repositories';
+import { aiService, GeneratedRecipe, getGenerationErrorMessage } from '~/utils/ai';
+import { useShallow } from 'zustand/react/shallow';
+import { DraftRecipe, selectBatchDrafts, useAppStore } from '~/store/store';
 
 interface RecipeCardProps {
   recipe: GeneratedRecipe;
@@ -14,6 +19,8 @@ interface RecipeCardProps {
 }
 
 function RecipeCard({ recipe, onView, onSave, loading }: RecipeCardProps) {
+  const allergenMatches = useAllergenMatches(recipe.ingredients);
+
   return (
     <View className="mb-4 rounded-xl bg-white p-6 shadow-sm">
       <Text style={{ fontFamily: 'Nunito_700Bold' }} className="mb-2 text-2xl text-earth-800">
@@ -41,6 +48,8 @@ function RecipeCard({ recipe, onView, onSave, loading }: RecipeCardProps) {
         </View>
       </View>
 
+      {allergenMatches.length > 0 && <AllergenWarning matches={allergenMatches} />}
+
       <View className="flex-row gap-3">
         <TouchableOpacity
           className="flex-1 rounded-lg border-2 border-earth-600 py-3"
@@ -69,9 +78,12 @@ function RecipeCard({ recipe, onView, onSave, loading }: RecipeCardProps) {
 }
 
 export default function RecipesScreen() {
-  const [recipes, setRecipes] = useState<GeneratedRecipe[]>([]);
+  const drafts = useAppStore(useShallow(selectBatchDrafts));
+  const setBatch = useAppStore((state) => state.setBatch);
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState<string | null>(null);
+  const saveRecipe = useSaveRecipe();
+  const completeOnboarding = useCompleteOnboarding();
+  const saving = saveRecipe.isPending ? saveRecipe.variables.title : null;
   const router = useRouter();
   const hasGeneratedRef = useRef(false);
 
@@ -80,82 +92,52 @@ export default function RecipesScreen() {
       console.log('🚀 Starting onboarding recipe generation...');
       setLoading(true);
 
-      // Get user data
-      console.log('👤 Getting user data...');
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) {
-        console.error('❌ No user found when generating onboarding recipes');
-        throw new Error('No user found');
-      }
-      console.log('✅ User found:', user.id);
-
       // Get user's ingredients
       console.log('🥕 Getting user ingredients...');
-      const { data: ingredients, error: ingredientsError } = await supabase.from('ingredients').select('name');
-      
-      if (ingredientsError) {
-        console.error('❌ Error fetching ingredients:', ingredientsError);
-        throw new Error('Failed to fetch ingredients');
-      }
-      console.log('✅ Ingredients found:', ingredients?.length || 0, 'items');
+      const ingredients = await inventoryRepo.listIngredients();
+      console.log('✅ Ingredients found:', ingredients.length, 'items');
 
       // Get user's utensils
       console.log('🔧 Getting user utensils...');
-      const { data: utensils, error: utensilsError } = await supabase.from('utensils').select('name');
-      
-      if (utensilsError) {
-        console.error('❌ Error fetching utensils:', utensilsError);
-        throw new Error('Failed to fetch utensils');
-      }
-      console.log('✅ Utensils found:', utensils?.length || 0, 'items');
+      const utensils = await inventoryRepo.listUtensils();
+      console.log('✅ Utensils found:', utensils.length, 'items');
 
       // Get user preferences
       console.log('⚙️ Getting user preferences...');
-      const { data: preferences, error: preferencesError } = await supabase.from('user_preferences').select('*').single();
-      
-      if (preferencesError) {
-        console.error('❌ Error fetching preferences:', preferencesError);
-        throw new Error('Failed to fetch preferences');
-      }
-      console.log('✅ Preferences found:', preferences);
-
-      if (!ingredients || !utensils || !preferences) {
-        console.error('❌ Missing user data - ingredients, utensils, or preferences not found');
+      const preferences = await preferencesRepo.get();
+      if (!preferences) {
+        console.error('❌ Missing user data - preferences not found');
         throw new Error('Missing user data');
       }
+      console.log('✅ Preferences found:', preferences);
 
       const ingredientNames = ingredients.map((i) => i.name);
       const utensilNames = utensils.map((u) => u.name);
-      
+      const expiringNames = findExpiringSoon(ingredients).map((i) => i.name);
+
       console.log('📤 Sending to AI service (onboarding):');
       console.log('   - Ingredients:', ingredientNames);
       console.log('   - Utensils:', utensilNames);
+      console.log('   - Expiring soon:', expiringNames);
       console.log('   - Preferences:', preferences);
 
       const generatedRecipes = await aiService.generateRecipes(
         ingredientNames,
         utensilNames,
-        {
-          diet: preferences.diet || undefined,
-          tastes: preferences.tastes || undefined,
-          preferred_difficulty: preferences.preferred_difficulty || undefined,
-          preferred_time_minutes: preferences.preferred_time_minutes || undefined,
-          preferred_portions: preferences.preferred_portions || undefined,
-        }
+        toRecipePreferences(preferences),
+        expiringNames
       );
 
       console.log('✅ Generated onboarding recipes received:', generatedRecipes.length, 'recipes');
-      setRecipes(generatedRecipes);
+      setBatch(generatedRecipes, ingredientNames, preferences.allergies);
     } catch (error) {
       console.error('❌ Error generating onboarding recipes:', error);
-      Alert.alert('Error', 'Failed to generate recipes. Please try again.');
+      Alert.alert('Error', getGenerationErrorMessage(error));
       router.back();
     } finally {
       setLoading(false);
     }
-  }, [router]);
+  }, [router, setBatch]);
 
   useEffect(() => {
     if (!hasGeneratedRef.current) {
@@ -164,44 +146,19 @@ export default function RecipesScreen() {
     }
   }, [generateRecipes]);
 
-  const handleViewRecipe = (recipe: GeneratedRecipe) => {
+  const handleViewRecipe = (draft: DraftRecipe) => {
     // Navigate to recipe detail view
-    router.push({
-      pathname: '/recipe-detail',
-      params: { recipe: JSON.stringify(recipe) },
-    });
+    router.push({ pathname: '/recipes/draft/[id]', params: { id: draft.id } });
   };
 
   const handleSaveRecipe = async (recipe: GeneratedRecipe) => {
     try {
-      setSaving(recipe.title);
-
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('No user found');
-
-      // Parse time to get prep and cook times (simplified)
-      const timeInMinutes = parseInt(recipe.time) || 30;
-      const prepTime = Math.floor(timeInMinutes * 0.3);
-      const cookTime = Math.floor(timeInMinutes * 0.7);
-
-      const { error } = await supabase.from('recipes').insert({
-        user_id: user.id,
-        title: recipe.title,
-        description: recipe.description,
-        ingredients: recipe.ingredients,
-        instructions: recipe.instructions,
-        prep_time_minutes: prepTime,
-        cook_time_minutes: cookTime,
-        servings: recipe.servings,
-        is_used: false,
-      });
-
-      if (error) throw error;
+      await saveRecipe.mutateAsync(recipe);
 
       // Mark onboarding as complete
-      await supabase.from('profiles').update({ onboarding_complete: true }).eq('id', user.id);
+      await completeOnboarding
+        .mutateAsync()
+        .catch((error) => console.error('Error completing onboarding:', error));
 
       Alert.alert('Success', 'Recipe saved successfully!', [
         {
@@ -212,8 +169,6 @@ export default function RecipesScreen() {
     } catch (error) {
       console.error('Error saving recipe:', error);
       Alert.alert('Error', 'Failed to save recipe. Please try again.');
-    } finally {
-      setSaving(null);
     }
   };
 
@@ -251,13 +206,13 @@ export default function RecipesScreen() {
             Based on your ingredients and preferences
           </Text>
 
-          {recipes.map((recipe, index) => (
+          {drafts.map((draft) => (
             <RecipeCard
-              key={index}
-              recipe={recipe}
-              onView={() => handleViewRecipe(recipe)}
-              onSave={() => handleSaveRecipe(recipe)}
-              loading={saving === recipe.title}
+              key={draft.id}
+              recipe={draft.recipe}
+              onView={() => handleViewRecipe(draft)}
+              onSave={() => handleSaveRecipe(draft.recipe)}
+              loading={saving === draft.recipe.title}
             />
           ))}
         </ScrollView>
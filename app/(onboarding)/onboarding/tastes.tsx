@@ -0,0 +1,96 @@
+import { View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { useState, useEffect } from 'react';
+import { Container } from '~/components/Container';
+import { PreferencesEditor } from '~/components/PreferencesEditor';
+import { usePreferences, useSavePreferences } from '~/hooks';
+import { DEFAULT_PREFERENCES, UserPreferences } from '~/utils/repositories';
+
+export default function OnboardingTastes() {
+  const router = useRouter();
+  const { data: saved, error } = usePreferences();
+  const savePreferences = useSavePreferences();
+  const loading = savePreferences.isPending;
+  const [preferences, setPreferences] = useState<UserPreferences>({
+    ...DEFAULT_PREFERENCES,
+    preferred_time_minutes: 30,
+    preferred_portions: 2,
+  });
+
+  // Start from the saved preferences once they load
+  useEffect(() => {
+    if (saved) {
+      setPreferences({
+        ...saved,
+        preferred_time_minutes: saved.preferred_time_minutes || 30,
+        preferred_portions: saved.preferred_portions || 2,
+      });
+    }
+  }, [saved]);
+
+  useEffect(() => {
+    if (error) console.error('Failed to load preferences:', error);
+  }, [error]);
+
+  const isFormValid = () => {
+    return (
+      preferences.diets.length > 0 &&
+      preferences.tastes.length > 0 &&
+      preferences.preferred_difficulty
+    );
+  };
+
+  const handleComplete = async () => {
+    if (!isFormValid()) {
+      Alert.alert('Error', 'Please fill in all required fields');
+      return;
+    }
+
+    try {
+      // Save preferences
+      await savePreferences.mutateAsync(preferences);
+
+      // Navigate to recipe generation
+      router.push('/onboarding/recipes');
+    } catch {
+      Alert.alert('Error', 'Failed to save preferences');
+    }
+  };
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title: 'Tastes', headerShown: false }} />
+      <View className="flex-1 bg-cream-50">
+        <View className="mb-8 flex-row items-center px-6 pb-4 pt-12">
+          <TouchableOpacity onPress={() => router.back()} className="mr-4">
+            <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-2xl text-earth-600">
+              ←
+            </Text>
+          </TouchableOpacity>
+          <Text style={{ fontFamily: 'Nunito_700Bold' }} className="text-2xl text-earth-800">
+            Preferences
+          </Text>
+        </View>
+
+        <ScrollView className="flex-1 px-6" keyboardShouldPersistTaps="handled">
+          <View className="mb-20">
+            <PreferencesEditor preferences={preferences} onChange={setPreferences} />
+          </View>
+        </ScrollView>
+
+        <View className="px-6 pb-8">
+          <TouchableOpacity
+            onPress={handleComplete}
+            disabled={!isFormValid() || loading}
+            className={`rounded-lg py-4 ${isFormValid() ? 'bg-earth-600' : 'bg-gray-400'}`}>
+            <Text
+              style={{ fontFamily: 'Nunito_600SemiBold' }}
+              className={`text-center text-lg ${isFormValid() ? 'text-cream-50' : 'text-gray-200'}`}>
+              {loading ? 'Saving...' : 'Complete Setup'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Container>
+  );
+}
@@ -1,60 +1,29 @@
 import { View, Text, TouchableOpacity, FlatList, Alert, Modal, TextInput } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { useState, useEffect } from 'react';
-import { supabase } from '~/utils/supabase';
 import { Container } from '~/components/Container';
-
-interface Utensil {
-  id: number;
-  name: string;
-}
+import { useDeleteUtensil, useSaveUtensil, useUtensils } from '~/hooks';
+import { Utensil } from '~/utils/repositories';
 
 export default function OnboardingUtensils() {
   const router = useRouter();
-  const [utensils, setUtensils] = useState<Utensil[]>([]);
+  const { data: utensils = [], error } = useUtensils();
+  const saveUtensil = useSaveUtensil();
+  const deleteUtensil = useDeleteUtensil();
   const [modalVisible, setModalVisible] = useState(false);
   const [editingUtensil, setEditingUtensil] = useState<Utensil | null>(null);
   const [formData, setFormData] = useState({
     name: '',
   });
-  const [loading, setLoading] = useState(false);
+  const loading = saveUtensil.isPending;
 
   useEffect(() => {
-    loadUtensils();
-  }, []);
-
-  const loadUtensils = async () => {
-    console.log('Loading utensils...');
-    try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) {
-        console.log('No authenticated user found, clearing utensils');
-        setUtensils([]);
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from('utensils')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      console.log('Load utensils result:', { data, error });
-      if (data && !error) {
-        setUtensils(data);
-      }
-    } catch (error) {
-      console.error('Error loading utensils:', error);
-      setUtensils([]);
-    }
-  };
+    if (error) console.error('Error loading utensils:', error);
+  }, [error]);
 
   const resetForm = () => {
     setFormData({ name: '' });
     setEditingUtensil(null);
-    setLoading(false);
   };
 
   const openAddModal = () => {
@@ -76,50 +45,17 @@ export default function OnboardingUtensils() {
       return;
     }
 
-    setLoading(true);
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error('No authenticated user found');
-      }
-
-      const utensilData = {
-        name: formData.name.trim(),
-        user_id: user.id,
-      };
-
-      console.log('Saving utensil:', utensilData);
-
-      let result;
-      if (editingUtensil) {
-        console.log('Updating existing utensil:', editingUtensil.id);
-        result = await supabase
-          .from('utensils')
-          .update(utensilData)
-          .eq('id', editingUtensil.id)
-          .select();
-      } else {
-        console.log('Creating new utensil');
-        result = await supabase.from('utensils').insert(utensilData).select();
-      }
-
-      console.log('Save utensil result:', result);
+      const name = formData.name.trim();
+      console.log('Saving utensil:', name);
 
-      if (result.error) {
-        console.error('Supabase error:', result.error);
-        throw result.error;
-      }
+      await saveUtensil.mutateAsync({ id: editingUtensil?.id, name });
 
       setModalVisible(false);
       resetForm();
-      loadUtensils();
     } catch (error) {
       console.error('Failed to save utensil:', error);
       Alert.alert('Error', 'Failed to save utensil');
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -131,18 +67,16 @@ export default function OnboardingUtensils() {
     openEditModal(utensil);
   };
 
-  const handleDeleteUtensil = async (utensilId: number) => {
-    console.log('Deleting utensil:', utensilId);
+  const handleDeleteUtensil = async (utensil: Utensil) => {
+    console.log('Deleting utensil:', utensil.id);
     Alert.alert('Delete Utensil', 'Are you sure you want to delete this utensil?', [
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Delete',
         onPress: async () => {
-          const { error } = await supabase.from('utensils').delete().eq('id', utensilId);
-          console.log('Delete utensil result:', { error });
-          if (!error) {
-            setUtensils(utensils.filter((ut) => ut.id !== utensilId));
-          } else {
+          try {
+            await deleteUtensil.mutateAsync(utensil);
+          } catch (error) {
             console.error('Delete error:', error);
           }
         },
@@ -167,8 +101,8 @@ export default function OnboardingUtensils() {
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
-            onPress={() => handleDeleteUtensil(item.id)}
-            className="bg-terracotta-500 rounded-lg px-3 py-1">
+            onPress={() => handleDeleteUtensil(item)}
+            className="rounded-lg bg-terracotta-500 px-3 py-1">
             <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-cream-50">
               Delete
             </Text>
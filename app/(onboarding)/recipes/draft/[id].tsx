@@ -1,47 +1,66 @@
 import { useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { Stack, useRouter, useLocalSearchParams } from 'expo-router';
+import { AllergenGate, AllergenWarning } from '~/components/AllergenWarning';
 import { Container } from '~/components/Container';
 import { Button } from '~/components/Button';
-import { supabase } from '~/utils/supabase';
-import { GeneratedRecipe } from '~/utils/ai';
+import { useAllergenMatches, useCompleteOnboarding, useSaveRecipe } from '~/hooks';
+import { selectDraft, useAppStore, useFormatQuantity } from '~/store/store';
 
 export default function RecipeDetailScreen() {
-  const [saving, setSaving] = useState(false);
+  const saveRecipe = useSaveRecipe();
+  const completeOnboarding = useCompleteOnboarding();
   const router = useRouter();
-  const params = useLocalSearchParams();
-  const recipe: GeneratedRecipe = JSON.parse(params.recipe as string);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const draft = useAppStore(selectDraft(id));
+  const recipe = draft?.recipe;
+  const formatQuantity = useFormatQuantity();
+  const allergenMatches = useAllergenMatches(recipe?.ingredients ?? [], draft?.allergies);
+  const [showAnyway, setShowAnyway] = useState(false);
 
-  const handleSaveRecipe = async () => {
-    try {
-      setSaving(true);
-
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error('No user found');
-
-      // Parse time to get prep and cook times (simplified)
-      const timeInMinutes = parseInt(recipe.time) || 30;
-      const prepTime = Math.floor(timeInMinutes * 0.3);
-      const cookTime = Math.floor(timeInMinutes * 0.7);
+  if (!recipe) {
+    return (
+      <Container>
+        <View className="flex-1 items-center justify-center bg-cream-50 px-6">
+          <Stack.Screen options={{ title: 'Recipe', headerShown: false }} />
+          <Text
+            style={{ fontFamily: 'Nunito_500Medium' }}
+            className="mb-6 text-center text-earth-600">
+            This recipe is no longer available. Generate a new batch to see more.
+          </Text>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="rounded-lg bg-sage-600 px-8 py-4">
+            <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-lg text-cream-50">
+              Back
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </Container>
+    );
+  }
 
-      const { error } = await supabase.from('recipes').insert({
-        user_id: user.id,
-        title: recipe.title,
-        description: recipe.description,
-        ingredients: recipe.ingredients,
-        instructions: recipe.instructions,
-        prep_time_minutes: prepTime,
-        cook_time_minutes: cookTime,
-        servings: recipe.servings,
-        is_used: false,
-      });
+  if (allergenMatches.length > 0 && !showAnyway) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: recipe.title, headerShown: false }} />
+        <AllergenGate
+          matches={allergenMatches}
+          onBack={() => router.back()}
+          onShowAnyway={() => setShowAnyway(true)}
+        />
+      </Container>
+    );
+  }
 
-      if (error) throw error;
+  const handleSaveRecipe = async () => {
+    try {
+      await saveRecipe.mutateAsync(recipe);
 
       // Mark onboarding as complete
-      await supabase.from('profiles').update({ onboarding_complete: true }).eq('id', user.id);
+      await completeOnboarding
+        .mutateAsync()
+        .catch((error) => console.error('Error completing onboarding:', error));
 
       Alert.alert('Success', 'Recipe saved successfully!', [
         {
@@ -52,8 +71,6 @@ export default function RecipeDetailScreen() {
     } catch (error) {
       console.error('Error saving recipe:', error);
       Alert.alert('Error', 'Failed to save recipe. Please try again.');
-    } finally {
-      setSaving(false);
     }
   };
 
@@ -63,6 +80,7 @@ export default function RecipeDetailScreen() {
         <Stack.Screen options={{ title: recipe.title, headerShown: false }} />
 
         <ScrollView className="flex-grow px-6 pt-12" contentContainerStyle={{ paddingBottom: 100 }}>
+          {allergenMatches.length > 0 && <AllergenWarning matches={allergenMatches} />}
           <Text style={{ fontFamily: 'Nunito_700Bold' }} className="mb-4 text-3xl text-earth-800">
             {recipe.title}
           </Text>
@@ -104,7 +122,7 @@ export default function RecipeDetailScreen() {
                 <View key={index} className="flex-row items-center">
                   <Text className="mr-2 text-earth-600">•</Text>
                   <Text style={{ fontFamily: 'Nunito_400Regular' }} className="text-earth-700">
-                    {ingredient.quantity} {ingredient.name}
+                    {formatQuantity(ingredient)} {ingredient.name}
                   </Text>
                 </View>
               ))}
@@ -141,14 +159,12 @@ export default function RecipeDetailScreen() {
         <View className="px-6 pb-8">
           <TouchableOpacity
             onPress={handleSaveRecipe}
-            disabled={saving}
-            className={`mb-4 flex-1 rounded-lg py-4 ${
-              saving ? 'bg-gray-400' : 'bg-earth-600'
-            }`}>
+            disabled={saveRecipe.isPending}
+            className={`mb-4 flex-1 rounded-lg py-4 ${saveRecipe.isPending ? 'bg-gray-400' : 'bg-earth-600'}`}>
             <Text
               style={{ fontFamily: 'Nunito_600SemiBold' }}
               className="text-center text-lg text-cream-50">
-              {saving ? 'Saving...' : 'Save Recipe'}
+              {saveRecipe.isPending ? 'Saving...' : 'Save Recipe'}
             </Text>
           </TouchableOpacity>
 
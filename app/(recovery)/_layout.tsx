@@ -0,0 +1,6 @@
+import { GuardedStack } from '~/components/GuardedStack';
+
+// Reached only from a password reset link, until the new password is saved
+export default function RecoveryLayout() {
+  return <GuardedStack allow={['passwordRecovery']} />;
+}
@@ -0,0 +1,111 @@
+import { View, Text, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { Stack } from 'expo-router';
+import { useState, useRef } from 'react';
+import { supabase } from '~/utils/supabase';
+import { useAuth } from '~/context/SupabaseContext';
+import { Container } from '~/components/Container';
+
+export default function ResetPassword() {
+  const { endPasswordRecovery } = useAuth();
+  const confirmPasswordInputRef = useRef<TextInput>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSave = async () => {
+    if (!password || !confirmPassword) {
+      Alert.alert('Error', 'Please fill in all fields');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    if (password.length < 6) {
+      Alert.alert('Error', 'Password must be at least 6 characters');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        Alert.alert('Error', error.message);
+      } else {
+        // The (recovery) layout then sends the user on into the app
+        Alert.alert('Password Updated', 'Your new password is saved.');
+        endPasswordRecovery();
+      }
+    } catch {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title: 'Reset Password', headerShown: false }} />
+      <View className="flex-1 bg-cream-50">
+        <View className="mb-8 px-6 pb-4 pt-12">
+          <Text style={{ fontFamily: 'Nunito_700Bold' }} className="text-2xl text-earth-800">
+            Choose a New Password
+          </Text>
+        </View>
+
+        <View className="mb-6 px-6">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
+            New Password
+          </Text>
+          <TextInput
+            blurOnSubmit={false}
+            className="rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Enter a new password"
+            secureTextEntry
+            returnKeyType="next"
+            onSubmitEditing={() => confirmPasswordInputRef.current?.focus()}
+          />
+        </View>
+
+        <View className="mb-8 px-6">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mb-2 text-earth-700">
+            Confirm Password
+          </Text>
+          <TextInput
+            ref={confirmPasswordInputRef}
+            blurOnSubmit={false}
+            className="rounded-lg border border-sage-300 bg-white px-4 py-3 font-sans"
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            placeholder="Confirm your new password"
+            secureTextEntry
+            returnKeyType="done"
+            onSubmitEditing={handleSave}
+          />
+        </View>
+
+        <TouchableOpacity
+          className="mx-6 mb-4 rounded-lg bg-earth-600 py-4"
+          onPress={handleSave}
+          disabled={loading}>
+          <Text
+            style={{ fontFamily: 'Nunito_600SemiBold' }}
+            className="text-center text-lg text-cream-50">
+            {loading ? 'Saving...' : 'Save Password'}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity onPress={() => supabase.auth.signOut()} className="px-6">
+          <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-center text-earth-600">
+            Cancel and sign out
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </Container>
+  );
+}
@@ -1,6 +1,10 @@
 import '../global.css';
 import { Stack, SplashScreen } from 'expo-router';
 import { SupabaseProvider } from '~/context/SupabaseContext';
+import { useOfflineSync } from '~/hooks';
+import { isNetworkError } from '~/utils/repositories';
+import { markOffline } from '~/utils/offline';
+import { useAppStoreHydrated } from '~/store/store';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { useFonts } from 'expo-font';
 import {
@@ -11,7 +15,21 @@ import {
 } from '@expo-google-fonts/nunito';
 import { useEffect } from 'react';
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // A failed request is how the app notices it's offline; the retry then waits
+      // for the connection to come back instead of failing
+      retry: (failureCount, error) => {
+        if (isNetworkError(error)) markOffline();
+        return failureCount < 3;
+      },
+    },
+    // Edits queue themselves when offline, and the rest should fail straight away
+    // rather than hang until the connection returns
+    mutations: { networkMode: 'always' },
+  },
+});
 
 export default function RootLayout() {
   const [fontsLoaded] = useFonts({
@@ -20,38 +38,29 @@ export default function RootLayout() {
     Nunito_600SemiBold,
     Nunito_700Bold,
   });
+  const restored = useOfflineSync(queryClient);
+  const storeHydrated = useAppStoreHydrated();
+  const ready = fontsLoaded && restored && storeHydrated;
 
   useEffect(() => {
-    if (fontsLoaded) {
+    if (ready) {
       SplashScreen.hideAsync();
     }
-  }, [fontsLoaded]);
+  }, [ready]);
 
-  if (!fontsLoaded) {
+  if (!ready) {
     return null;
   }
 
   return (
     <QueryClientProvider client={queryClient}>
       <SupabaseProvider>
-        <Stack>
-          <Stack.Screen name="index" options={{ headerShown: false }} />
-          <Stack.Screen name="login" options={{ headerShown: false }} />
-          <Stack.Screen name="register" options={{ headerShown: false }} />
-          <Stack.Screen name="dashboard" options={{ headerShown: false }} />
-          <Stack.Screen name="debug" options={{ headerShown: false }} />
-          <Stack.Screen name="details" options={{ headerShown: false }} />
-
-          {/* Onboarding screens */}
-          <Stack.Screen name="onboarding/ingredients" options={{ headerShown: false }} />
-          <Stack.Screen name="onboarding/tastes" options={{ headerShown: false }} />
-          <Stack.Screen name="onboarding/utensils" options={{ headerShown: false }} />
-          <Stack.Screen name="onboarding/recipes" options={{ headerShown: false }} />
-
-          {/* Recipe screens */}
-          <Stack.Screen name="recipe-detail" options={{ headerShown: false }} />
-          <Stack.Screen name="saved-recipe-detail" options={{ headerShown: false }} />
-          <Stack.Screen name="create-recipe" options={{ headerShown: false }} />
+        {/* Each group's layout redirects users who don't belong there */}
+        <Stack screenOptions={{ headerShown: false }}>
+          <Stack.Screen name="(auth)" />
+          <Stack.Screen name="(recovery)" />
+          <Stack.Screen name="(onboarding)" />
+          <Stack.Screen name="(app)" />
         </Stack>
       </SupabaseProvider>
     </QueryClientProvider>
@@ -0,0 +1,64 @@
+import { Text, TouchableOpacity, View } from 'react-native';
+
+import { AllergySeverity } from '~/utils/ai';
+import { AllergenMatch, describeAllergenMatch } from '~/utils/allergens';
+
+const SEVERITY_ORDER: AllergySeverity[] = ['severe', 'moderate', 'mild'];
+
+/** The allergens a recipe contains, most severe first. */
+export function AllergenWarning({ matches }: { matches: AllergenMatch[] }) {
+  const sorted = [...matches].sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.allergy.severity) - SEVERITY_ORDER.indexOf(b.allergy.severity)
+  );
+
+  return (
+    <View className="mb-6 rounded-xl border-2 border-red-600 bg-white p-4">
+      <Text style={{ fontFamily: 'Nunito_700Bold' }} className="mb-2 text-lg text-red-600">
+        ⚠️ Contains your allergens
+      </Text>
+      {sorted.map((match, index) => (
+        <Text
+          key={index}
+          style={{ fontFamily: 'Nunito_500Medium' }}
+          className="mb-1 text-earth-800">
+          • {describeAllergenMatch(match)} ({match.allergy.severity})
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+interface AllergenGateProps {
+  matches: AllergenMatch[];
+  onBack: () => void;
+  onShowAnyway: () => void;
+}
+
+/** Stands in for a recipe with allergens until the user chooses to see it anyway. */
+export function AllergenGate({ matches, onBack, onShowAnyway }: AllergenGateProps) {
+  return (
+    <View className="flex-1 justify-center bg-cream-50 px-6">
+      <AllergenWarning matches={matches} />
+      <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-6 text-earth-600">
+        This recipe isn&apos;t safe for you as written. Check every ingredient before cooking it, or
+        go back and pick another recipe.
+      </Text>
+
+      <TouchableOpacity onPress={onBack} className="mb-4 rounded-lg bg-earth-600 py-4">
+        <Text
+          style={{ fontFamily: 'Nunito_600SemiBold' }}
+          className="text-center text-lg text-cream-50">
+          Go Back
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onShowAnyway} className="rounded-lg border-2 border-red-600 py-4">
+        <Text
+          style={{ fontFamily: 'Nunito_600SemiBold' }}
+          className="text-center text-lg text-red-600">
+          Show Recipe Anyway
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
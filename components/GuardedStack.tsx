@@ -0,0 +1,72 @@
+import { Href, Redirect, Stack } from 'expo-router';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+
+import { AuthStatus, useAuthStatus } from '~/context/SupabaseContext';
+import { useProfile } from '~/hooks';
+import { supabase } from '~/utils/supabase';
+
+// Where each kind of user belongs when they land on a screen that isn't for them
+const HOME_ROUTES: Record<Exclude<AuthStatus, 'loading' | 'profileError'>, Href> = {
+  signedOut: '/',
+  passwordRecovery: '/reset-password',
+  onboarding: '/onboarding/ingredients',
+  ready: '/dashboard',
+};
+
+// Shown instead of guessing where the user belongs when their profile didn't load
+function ProfileError() {
+  const { refetch, isFetching } = useProfile();
+
+  return (
+    <View className="flex-1 items-center justify-center bg-cream-50 px-6">
+      <Text
+        style={{ fontFamily: 'Nunito_600SemiBold' }}
+        className="mb-2 text-center text-xl text-earth-800">
+        Couldn&apos;t load your profile
+      </Text>
+      <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-6 text-center text-earth-600">
+        Check your connection and try again.
+      </Text>
+      <TouchableOpacity
+        className="mb-4 w-full rounded-lg bg-earth-600 py-4"
+        onPress={() => refetch()}
+        disabled={isFetching}>
+        <Text
+          style={{ fontFamily: 'Nunito_600SemiBold' }}
+          className="text-center text-lg text-cream-50">
+          {isFetching ? 'Retrying...' : 'Try Again'}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => supabase.auth.signOut()}>
+        <Text style={{ fontFamily: 'Nunito_500Medium' }} className="text-center text-earth-600">
+          Sign out
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+/**
+ * The Stack for a route group, shown only to users whose status is in `allow`. Anyone
+ * else is redirected to their home route, so signing in or out, finishing onboarding or
+ * the session expiring moves the user to the right group without screens navigating.
+ */
+export function GuardedStack({ allow }: { allow: AuthStatus[] }) {
+  const status = useAuthStatus();
+
+  if (status === 'loading') {
+    return (
+      <View className="flex-1 items-center justify-center bg-cream-50">
+        <ActivityIndicator size="large" color="#8B4513" />
+      </View>
+    );
+  }
+
+  if (status === 'profileError') return <ProfileError />;
+
+  if (!allow.includes(status)) {
+    return <Redirect href={HOME_ROUTES[status]} />;
+  }
+
+  return <Stack screenOptions={{ headerShown: false }} />;
+}
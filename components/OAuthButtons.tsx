@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+import { OAuthProvider, signInWithProvider } from '~/utils/authLinks';
+
+const PROVIDERS: { provider: OAuthProvider; label: string }[] = [
+  { provider: 'google', label: 'Continue with Google' },
+  { provider: 'apple', label: 'Continue with Apple' },
+];
+
+/**
+ * Sign in or sign up with Google or Apple. New accounts take their name and avatar
+ * from the provider; the (auth) layout moves the user on once signed in.
+ */
+export function OAuthButtons() {
+  const [pending, setPending] = useState<OAuthProvider | null>(null);
+
+  const handlePress = async (provider: OAuthProvider) => {
+    setPending(provider);
+    try {
+      await signInWithProvider(provider);
+    } catch (error) {
+      Alert.alert(
+        'Sign In Failed',
+        error instanceof Error ? error.message : 'An unexpected error occurred'
+      );
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <View className="mb-6 px-6">
+      <View className="mb-4 flex-row items-center">
+        <View className="h-px flex-1 bg-sage-300" />
+        <Text style={{ fontFamily: 'Nunito_500Medium' }} className="mx-3 text-earth-500">
+          or
+        </Text>
+        <View className="h-px flex-1 bg-sage-300" />
+      </View>
+
+      {PROVIDERS.map(({ provider, label }) => (
+        <TouchableOpacity
+          key={provider}
+          className="mb-3 rounded-lg border border-sage-300 bg-white py-4"
+          onPress={() => handlePress(provider)}
+          disabled={pending !== null}>
+          <Text
+            style={{ fontFamily: 'Nunito_600SemiBold' }}
+            className="text-center text-lg text-earth-700">
+            {pending === provider ? 'Opening...' : label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from 'react';
+import { Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { AllergySeverity } from '~/utils/ai';
+import { MAJOR_ALLERGENS } from '~/utils/allergens';
+import { Difficulty, UserPreferences } from '~/utils/repositories';
+
+const DIET_OPTIONS = [
+  'Vegan',
+  'Vegetarian',
+  'Pescatarian',
+  'Gluten-Free',
+  'Dairy-Free',
+  'Keto',
+  'Paleo',
+];
+const TASTE_OPTIONS = [
+  'Italian',
+  'Mexican',
+  'Asian',
+  'Mediterranean',
+  'Indian',
+  'American',
+  'French',
+  'Thai',
+];
+const SEVERITY_OPTIONS: { severity: AllergySeverity; label: string }[] = [
+  { severity: 'mild', label: 'Mild' },
+  { severity: 'moderate', label: 'Moderate' },
+  { severity: 'severe', label: 'Severe' },
+];
+const DIFFICULTY_OPTIONS: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+const TIME_OPTIONS = [15, 30, 45, 60, 90, 120];
+const PORTION_OPTIONS = [1, 2, 4, 6, 8];
+
+function SectionTitle({ children }: { children: string }) {
+  return (
+    <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="mb-3 text-lg text-earth-800">
+      {children}
+    </Text>
+  );
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  /** Shows a × that removes a custom entry. */
+  onRemove?: () => void;
+}
+
+function Chip({ label, selected, onPress, onRemove }: ChipProps) {
+  const textColor = selected ? 'text-cream-50' : 'text-earth-700';
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      className={`flex-row items-center rounded-full border-2 px-4 py-2 ${
+        selected ? 'border-earth-600 bg-earth-600' : 'border-earth-300 bg-cream-50'
+      }`}>
+      <Text style={{ fontFamily: 'Nunito_500Medium' }} className={textColor}>
+        {label}
+      </Text>
+      {onRemove && (
+        <TouchableOpacity
+          onPress={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="ml-2 h-5 w-5 items-center justify-center">
+          <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className={textColor}>
+            ×
+          </Text>
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+interface CustomEntryProps {
+  placeholder: string;
+  onAdd: (value: string) => void;
+}
+
+function CustomEntry({ placeholder, onAdd }: CustomEntryProps) {
+  const [value, setValue] = useState('');
+
+  const add = () => {
+    if (!value.trim()) return;
+    onAdd(value.trim());
+    setValue('');
+  };
+
+  return (
+    <View className="mt-3 flex-row space-x-2">
+      <TextInput
+        className="flex-1 rounded-lg border border-earth-300 bg-cream-50 px-4 py-2 font-sans"
+        value={value}
+        onChangeText={setValue}
+        placeholder={placeholder}
+        placeholderTextColor="#9ca3af"
+        onSubmitEditing={add}
+      />
+      <TouchableOpacity
+        onPress={add}
+        disabled={!value.trim()}
+        className={`rounded-lg px-4 py-2 ${value.trim() ? 'bg-earth-600' : 'bg-gray-400'}`}>
+        <Text
+          style={{ fontFamily: 'Nunito_600SemiBold' }}
+          className={`${value.trim() ? 'text-cream-50' : 'text-gray-200'}`}>
+          Save
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+interface MultiSelectProps {
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  customPlaceholder: string;
+}
+
+// Entries typed in that aren't among the options are listed after them, removable
+function MultiSelect({ options, selected, onChange, customPlaceholder }: MultiSelectProps) {
+  const isSelected = (value: string) =>
+    selected.some((item) => item.toLowerCase() === value.toLowerCase());
+
+  const toggle = (value: string) =>
+    onChange(
+      isSelected(value)
+        ? selected.filter((item) => item.toLowerCase() !== value.toLowerCase())
+        : [...selected, value]
+    );
+
+  return (
+    <>
+      <View className="flex-row flex-wrap gap-2">
+        {options.map((option) => (
+          <Chip
+            key={option}
+            label={option}
+            selected={isSelected(option)}
+            onPress={() => toggle(option)}
+          />
+        ))}
+        {selected
+          .filter((item) => !options.some((option) => option.toLowerCase() === item.toLowerCase()))
+          .map((item) => (
+            <Chip
+              key={`custom-${item}`}
+              label={item}
+              selected
+              onPress={() => toggle(item)}
+              onRemove={() => toggle(item)}
+            />
+          ))}
+      </View>
+      <CustomEntry
+        placeholder={customPlaceholder}
+        onAdd={(value) => {
+          if (!isSelected(value)) onChange([...selected, value]);
+        }}
+      />
+    </>
+  );
+}
+
+interface PreferencesEditorProps {
+  preferences: UserPreferences;
+  onChange: (preferences: UserPreferences) => void;
+}
+
+/**
+ * Edits every generation preference: diets, allergies with their severity, cuisines,
+ * difficulty, time and portions. Tapping a selected difficulty, time or portion clears it.
+ */
+export function PreferencesEditor({ preferences, onChange }: PreferencesEditorProps) {
+  const update = (changes: Partial<UserPreferences>) => onChange({ ...preferences, ...changes });
+
+  const allergens = preferences.allergies.map((allergy) => allergy.allergen);
+
+  const setAllergens = (selected: string[]) =>
+    update({
+      allergies: selected.map(
+        (allergen) =>
+          preferences.allergies.find((allergy) => allergy.allergen === allergen) ?? {
+            allergen,
+            // The safe default; the user can lower it
+            severity: 'severe',
+          }
+      ),
+    });
+
+  const setSeverity = (allergen: string, severity: AllergySeverity) =>
+    update({
+      allergies: preferences.allergies.map((allergy) =>
+        allergy.allergen === allergen ? { ...allergy, severity } : allergy
+      ),
+    });
+
+  return (
+    <View>
+      <View className="mb-6">
+        <SectionTitle>Diet</SectionTitle>
+        <MultiSelect
+          options={DIET_OPTIONS}
+          selected={preferences.diets}
+          onChange={(diets) => update({ diets })}
+          customPlaceholder="Add custom diet"
+        />
+      </View>
+
+      <View className="mb-6">
+        <SectionTitle>Allergies</SectionTitle>
+        <Text style={{ fontFamily: 'Nunito_400Regular' }} className="mb-3 text-earth-600">
+          Recipes never include these or anything made with them.
+        </Text>
+        <MultiSelect
+          options={[...MAJOR_ALLERGENS]}
+          selected={allergens}
+          onChange={setAllergens}
+          customPlaceholder="Add other allergy"
+        />
+
+        {preferences.allergies.map(({ allergen, severity }) => (
+          <View key={allergen} className="mt-3 flex-row items-center">
+            <Text style={{ fontFamily: 'Nunito_500Medium' }} className="flex-1 text-earth-700">
+              {allergen}
+            </Text>
+            {SEVERITY_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.severity}
+                onPress={() => setSeverity(allergen, option.severity)}
+                className={`ml-1 rounded-lg border-2 px-3 py-1 ${
+                  severity === option.severity
+                    ? option.severity === 'severe'
+                      ? 'border-red-600 bg-red-600'
+                      : 'border-earth-600 bg-earth-600'
+                    : 'border-earth-300 bg-cream-50'
+                }`}>
+                <Text
+                  style={{ fontFamily: 'Nunito_500Medium' }}
+                  className={`text-sm ${
+                    severity === option.severity ? 'text-cream-50' : 'text-earth-700'
+                  }`}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ))}
+      </View>
+
+      <View className="mb-6">
+        <SectionTitle>Preferred Cuisines</SectionTitle>
+        <MultiSelect
+          options={TASTE_OPTIONS}
+          selected={preferences.tastes}
+          onChange={(tastes) => update({ tastes })}
+          customPlaceholder="Add custom cuisine"
+        />
+      </View>
+
+      <View className="mb-6">
+        <SectionTitle>Difficulty</SectionTitle>
+        <View className="flex-row justify-between">
+          {DIFFICULTY_OPTIONS.map((difficulty) => {
+            const selected = preferences.preferred_difficulty === difficulty;
+            return (
+              <TouchableOpacity
+                key={difficulty}
+                onPress={() => update({ preferred_difficulty: selected ? null : difficulty })}
+                className={`mx-1 flex-1 rounded-lg border-2 py-3 ${
+                  selected ? 'border-earth-600 bg-earth-600' : 'border-earth-300 bg-cream-50'
+                }`}>
+                <Text
+                  style={{ fontFamily: 'Nunito_500Medium' }}
+                  className={`text-center ${selected ? 'text-cream-50' : 'text-earth-700'}`}>
+                  {difficulty}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <View className="mb-6">
+        <SectionTitle>Cooking Time (minutes)</SectionTitle>
+        <View className="flex-row flex-wrap gap-2">
+          {TIME_OPTIONS.map((time) => {
+            const selected = preferences.preferred_time_minutes === time;
+            return (
+              <Chip
+                key={time}
+                label={`${time} min`}
+                selected={selected}
+                onPress={() => update({ preferred_time_minutes: selected ? null : time })}
+              />
+            );
+          })}
+        </View>
+      </View>
+
+      <View>
+        <SectionTitle>Portions</SectionTitle>
+        <View className="flex-row flex-wrap gap-2">
+          {PORTION_OPTIONS.map((portion) => {
+            const selected = preferences.preferred_portions === portion;
+            return (
+              <Chip
+                key={portion}
+                label={`${portion} serving${portion > 1 ? 's' : ''}`}
+                selected={selected}
+                onPress={() => update({ preferred_portions: selected ? null : portion })}
+              />
+            );
+          })}
+        </View>
+      </View>
+    </View>
+  );
+}
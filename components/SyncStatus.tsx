@@ -0,0 +1,63 @@
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+import { SyncIssue, resolveIssue, useSyncStore } from '~/utils/offline';
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function showIssue({ entry, message, conflict }: SyncIssue) {
+  Alert.alert(conflict ? 'Sync Conflict' : 'Change Not Saved', `${entry.label}: ${message}.`, [
+    {
+      text: conflict ? 'Use Theirs' : 'Discard',
+      style: 'destructive',
+      onPress: () => resolveIssue(entry.id, false),
+    },
+    {
+      text: conflict ? 'Keep Mine' : 'Retry',
+      onPress: () => resolveIssue(entry.id, true),
+    },
+  ]);
+}
+
+/** Whether the user's edits have reached the server. Hidden once everything is synced. */
+export function SyncStatus() {
+  const { online, syncing, pending, issues } = useSyncStore();
+
+  if (issues.length > 0) {
+    return (
+      <TouchableOpacity
+        onPress={() => showIssue(issues[0])}
+        className="mb-6 rounded-lg bg-terracotta-100 px-4 py-3">
+        <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-terracotta-700">
+          {plural(issues.length, 'change')} couldn&apos;t sync. Tap to review.
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  if (!online) {
+    return (
+      <View className="mb-6 rounded-lg bg-cream-100 px-4 py-3">
+        <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-earth-700">
+          Offline
+          {pending.length > 0
+            ? ` · ${plural(pending.length, 'change')} will sync when you reconnect`
+            : ' · showing saved data'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (syncing || pending.length > 0) {
+    return (
+      <View className="mb-6 rounded-lg bg-sage-100 px-4 py-3">
+        <Text style={{ fontFamily: 'Nunito_600SemiBold' }} className="text-sage-700">
+          Syncing {plural(pending.length, 'change')}...
+        </Text>
+      </View>
+    );
+  }
+
+  return null;
+}
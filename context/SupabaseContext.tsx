@@ -1,39 +1,111 @@
 import { createContext, useContext, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import * as Linking from 'expo-linking';
 import { Session, User } from '@supabase/supabase-js';
+import { useQueryClient } from '@tanstack/react-query';
+import { clearOfflineData, useProfile, useRealtimeSync } from '~/hooks';
+import { useAppStore } from '~/store/store';
+import { completeAuthLink, parseAuthLink } from '~/utils/authLinks';
 import { supabase } from '~/utils/supabase';
 
 type AuthContextType = {
   session: Session | null;
   user: User | null;
   loading: boolean;
+  /** Signed in from a password reset link, and the new password isn't set yet. */
+  passwordRecovery: boolean;
+  endPasswordRecovery: () => void;
 };
 
 const AuthContext = createContext<AuthContextType>({
   session: null,
   user: null,
   loading: true,
+  passwordRecovery: false,
+  endPasswordRecovery: () => {},
 });
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  const queryClient = useQueryClient();
+  useRealtimeSync(user?.id);
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
+    // Emailed links open the app at /auth/callback with the session in the URL
+    const openLink = async (url: string | null) => {
+      const link = url ? parseAuthLink(url) : null;
+      if (!link) return;
+
+      setLoading(true);
+      // Before the session arrives, so the guards never show a recovering user the app
+      if (link.type === 'recovery') setPasswordRecovery(true);
+      try {
+        await completeAuthLink(link);
+      } catch (error) {
+        setPasswordRecovery(false);
+        Alert.alert(
+          'Link Not Valid',
+          `${error instanceof Error ? error.message : 'The link could not be used'}. Please request a new one.`
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    // A link that launched the app is handled before the stored session is read. A
+    // failure in either step still ends loading, or the guards would spin forever.
+    Linking.getInitialURL()
+      .then(openLink)
+      .catch((error) => console.error('Error handling launch link:', error))
+      .then(() => supabase.auth.getSession())
+      .then(({ data: { session } }) => {
+        setSession(session);
+        setUser(session?.user ?? null);
+      })
+      .catch((error) => console.error('Error reading session:', error))
+      .finally(() => setLoading(false));
+
+    const linkSubscription = Linking.addEventListener('url', ({ url }) => openLink(url));
 
-    supabase.auth.onAuthStateChange((_event, session) => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
+
+      if (event === 'PASSWORD_RECOVERY') setPasswordRecovery(true);
+
+      // Don't show the next user the previous one's cached data
+      if (event === 'SIGNED_OUT') {
+        setPasswordRecovery(false);
+        queryClient.clear();
+        useAppStore.getState().resetSession();
+        clearOfflineData().catch((error) => console.error('Error clearing offline data:', error));
+      }
     });
-  }, []);
 
-  return <AuthContext.Provider value={{ session, user, loading }}>{children}</AuthContext.Provider>;
+    return () => {
+      linkSubscription.remove();
+      subscription.unsubscribe();
+    };
+  }, [queryClient]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user,
+        loading,
+        passwordRecovery,
+        endPasswordRecovery: () => setPasswordRecovery(false),
+      }}>
+      {children}
+    </AuthContext.Provider>
+  );
 }
 
 export function useAuth() {
@@ -44,6 +116,34 @@ export function useAuth() {
   return context;
 }
 
+/**
+ * Where the user is in the app's lifecycle, for the route group guards: signed out,
+ * choosing a new password after a reset link, signed in but still onboarding, or ready
+ * for the main app. `loading` until the session and profile are known, and
+ * `profileError` when the profile couldn't be loaded, so the user can retry rather
+ * than be sent to the wrong group.
+ */
+export type AuthStatus =
+  | 'loading'
+  | 'signedOut'
+  | 'passwordRecovery'
+  | 'onboarding'
+  | 'ready'
+  | 'profileError';
+
+export function useAuthStatus(): AuthStatus {
+  const { session, loading, passwordRecovery } = useAuth();
+  const { data: profile, isPending, isError } = useProfile(!!session);
+
+  if (loading) return 'loading';
+  if (!session) return 'signedOut';
+  if (passwordRecovery) return 'passwordRecovery';
+  // A cached profile still decides; without one we can't tell onboarding from ready
+  if (isError && !profile) return 'profileError';
+  if (isPending) return 'loading';
+  return profile?.onboarding_complete ? 'ready' : 'onboarding';
+}
+
 export function SupabaseProvider({ children }: { children: React.ReactNode }) {
   return <AuthProvider>{children}</AuthProvider>;
 }
@@ -0,0 +1,17 @@
+import { useMutation } from '@tanstack/react-query';
+
+import { ExportFormat, shareAccountExport } from '~/utils/accountExport';
+import { accountRepo } from '~/utils/repositories';
+
+/** Exports everything stored about the user and opens the share sheet for the file. */
+export function useExportAccount() {
+  return useMutation({
+    mutationFn: async (format: ExportFormat) =>
+      shareAccountExport(await accountRepo.export(), format),
+  });
+}
+
+/** Deletes the account for good. The caller signs out afterwards, clearing the cache. */
+export function useDeleteAccount() {
+  return useMutation({ mutationFn: () => accountRepo.delete() });
+}
@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { HouseholdRole, householdsRepo } from '~/utils/repositories';
+import { queryKeys, resetHouseholdData } from './queryKeys';
+
+/** The user's households; the one marked `active` is the kitchen the app shows. */
+export function useHouseholds(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.households,
+    queryFn: () => householdsRepo.list(),
+    enabled,
+  });
+}
+
+export function useHouseholdMembers(householdId: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.householdMembers(householdId ?? 0),
+    queryFn: () => householdsRepo.listMembers(householdId!),
+    enabled: householdId !== undefined,
+  });
+}
+
+// Everything below changes which household is active, so the kitchen data starts over
+
+export function useSwitchHousehold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (householdId: number) => householdsRepo.switchTo(householdId),
+    onSuccess: () => resetHouseholdData(queryClient),
+  });
+}
+
+export function useCreateHousehold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (name: string) => householdsRepo.create(name),
+    onSuccess: () => resetHouseholdData(queryClient),
+  });
+}
+
+/** Joins a household by invite code. Resolves to the RPC's success message. */
+export function useJoinHousehold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string) => householdsRepo.acceptInvite(code),
+    onSuccess: () => resetHouseholdData(queryClient),
+  });
+}
+
+export function useLeaveHousehold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (householdId: number) => householdsRepo.leave(householdId),
+    onSuccess: () => resetHouseholdData(queryClient),
+  });
+}
+
+// Owner actions, which leave the active household as it is
+
+export function useCreateInvite() {
+  return useMutation({
+    mutationFn: (householdId: number) => householdsRepo.createInvite(householdId),
+  });
+}
+
+interface MemberVariables {
+  householdId: number;
+  userId: string;
+}
+
+export function useRemoveMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ householdId, userId }: MemberVariables) =>
+      householdsRepo.removeMember(householdId, userId),
+    onSettled: (_result, _error, { householdId }) =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.householdMembers(householdId) }),
+  });
+}
+
+export function useSetMemberRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ householdId, userId, role }: MemberVariables & { role: HouseholdRole }) =>
+      householdsRepo.setRole(householdId, userId, role),
+    onSettled: (_result, _error, { householdId }) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.householdMembers(householdId) }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.households }),
+      ]),
+  });
+}
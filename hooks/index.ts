@@ -0,0 +1,46 @@
+// React Query hooks over the repositories in `utils/repositories`. Mutations update or
+// invalidate the cached queries they affect, so screens don't refetch by hand.
+
+export { useDeleteAccount, useExportAccount } from './account';
+export {
+  useCreateHousehold,
+  useCreateInvite,
+  useHouseholdMembers,
+  useHouseholds,
+  useJoinHousehold,
+  useLeaveHousehold,
+  useRemoveMember,
+  useSetMemberRole,
+  useSwitchHousehold,
+} from './households';
+export {
+  useDeleteIngredient,
+  useDeleteUtensil,
+  useInventory,
+  useInventoryEvents,
+  useMonthlyUsage,
+  useSaveUtensil,
+  useUpsertIngredient,
+  useUtensils,
+} from './inventory';
+export { clearOfflineData, useOfflineSync } from './offline';
+export { useAllergenMatches, usePreferences, useSavePreferences } from './preferences';
+export { useCompleteOnboarding, useProfile, useUpdateProfile, useUploadAvatar } from './profile';
+export { invalidateInventory, queryKeys, resetHouseholdData } from './queryKeys';
+export { useRealtimeSync } from './realtime';
+export {
+  useCookRecipe,
+  useDeleteRecipe,
+  useLastCook,
+  useRecipe,
+  useRecipes,
+  useSaveRecipe,
+  useUndoLastCook,
+} from './recipes';
+export {
+  useAddToShoppingList,
+  useMarkBought,
+  useRemoveShoppingItem,
+  useShoppingList,
+  useToggleShoppingItem,
+} from './shoppingList';
@@ -0,0 +1,192 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { formatDate } from '~/utils/expiry';
+import {
+  fetchIngredientHistory,
+  fetchMonthlyUsage,
+  fetchRecentEvents,
+} from '~/utils/inventoryHistory';
+import { newTempId, submitEdit } from '~/utils/offline';
+import { Ingredient, NewIngredient, Utensil, inventoryRepo } from '~/utils/repositories';
+import { invalidateInventory, queryKeys } from './queryKeys';
+
+export function useInventory() {
+  return useQuery({
+    queryKey: queryKeys.inventory,
+    queryFn: () => inventoryRepo.listIngredients(),
+  });
+}
+
+export function useUtensils() {
+  return useQuery({ queryKey: queryKeys.utensils, queryFn: () => inventoryRepo.listUtensils() });
+}
+
+interface UpsertIngredientVariables {
+  /** The row to update; a new row is added when omitted. */
+  id?: number;
+  ingredient: NewIngredient;
+}
+
+/**
+ * Adds or edits an ingredient, showing the change in the list before the write finishes.
+ * Offline, the write is queued and the change stays in the list until it syncs.
+ */
+export function useUpsertIngredient() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ingredient }: UpsertIngredientVariables) => {
+      if (id === undefined) {
+        return submitEdit(
+          { kind: 'addIngredient', tempId: newTempId(), ingredient },
+          ingredient.name
+        );
+      }
+      // The optimistic update leaves updated_at alone, so this is still the server's
+      const updatedAt = queryClient
+        .getQueryData<Ingredient[]>(queryKeys.inventory)
+        ?.find((row) => row.id === id)?.updated_at;
+      return submitEdit(
+        { kind: 'updateIngredient', id, updatedAt: updatedAt ?? null, changes: ingredient },
+        ingredient.name
+      );
+    },
+    onMutate: async ({ id, ingredient }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.inventory });
+      const previous = queryClient.getQueryData<Ingredient[]>(queryKeys.inventory);
+      const now = new Date().toISOString();
+      // Stands in for a new row until it's saved; negative so it can't clash
+      const placeholderId = newTempId();
+
+      queryClient.setQueryData<Ingredient[]>(queryKeys.inventory, (ingredients = []) => {
+        if (id !== undefined) {
+          return ingredients.map((row) => (row.id === id ? { ...row, ...ingredient } : row));
+        }
+        const placeholder: Ingredient = {
+          user_id: '',
+          household_id: 0,
+          created_at: now,
+          updated_at: now,
+          expires_on: null,
+          opened_on: null,
+          ...ingredient,
+          id: placeholderId,
+        };
+        return [placeholder, ...ingredients];
+      });
+      return { previous, placeholderId };
+    },
+    onSuccess: (savedId, { id }, context) => {
+      if (id !== undefined || savedId === undefined) return;
+      // Give the placeholder the id the add came back with, so edits made before the
+      // refetch reach the same row (or the same queued add)
+      queryClient.setQueryData<Ingredient[]>(queryKeys.inventory, (ingredients) =>
+        ingredients?.map((row) =>
+          row.id === context.placeholderId ? { ...row, id: savedId } : row
+        )
+      );
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(queryKeys.inventory, context?.previous);
+    },
+    onSettled: () => invalidateInventory(queryClient),
+  });
+}
+
+export function useDeleteIngredient() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ingredient: Ingredient) =>
+      submitEdit(
+        { kind: 'removeIngredient', id: ingredient.id, updatedAt: ingredient.updated_at },
+        ingredient.name
+      ),
+    onMutate: async (ingredient) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.inventory });
+      const previous = queryClient.getQueryData<Ingredient[]>(queryKeys.inventory);
+      queryClient.setQueryData<Ingredient[]>(queryKeys.inventory, (ingredients) =>
+        ingredients?.filter((row) => row.id !== ingredient.id)
+      );
+      return { previous };
+    },
+    onError: (_error, _ingredient, context) => {
+      queryClient.setQueryData(queryKeys.inventory, context?.previous);
+    },
+    onSettled: () => invalidateInventory(queryClient),
+  });
+}
+
+interface SaveUtensilVariables {
+  id?: number;
+  name: string;
+}
+
+/** Adds or renames a utensil. Offline, the change is queued and shown in the list meanwhile. */
+export function useSaveUtensil() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, name }: SaveUtensilVariables) => {
+      if (id === undefined) {
+        return submitEdit({ kind: 'addUtensil', tempId: newTempId(), name }, name);
+      }
+      const updatedAt = queryClient
+        .getQueryData<Utensil[]>(queryKeys.utensils)
+        ?.find((row) => row.id === id)?.updated_at;
+      return submitEdit({ kind: 'renameUtensil', id, updatedAt: updatedAt ?? null, name }, name);
+    },
+    onSuccess: (savedId, { id, name }) => {
+      queryClient.setQueryData<Utensil[]>(queryKeys.utensils, (utensils = []) => {
+        if (id !== undefined) {
+          return utensils.map((row) => (row.id === id ? { ...row, name } : row));
+        }
+        if (savedId === undefined) return utensils;
+        const now = new Date().toISOString();
+        return [
+          { id: savedId, user_id: '', household_id: 0, created_at: now, updated_at: now, name },
+          ...utensils,
+        ];
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.utensils }),
+  });
+}
+
+export function useDeleteUtensil() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (utensil: Utensil) =>
+      submitEdit(
+        { kind: 'removeUtensil', id: utensil.id, updatedAt: utensil.updated_at },
+        utensil.name
+      ),
+    onSuccess: (_result, utensil) => {
+      queryClient.setQueryData<Utensil[]>(queryKeys.utensils, (utensils) =>
+        utensils?.filter((row) => row.id !== utensil.id)
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.utensils }),
+  });
+}
+
+/** One ingredient's history, or the most recent changes across the inventory. */
+export function useInventoryEvents(ingredientId: number | null) {
+  return useQuery({
+    queryKey:
+      ingredientId === null ? queryKeys.recentEvents : queryKeys.ingredientHistory(ingredientId),
+    queryFn: () =>
+      ingredientId === null ? fetchRecentEvents() : fetchIngredientHistory(ingredientId),
+  });
+}
+
+export function useMonthlyUsage(date = new Date(), enabled = true) {
+  const month = formatDate(new Date(date.getFullYear(), date.getMonth(), 1));
+
+  return useQuery({
+    queryKey: queryKeys.monthlyUsage(month),
+    queryFn: () => fetchMonthlyUsage(date),
+    enabled,
+  });
+}
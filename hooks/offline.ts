@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Query, QueryClient, dehydrate, hydrate, onlineManager } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+
+import {
+  clearQueue,
+  flushQueue,
+  loadQueue,
+  useSyncStore,
+  watchConnectivity,
+} from '~/utils/offline';
+import { invalidateInventory, queryKeys } from './queryKeys';
+
+const CACHE_KEY = 'offline:queries';
+// Bump whenever a persisted query's data changes shape, e.g. preferences gaining
+// `allergies`, so screens never read cached rows in a shape they don't expect. Caches
+// saved before versioning have none and are dropped too.
+const CACHE_VERSION = 2;
+const SAVE_DELAY_MS = 1000;
+
+// Kept on the device so the kitchen screens still show something without a connection
+const PERSISTED_QUERIES: readonly (readonly string[])[] = [
+  queryKeys.recipes,
+  queryKeys.inventory,
+  queryKeys.utensils,
+  queryKeys.preferences,
+  queryKeys.households,
+  // The route guards need the onboarding flag to start offline
+  queryKeys.profile,
+];
+
+function shouldPersist(query: Query) {
+  return (
+    query.state.status === 'success' &&
+    PERSISTED_QUERIES.some((key) => key[0] === query.queryKey[0])
+  );
+}
+
+async function restoreQueryCache(queryClient: QueryClient) {
+  const stored = await AsyncStorage.getItem(CACHE_KEY);
+  if (!stored) return;
+
+  const { version, state } = JSON.parse(stored);
+  if (version === CACHE_VERSION) hydrate(queryClient, state);
+}
+
+/** Saves the persisted queries whenever they change, batching bursts of updates. */
+function persistQueryCache(queryClient: QueryClient) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== 'updated' || !shouldPersist(event.query)) return;
+
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const state = dehydrate(queryClient, { shouldDehydrateQuery: shouldPersist });
+      AsyncStorage.setItem(CACHE_KEY, JSON.stringify({ version: CACHE_VERSION, state })).catch(
+        (error) => console.error('Error saving query cache:', error)
+      );
+    }, SAVE_DELAY_MS);
+  });
+
+  return () => {
+    clearTimeout(timer);
+    unsubscribe();
+  };
+}
+
+function invalidateSyncedQueries(queryClient: QueryClient) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.recipes }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.utensils }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.preferences }),
+    invalidateInventory(queryClient),
+  ]);
+}
+
+/**
+ * Restores the cached queries and queued edits saved on the device, then keeps the cache
+ * saved and replays the queue whenever the app comes back online. Returns false until
+ * the restore has finished, so screens don't start out empty.
+ */
+export function useOfflineSync(queryClient: QueryClient) {
+  const [restored, setRestored] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let stop = () => {};
+
+    watchConnectivity();
+    Promise.all([restoreQueryCache(queryClient), loadQueue()])
+      .catch((error) => console.error('Error restoring offline data:', error))
+      .finally(() => {
+        if (cancelled) return;
+
+        const unsubscribeCache = persistQueryCache(queryClient);
+        const unsubscribeOnline = onlineManager.subscribe((online) => {
+          if (online) flushQueue();
+        });
+        // Refetch once a replay finishes, replacing placeholder rows with the real ones
+        const unsubscribeSync = useSyncStore.subscribe((state, previous) => {
+          if (previous.syncing && !state.syncing) invalidateSyncedQueries(queryClient);
+        });
+        stop = () => {
+          unsubscribeCache();
+          unsubscribeOnline();
+          unsubscribeSync();
+        };
+
+        setRestored(true);
+        flushQueue();
+      });
+
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }, [queryClient]);
+
+  return restored;
+}
+
+/** Forgets the cached data and queued edits, so the next user doesn't see them. */
+export async function clearOfflineData() {
+  await Promise.all([AsyncStorage.removeItem(CACHE_KEY), clearQueue()]);
+}
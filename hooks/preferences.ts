@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { Allergy } from '~/utils/ai';
+import { findAllergens } from '~/utils/allergens';
+import { submitEdit } from '~/utils/offline';
+import { UserPreferences, preferencesRepo } from '~/utils/repositories';
+import { queryKeys } from './queryKeys';
+
+/** The user's saved preferences; `data` is null until they save some. */
+export function usePreferences() {
+  return useQuery({ queryKey: queryKeys.preferences, queryFn: () => preferencesRepo.get() });
+}
+
+export function useSavePreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (preferences: UserPreferences) =>
+      submitEdit(
+        {
+          kind: 'savePreferences',
+          preferences,
+          previous: queryClient.getQueryData<UserPreferences | null>(queryKeys.preferences) ?? null,
+        },
+        'Preferences'
+      ),
+    onSuccess: (_result, preferences) => {
+      queryClient.setQueryData(queryKeys.preferences, preferences);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.preferences }),
+  });
+}
+
+/**
+ * The recipe ingredients the user is allergic to, by their saved allergies and any in
+ * `allergies`, like the unsaved ones a draft recipe was generated for.
+ */
+export function useAllergenMatches(ingredients: { name: string }[], allergies: Allergy[] = []) {
+  const { data: preferences } = usePreferences();
+  const saved = preferences?.allergies ?? [];
+  const unsaved = allergies.filter(
+    ({ allergen }) =>
+      !saved.some((allergy) => allergy.allergen.toLowerCase() === allergen.toLowerCase())
+  );
+  return findAllergens(ingredients, [...saved, ...unsaved]);
+}
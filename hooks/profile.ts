@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { Profile, ProfileChanges, profileRepo } from '~/utils/repositories';
+import { queryKeys } from './queryKeys';
+
+/** The signed-in user's profile. Pass `enabled: false` while nobody is signed in. */
+export function useProfile(enabled = true) {
+  return useQuery({ queryKey: queryKeys.profile, queryFn: () => profileRepo.get(), enabled });
+}
+
+/**
+ * Marks onboarding as finished. Updates the cached profile straight away, since the
+ * route guards read it to decide whether the user may leave onboarding.
+ */
+export function useCompleteOnboarding() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => profileRepo.completeOnboarding(),
+    onSuccess: () => {
+      queryClient.setQueryData<Profile | null>(queryKeys.profile, (profile) =>
+        profile ? { ...profile, onboarding_complete: true } : profile
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.profile }),
+  });
+}
+
+/** Saves profile fields such as the name, which household members also see. */
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (changes: ProfileChanges) => profileRepo.update(changes),
+    onSuccess: (_data, changes) => {
+      queryClient.setQueryData<Profile | null>(queryKeys.profile, (profile) =>
+        profile ? { ...profile, ...changes } : profile
+      );
+    },
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.profile }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.households }),
+      ]),
+  });
+}
+
+export function useUploadAvatar() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ uri, contentType }: { uri: string; contentType: string }) =>
+      profileRepo.uploadAvatar(uri, contentType),
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.profile }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.households }),
+      ]),
+  });
+}
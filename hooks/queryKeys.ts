@@ -0,0 +1,47 @@
+import { QueryClient } from '@tanstack/react-query';
+
+/** React Query cache keys for server data. Mutations invalidate by these. */
+export const queryKeys = {
+  recipes: ['recipes'] as const,
+  // Under `recipes`, so invalidating the list refetches open recipes too
+  recipe: (recipeId: number) => ['recipes', recipeId] as const,
+  lastCook: ['lastCook'] as const,
+  inventory: ['inventory'] as const,
+  utensils: ['utensils'] as const,
+  preferences: ['preferences'] as const,
+  profile: ['profile'] as const,
+  shoppingList: ['shoppingList'] as const,
+  households: ['households'] as const,
+  householdMembers: (householdId: number) => ['households', householdId, 'members'] as const,
+  // Every inventory change is logged, so the history queries share this prefix
+  inventoryEvents: ['inventoryEvents'] as const,
+  ingredientHistory: (ingredientId: number) =>
+    ['inventoryEvents', 'ingredient', ingredientId] as const,
+  recentEvents: ['inventoryEvents', 'recent'] as const,
+  monthlyUsage: (month: string) => ['inventoryEvents', 'monthlyUsage', month] as const,
+};
+
+/** Refetches the inventory and its history after anything that changes `ingredients`. */
+export function invalidateInventory(queryClient: QueryClient) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.inventory }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.inventoryEvents }),
+  ]);
+}
+
+/**
+ * Drops the kitchen data cached for the previous household after switching, so screens
+ * load the new one instead of showing the old one while they refetch.
+ */
+export function resetHouseholdData(queryClient: QueryClient) {
+  return Promise.all(
+    [
+      queryKeys.households,
+      queryKeys.recipes,
+      queryKeys.lastCook,
+      queryKeys.inventory,
+      queryKeys.utensils,
+      queryKeys.inventoryEvents,
+    ].map((queryKey) => queryClient.resetQueries({ queryKey }))
+  );
+}
@@ -0,0 +1,103 @@
+import { QueryClient, QueryKey, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+
+import { supabase } from '~/utils/supabase';
+import { useHouseholds } from './households';
+import { invalidateInventory, queryKeys } from './queryKeys';
+
+// A cook changes many ingredient rows at once; wait for the burst to pass before refetching
+const REFETCH_DELAY_MS = 300;
+
+interface SyncedTable {
+  /** The cached list holding the table's rows, or null for single-row tables. */
+  list: QueryKey | null;
+  refetch: (queryClient: QueryClient) => Promise<unknown>;
+}
+
+const SYNCED_TABLES = {
+  ingredients: { list: queryKeys.inventory, refetch: invalidateInventory },
+  utensils: {
+    list: queryKeys.utensils,
+    refetch: (queryClient) => queryClient.invalidateQueries({ queryKey: queryKeys.utensils }),
+  },
+  recipes: {
+    list: queryKeys.recipes,
+    // Recipes are marked used by a cook, which may be the one that can now be undone
+    refetch: (queryClient) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.recipes }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.lastCook }),
+      ]),
+  },
+  user_preferences: {
+    list: null,
+    refetch: (queryClient) => queryClient.invalidateQueries({ queryKey: queryKeys.preferences }),
+  },
+} satisfies Record<string, SyncedTable>;
+
+type TableName = keyof typeof SYNCED_TABLES;
+
+const TABLE_NAMES = Object.keys(SYNCED_TABLES) as TableName[];
+
+/**
+ * Keeps the cached kitchen data current while the user, or someone sharing their
+ * household, changes it on another device, by refetching whichever queries a Realtime
+ * change touches.
+ */
+export function useRealtimeSync(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { data: households } = useHouseholds(!!userId);
+  const householdId = households?.find((household) => household.active)?.id;
+
+  useEffect(() => {
+    if (!userId || householdId === undefined) return;
+
+    const timers = new Map<TableName, ReturnType<typeof setTimeout>>();
+    const refetch = (table: TableName) => {
+      clearTimeout(timers.get(table));
+      timers.set(
+        table,
+        setTimeout(() => SYNCED_TABLES[table].refetch(queryClient), REFETCH_DELAY_MS)
+      );
+    };
+
+    let channel = supabase.channel(`kitchen:${userId}:${householdId}`);
+    for (const table of TABLE_NAMES) {
+      const { list } = SYNCED_TABLES[table];
+      // Kitchen tables belong to the household; preferences stay the user's own
+      const filter = list ? `household_id=eq.${householdId}` : `id=eq.${userId}`;
+
+      channel = channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, () =>
+          refetch(table)
+        )
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, () =>
+          refetch(table)
+        );
+      if (list) {
+        // Deletes can't be filtered and carry only the id, so check it's one of ours
+        channel = channel.on(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table },
+          ({ old }) => {
+            const rows = queryClient.getQueryData<{ id: number }[]>(list);
+            if (rows?.some((row) => row.id === old.id)) refetch(table);
+          }
+        );
+      }
+    }
+
+    let subscribed = false;
+    channel.subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+      // Changes made while the channel was down were missed; catch up on reconnect
+      if (subscribed) TABLE_NAMES.forEach(refetch);
+      subscribed = true;
+    });
+
+    return () => {
+      timers.forEach(clearTimeout);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, householdId, queryClient]);
+}
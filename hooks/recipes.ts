@@ -0,0 +1,164 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { GeneratedRecipe } from '~/utils/ai';
+import { cookRecipe, fetchLastCook, undoLastCook } from '~/utils/cooking';
+import { newTempId, submitEdit } from '~/utils/offline';
+import { toRecipeInsert } from '~/utils/recipes';
+import { NewRecipe, Recipe, recipesRepo } from '~/utils/repositories';
+import { hasLegacyQuantities, normalizeRecipeIngredients } from '~/utils/units';
+import { invalidateInventory, queryKeys } from './queryKeys';
+
+export function useRecipes() {
+  return useQuery({ queryKey: queryKeys.recipes, queryFn: () => recipesRepo.list() });
+}
+
+/**
+ * One saved recipe, for screens opened by id. Reads the cached list first, so a cook
+ * shows there as soon as it happens, and only fetches the row when it isn't cached.
+ */
+export function useRecipe(recipeId: number) {
+  const { data: recipes, isPending: listPending } = useRecipes();
+  const cached = recipes?.find((recipe) => recipe.id === recipeId);
+  const query = useQuery({
+    queryKey: queryKeys.recipe(recipeId),
+    queryFn: () => recipesRepo.get(recipeId),
+    enabled: !listPending && !cached,
+  });
+
+  return {
+    recipe: cached ?? query.data ?? null,
+    loading: !cached && (listPending || query.isLoading),
+    error: query.error,
+  };
+}
+
+/** The most recent cook that hasn't been undone, or null. */
+export function useLastCook() {
+  return useQuery({ queryKey: queryKeys.lastCook, queryFn: fetchLastCook });
+}
+
+/** The row a new recipe gets, shown until the list is refetched. */
+function localRecipe(id: number, recipe: NewRecipe): Recipe {
+  const now = new Date().toISOString();
+  return {
+    user_id: '',
+    household_id: 0,
+    created_at: now,
+    updated_at: now,
+    description: null,
+    image_url: null,
+    prep_time_minutes: null,
+    cook_time_minutes: null,
+    servings: null,
+    is_used: false,
+    ...recipe,
+    id,
+  };
+}
+
+/** Saves a generated recipe, queueing it if offline. */
+export function useSaveRecipe() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (recipe: GeneratedRecipe) => {
+      const newRecipe = toRecipeInsert(recipe);
+      const tempId = newTempId();
+      const id = await submitEdit({ kind: 'addRecipe', tempId, recipe: newRecipe }, recipe.title);
+      return localRecipe(id ?? tempId, newRecipe);
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData<Recipe[]>(queryKeys.recipes, (recipes) =>
+        recipes ? [saved, ...recipes] : recipes
+      );
+      return queryClient.invalidateQueries({ queryKey: queryKeys.recipes });
+    },
+  });
+}
+
+export function useDeleteRecipe() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (recipe: Recipe) =>
+      submitEdit(
+        { kind: 'removeRecipe', id: recipe.id, updatedAt: recipe.updated_at },
+        recipe.title
+      ),
+    onMutate: async (recipe) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.recipes });
+      const previous = queryClient.getQueryData<Recipe[]>(queryKeys.recipes);
+      queryClient.setQueryData<Recipe[]>(queryKeys.recipes, (recipes) =>
+        recipes?.filter((r) => r.id !== recipe.id)
+      );
+      return { previous };
+    },
+    onError: (_error, _recipe, context) => {
+      queryClient.setQueryData(queryKeys.recipes, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.recipes }),
+  });
+}
+
+interface CookVariables {
+  recipe: Recipe;
+  servingsMultiplier: number;
+}
+
+/**
+ * Cooks a recipe and resolves to the RPC's message. The recipe shows as cooked straight
+ * away and is put back if the RPC reports an error.
+ */
+export function useCookRecipe() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ recipe, servingsMultiplier }: CookVariables) => {
+      // Recipes saved before quantities were structured store "2 cups" strings,
+      // which the cook RPC cannot subtract. Rewrite them once before cooking.
+      if (hasLegacyQuantities(recipe.ingredients)) {
+        await recipesRepo.update(recipe.id, {
+          ingredients: normalizeRecipeIngredients(recipe.ingredients),
+        });
+      }
+      return cookRecipe(recipe.id, servingsMultiplier);
+    },
+    onMutate: async ({ recipe }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.recipes });
+      const previous = queryClient.getQueryData<Recipe[]>(queryKeys.recipes);
+      queryClient.setQueryData<Recipe[]>(queryKeys.recipes, (recipes) =>
+        recipes?.map((r) => (r.id === recipe.id ? { ...r, is_used: true } : r))
+      );
+      return { previous };
+    },
+    onSuccess: (result, _variables, context) => {
+      if (!result.startsWith('Success')) {
+        queryClient.setQueryData(queryKeys.recipes, context?.previous);
+      }
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(queryKeys.recipes, context?.previous);
+    },
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.recipes }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.lastCook }),
+        invalidateInventory(queryClient),
+      ]),
+  });
+}
+
+/** Restores what the most recent cook subtracted. Resolves to the RPC's message. */
+export function useUndoLastCook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: undoLastCook,
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.recipes }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.lastCook }),
+        invalidateInventory(queryClient),
+      ]),
+  });
+}
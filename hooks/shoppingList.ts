@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import {
+  NewShoppingItem,
+  ShoppingListItem,
+  addToShoppingList,
+  fetchShoppingList,
+  moveBoughtToInventory,
+  removeShoppingItem,
+  setShoppingItemChecked,
+} from '~/utils/shoppingList';
+import { invalidateInventory, queryKeys } from './queryKeys';
+
+export function useShoppingList() {
+  return useQuery({ queryKey: queryKeys.shoppingList, queryFn: fetchShoppingList });
+}
+
+/** Applies `update` to the cached list, returning the list as it was for rollback. */
+function useOptimisticListUpdate() {
+  const queryClient = useQueryClient();
+
+  return async (update: (items: ShoppingListItem[]) => ShoppingListItem[]) => {
+    await queryClient.cancelQueries({ queryKey: queryKeys.shoppingList });
+    const previous = queryClient.getQueryData<ShoppingListItem[]>(queryKeys.shoppingList);
+    queryClient.setQueryData<ShoppingListItem[]>(queryKeys.shoppingList, (items) =>
+      items ? update(items) : items
+    );
+    return { previous };
+  };
+}
+
+export function useToggleShoppingItem() {
+  const queryClient = useQueryClient();
+  const updateList = useOptimisticListUpdate();
+
+  return useMutation({
+    mutationFn: (item: ShoppingListItem) => setShoppingItemChecked(item.id, !item.checked),
+    onMutate: (item) =>
+      updateList((items) =>
+        items.map((i) => (i.id === item.id ? { ...i, checked: !item.checked } : i))
+      ),
+    onError: (_error, _item, context) => {
+      queryClient.setQueryData(queryKeys.shoppingList, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.shoppingList }),
+  });
+}
+
+export function useRemoveShoppingItem() {
+  const queryClient = useQueryClient();
+  const updateList = useOptimisticListUpdate();
+
+  return useMutation({
+    mutationFn: (itemId: number) => removeShoppingItem(itemId),
+    onMutate: (itemId) => updateList((items) => items.filter((item) => item.id !== itemId)),
+    onError: (_error, _itemId, context) => {
+      queryClient.setQueryData(queryKeys.shoppingList, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.shoppingList }),
+  });
+}
+
+export function useAddToShoppingList() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (additions: NewShoppingItem[]) => addToShoppingList(additions),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.shoppingList }),
+  });
+}
+
+/** Moves checked items into the inventory. Resolves to the names that were kept. */
+export function useMarkBought() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (items: ShoppingListItem[]) => moveBoughtToInventory(items),
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.shoppingList }),
+        invalidateInventory(queryClient),
+      ]),
+  });
+}
@@ -1,15 +1,204 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useState } from 'react';
 import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
 
-export interface BearState {
-  bears: number;
-  increasePopulation: () => void;
-  removeAllBears: () => void;
-  updateBears: (newBears: number) => void;
+import { Allergy, GeneratedRecipe } from '~/utils/ai';
+import { UnitSystem, toUnitSystem } from '~/utils/conversion';
+import { DEFAULT_PREFERENCES, UserPreferences } from '~/utils/repositories';
+import { formatQuantity } from '~/utils/units';
+
+const STORE_KEY = 'app:store';
+
+/** Device-level settings, kept across sign-outs. */
+export interface AppSettings {
+  unitSystem: UnitSystem;
 }
 
-export const useStore = create<BearState>((set) => ({
-  bears: 0,
-  increasePopulation: () => set((state) => ({ bears: state.bears + 1 })),
-  removeAllBears: () => set({ bears: 0 }),
-  updateBears: (newBears) => set({ bears: newBears }),
-}));
+export const DEFAULT_SETTINGS: AppSettings = {
+  unitSystem: 'metric',
+};
+
+// Older drafts are dropped past this, so links to recent batches keep working
+const MAX_DRAFTS = 30;
+
+/** A generated recipe that hasn't been saved, addressable as `/recipes/draft/<id>`. */
+export interface DraftRecipe {
+  id: string;
+  recipe: GeneratedRecipe;
+  createdAt: string;
+  /**
+   * The allergies the recipe was generated for, which may be unsaved edits. Missing from
+   * drafts stored by older versions.
+   */
+  allergies?: Allergy[];
+}
+
+/** The drafts from the latest generation. */
+export interface GenerationBatch {
+  draftIds: string[];
+  /** The inventory the recipes were generated from, for marking missing ingredients. */
+  inventoryNames: string[];
+  generatedAt: string;
+}
+
+/** How far the user has got through a saved recipe's instructions. */
+export interface CookProgress {
+  /** Indexes into the recipe's `instructions`. */
+  completedSteps: number[];
+  updatedAt: string;
+}
+
+interface AppState {
+  /** Keyed by draft id. */
+  drafts: Record<string, DraftRecipe>;
+  batch: GenerationBatch | null;
+  /** Preferences edited on the create recipe screen but not saved yet. */
+  draftPreferences: UserPreferences | null;
+  /** Keyed by recipe id. */
+  cookProgress: Record<number, CookProgress>;
+  settings: AppSettings;
+
+  setBatch: (recipes: GeneratedRecipe[], inventoryNames: string[], allergies: Allergy[]) => void;
+  clearBatch: () => void;
+  setDraftPreferences: (preferences: UserPreferences) => void;
+  clearDraftPreferences: () => void;
+  toggleCookStep: (recipeId: number, step: number) => void;
+  clearCookProgress: (recipeId: number) => void;
+  updateSettings: (changes: Partial<AppSettings>) => void;
+  /** Drops everything tied to the signed-in user, keeping the device settings. */
+  resetSession: () => void;
+}
+
+/**
+ * Client-side UI state that isn't server data: that lives in the React Query cache.
+ * Saved to AsyncStorage so it survives the app being closed.
+ */
+export const useAppStore = create<AppState>()(
+  persist(
+    (set) => ({
+      drafts: {},
+      batch: null,
+      draftPreferences: null,
+      cookProgress: {},
+      settings: DEFAULT_SETTINGS,
+
+      setBatch: (recipes, inventoryNames, allergies) =>
+        set(({ drafts }) => {
+          const generatedAt = new Date().toISOString();
+          const added = recipes.map((recipe, index) => ({
+            id: `${Date.now().toString(36)}-${index}`,
+            recipe,
+            createdAt: generatedAt,
+            allergies,
+          }));
+          const kept = Object.values(drafts)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+            .slice(0, Math.max(MAX_DRAFTS - added.length, 0));
+          return {
+            drafts: Object.fromEntries([...added, ...kept].map((draft) => [draft.id, draft])),
+            batch: { draftIds: added.map((draft) => draft.id), inventoryNames, generatedAt },
+          };
+        }),
+      clearBatch: () => set({ batch: null }),
+
+      setDraftPreferences: (preferences) => set({ draftPreferences: preferences }),
+      clearDraftPreferences: () => set({ draftPreferences: null }),
+
+      toggleCookStep: (recipeId, step) =>
+        set(({ cookProgress }) => {
+          const completed = cookProgress[recipeId]?.completedSteps ?? [];
+          const completedSteps = completed.includes(step)
+            ? completed.filter((s) => s !== step)
+            : [...completed, step].sort((a, b) => a - b);
+          return {
+            cookProgress: {
+              ...cookProgress,
+              [recipeId]: { completedSteps, updatedAt: new Date().toISOString() },
+            },
+          };
+        }),
+      clearCookProgress: (recipeId) =>
+        set(({ cookProgress }) => {
+          const { [recipeId]: _cleared, ...rest } = cookProgress;
+          return { cookProgress: rest };
+        }),
+
+      updateSettings: (changes) =>
+        set(({ settings }) => ({ settings: { ...settings, ...changes } })),
+
+      resetSession: () =>
+        set({ drafts: {}, batch: null, draftPreferences: null, cookProgress: {} }),
+    }),
+    {
+      name: STORE_KEY,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: ({ drafts, batch, draftPreferences, cookProgress, settings }) => ({
+        drafts,
+        batch,
+        draftPreferences,
+        cookProgress,
+        settings,
+      }),
+      // Settings and preferences added in later versions get their defaults
+      merge: (persisted, current) => {
+        const stored = persisted as Partial<AppState> | undefined;
+        return {
+          ...current,
+          ...stored,
+          draftPreferences: stored?.draftPreferences
+            ? { ...DEFAULT_PREFERENCES, ...stored.draftPreferences }
+            : null,
+          settings: { ...DEFAULT_SETTINGS, ...stored?.settings },
+        };
+      },
+    }
+  )
+);
+
+// Selectors, so screens only re-render for the slice they show
+
+export const selectBatch = (state: AppState) => state.batch;
+
+export const selectDraft = (draftId: string) => (state: AppState) => state.drafts[draftId];
+
+const NO_DRAFTS: DraftRecipe[] = [];
+
+/**
+ * The latest batch's drafts, in the order they were generated. Builds a new array, so
+ * select it with `useShallow`.
+ */
+export const selectBatchDrafts = (state: AppState) =>
+  state.batch?.draftIds.map((id) => state.drafts[id]).filter(Boolean) ?? NO_DRAFTS;
+
+export const selectDraftPreferences = (state: AppState) => state.draftPreferences;
+
+export const selectSettings = (state: AppState) => state.settings;
+
+const NO_STEPS: number[] = [];
+
+export const selectCompletedSteps = (recipeId: number) => (state: AppState) =>
+  state.cookProgress[recipeId]?.completedSteps ?? NO_STEPS;
+
+/** False until the store has been read back from AsyncStorage. */
+export function useAppStoreHydrated() {
+  const [hydrated, setHydrated] = useState(useAppStore.persist.hasHydrated());
+
+  useEffect(() => {
+    const unsubscribe = useAppStore.persist.onFinishHydration(() => setHydrated(true));
+    setHydrated(useAppStore.persist.hasHydrated());
+    return unsubscribe;
+  }, []);
+
+  return hydrated;
+}
+
+/** Formats an amount for display in the unit system picked in settings. */
+export function useFormatQuantity() {
+  const unitSystem = useAppStore((state) => state.settings.unitSystem);
+  return useCallback(
+    (amount: { quantity: number; unit: string }) =>
+      formatQuantity(toUnitSystem(amount, unitSystem)),
+    [unitSystem]
+  );
+}
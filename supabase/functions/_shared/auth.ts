@@ -0,0 +1,18 @@
+import { createClient } from 'npm:@supabase/supabase-js@^2.38.4';
+
+/** The user whose access token is in the request's `Authorization` header, or null. */
+export async function authenticate(req: Request, supabaseUrl: string, anonKey: string) {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) return null;
+
+  const client = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const {
+    data: { user },
+    error,
+  } = await client.auth.getUser(authorization.slice('Bearer '.length));
+
+  return error ? null : user;
+}
@@ -0,0 +1,51 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@^2.38.4';
+
+export interface RateLimiter {
+  /** Records a request for the user. Resolves to false when the user is over the limit. */
+  claim(userId: string): Promise<boolean>;
+}
+
+export class DatabaseRateLimiter implements RateLimiter {
+  constructor(
+    private admin: SupabaseClient,
+    private maxRequests: number,
+    private windowSeconds: number
+  ) {}
+
+  async claim(userId: string) {
+    const { data, error } = await this.admin.rpc('claim_ai_generation', {
+      p_user_id: userId,
+      max_requests: this.maxRequests,
+      window_seconds: this.windowSeconds,
+    });
+    if (error) throw error;
+    return data === true;
+  }
+}
+
+/**
+ * Process-local limiter for running the function outside Supabase during development.
+ * Counts are lost on restart and are not shared between instances.
+ */
+export class MemoryRateLimiter implements RateLimiter {
+  private requests = new Map<string, number[]>();
+
+  constructor(
+    private maxRequests: number,
+    private windowSeconds: number
+  ) {}
+
+  async claim(userId: string) {
+    const cutoff = Date.now() - this.windowSeconds * 1000;
+    const recent = (this.requests.get(userId) ?? []).filter((time) => time > cutoff);
+
+    if (recent.length >= this.maxRequests) {
+      this.requests.set(userId, recent);
+      return false;
+    }
+
+    recent.push(Date.now());
+    this.requests.set(userId, recent);
+    return true;
+  }
+}
@@ -0,0 +1,63 @@
+// Deletes the signed-in user's account: their data in the public schema (see
+// `delete_account_data`), their avatar uploads and finally the auth user itself. Needs the
+// service role key, which deployed functions are given automatically.
+//
+// Deployed:   supabase functions deploy delete-account
+// Local:      supabase functions serve delete-account --env-file supabase/functions/.env
+
+import { createClient } from 'npm:@supabase/supabase-js@^2.38.4';
+import { authenticate } from '../_shared/auth.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? Deno.env.get('EXPO_PUBLIC_SUPABASE_URL');
+const SUPABASE_ANON_KEY =
+  Deno.env.get('SUPABASE_ANON_KEY') ?? Deno.env.get('EXPO_PUBLIC_SUPABASE_ANON_KEY');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+  throw new Error(
+    'delete-account requires SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY'
+  );
+}
+
+const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const user = await authenticate(req, SUPABASE_URL, SUPABASE_ANON_KEY);
+  if (!user) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    // Each step can be repeated, so a failed deletion can simply be retried
+    const { error: dataError } = await admin.rpc('delete_account_data', { p_user_id: user.id });
+    if (dataError) throw dataError;
+
+    const avatars = admin.storage.from('avatars');
+    const { data: uploads, error: listError } = await avatars.list(user.id);
+    if (listError) throw listError;
+    if (uploads.length > 0) {
+      const { error: removeError } = await avatars.remove(
+        uploads.map((upload) => `${user.id}/${upload.name}`)
+      );
+      if (removeError) throw removeError;
+    }
+
+    const { error: userError } = await admin.auth.admin.deleteUser(user.id);
+    if (userError) throw userError;
+
+    return jsonResponse({ deleted: true });
+  } catch (error) {
+    console.error('❌ delete-account failed:', error);
+    return jsonResponse({ error: 'Failed to delete the account.' }, 500);
+  }
+});
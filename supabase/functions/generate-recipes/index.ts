@@ -0,0 +1,104 @@
+// Generates recipes with Gemini on behalf of a signed-in user, so the Google AI key stays
+// on the server. Accepts the same inputs as `AIService.generateRecipes` and responds with
+// the raw `GeneratedRecipe[]` JSON.
+//
+// Deployed:   supabase functions deploy generate-recipes
+// Local:      npm run ai-proxy   (plain Deno, see docs/AI_RECIPES_IMPLEMENTATION.md)
+
+import { GoogleGenAI } from 'npm:@google/genai@^1.13.0';
+import { createClient } from 'npm:@supabase/supabase-js@^2.38.4';
+import { authenticate } from '../_shared/auth.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { DatabaseRateLimiter, MemoryRateLimiter, RateLimiter } from '../_shared/rateLimit.ts';
+import {
+  RecipeGenerationRequest,
+  RecipeSchema,
+  buildRecipePrompt,
+  validateGenerationRequest,
+} from '../_shared/recipes.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? Deno.env.get('EXPO_PUBLIC_SUPABASE_URL');
+const SUPABASE_ANON_KEY =
+  Deno.env.get('SUPABASE_ANON_KEY') ?? Deno.env.get('EXPO_PUBLIC_SUPABASE_ANON_KEY');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const GOOGLE_AI_API_KEY = Deno.env.get('GOOGLE_AI_API_KEY');
+const AI_MODEL = Deno.env.get('AI_MODEL') ?? 'gemini-2.5-flash';
+const RATE_LIMIT_MAX = Number(Deno.env.get('AI_RATE_LIMIT_MAX') ?? 10);
+const RATE_LIMIT_WINDOW_SECONDS = Number(Deno.env.get('AI_RATE_LIMIT_WINDOW_SECONDS') ?? 3600);
+
+if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !GOOGLE_AI_API_KEY) {
+  throw new Error(
+    'generate-recipes requires SUPABASE_URL, SUPABASE_ANON_KEY and GOOGLE_AI_API_KEY'
+  );
+}
+
+const genAI = new GoogleGenAI({ apiKey: GOOGLE_AI_API_KEY });
+
+const rateLimiter: RateLimiter = SUPABASE_SERVICE_ROLE_KEY
+  ? new DatabaseRateLimiter(
+      createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+        auth: { persistSession: false },
+      }),
+      RATE_LIMIT_MAX,
+      RATE_LIMIT_WINDOW_SECONDS
+    )
+  : new MemoryRateLimiter(RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_SECONDS);
+
+if (!SUPABASE_SERVICE_ROLE_KEY) {
+  console.warn('⚠️ SUPABASE_SERVICE_ROLE_KEY not set, using in-memory rate limiting');
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const user = await authenticate(req, SUPABASE_URL!, SUPABASE_ANON_KEY!);
+  if (!user) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Request body must be valid JSON' }, 400);
+  }
+
+  const validationError = validateGenerationRequest(body);
+  if (validationError) {
+    return jsonResponse({ error: validationError }, 400);
+  }
+
+  try {
+    if (!(await rateLimiter.claim(user.id))) {
+      return jsonResponse({ error: 'Too many recipe generations. Please try again later.' }, 429, {
+        'Retry-After': String(RATE_LIMIT_WINDOW_SECONDS),
+      });
+    }
+
+    const request = body as RecipeGenerationRequest;
+    const response = await genAI.models.generateContent({
+      model: AI_MODEL,
+      contents: buildRecipePrompt({ ...request, preferences: request.preferences ?? {} }),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: RecipeSchema,
+      },
+    });
+
+    if (!response.text) {
+      return jsonResponse({ error: 'No response received from AI service.' }, 502);
+    }
+
+    return new Response(response.text, {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('❌ generate-recipes failed:', error);
+    return jsonResponse({ error: 'Failed to generate recipes.' }, 500);
+  }
+});
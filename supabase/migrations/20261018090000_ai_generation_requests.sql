@@ -0,0 +1,48 @@
+-- Per-user rate limiting for the generate-recipes Edge Function.
+-- Rows are written by the function with the service role; clients have no access.
+
+create table if not exists public.ai_generation_requests (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_generation_requests_user_created_idx
+  on public.ai_generation_requests (user_id, created_at desc);
+
+alter table public.ai_generation_requests enable row level security;
+
+-- Records a generation for the user if they are still under `max_requests` within
+-- `window_seconds`. Returns true when the request may proceed.
+create or replace function public.claim_ai_generation(
+  p_user_id uuid,
+  max_requests integer,
+  window_seconds integer
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  recent_count integer;
+begin
+  -- Serialise concurrent claims for the same user so two requests cannot both
+  -- observe a count just under the limit.
+  perform pg_advisory_xact_lock(hashtext(p_user_id::text));
+
+  select count(*) into recent_count
+  from public.ai_generation_requests
+  where user_id = p_user_id
+    and created_at > now() - make_interval(secs => window_seconds);
+
+  if recent_count >= max_requests then
+    return false;
+  end if;
+
+  insert into public.ai_generation_requests (user_id) values (p_user_id);
+  return true;
+end;
+$$;
+
+revoke all on function public.claim_ai_generation(uuid, integer, integer) from public, anon, authenticated;
@@ -0,0 +1,272 @@
+-- Unit conversion for the cook action. Mirrors UNIT_DEFINITIONS and INGREDIENT_DENSITIES
+-- in utils/conversion.ts; keep the seed data in sync with it.
+
+create table if not exists public.unit_definitions (
+  unit text primary key,
+  dimension text not null check (dimension in ('mass', 'volume', 'count')),
+  -- Size of one unit in grams, millilitres or items
+  factor numeric not null,
+  -- Count units only convert within a family: piece, clove, stick or bunch
+  family text
+);
+
+create table if not exists public.ingredient_densities (
+  name text primary key,
+  grams_per_ml numeric,
+  grams_per_piece numeric,
+  grams_per_clove numeric,
+  grams_per_stick numeric,
+  grams_per_bunch numeric
+);
+
+alter table public.unit_definitions enable row level security;
+alter table public.ingredient_densities enable row level security;
+
+create policy "Unit definitions are readable by everyone"
+  on public.unit_definitions for select using (true);
+
+create policy "Ingredient densities are readable by everyone"
+  on public.ingredient_densities for select using (true);
+
+insert into public.unit_definitions (unit, dimension, factor, family) values
+  ('mg', 'mass', 0.001, null),
+  ('g', 'mass', 1, null),
+  ('kg', 'mass', 1000, null),
+  ('oz', 'mass', 28.3495, null),
+  ('lb', 'mass', 453.592, null),
+  ('ml', 'volume', 1, null),
+  ('l', 'volume', 1000, null),
+  ('cup', 'volume', 240, null),
+  ('cups', 'volume', 240, null),
+  ('tbsp', 'volume', 15, null),
+  ('tsp', 'volume', 5, null),
+  ('pinch', 'volume', 0.3, null),
+  ('dash', 'volume', 0.6, null),
+  ('piece', 'count', 1, 'piece'),
+  ('pieces', 'count', 1, 'piece'),
+  ('whole', 'count', 1, 'piece'),
+  ('clove', 'count', 1, 'clove'),
+  ('cloves', 'count', 1, 'clove'),
+  ('stick', 'count', 1, 'stick'),
+  ('bunch', 'count', 1, 'bunch')
+on conflict (unit) do update
+  set dimension = excluded.dimension, factor = excluded.factor, family = excluded.family;
+
+insert into public.ingredient_densities
+  (name, grams_per_ml, grams_per_piece, grams_per_clove, grams_per_stick, grams_per_bunch)
+values
+  ('flour', 0.53, null, null, null, null),
+  ('bread flour', 0.55, null, null, null, null),
+  ('whole wheat flour', 0.51, null, null, null, null),
+  ('sugar', 0.85, null, null, null, null),
+  ('brown sugar', 0.93, null, null, null, null),
+  ('powdered sugar', 0.5, null, null, null, null),
+  ('icing sugar', 0.5, null, null, null, null),
+  ('butter', 0.96, null, null, 113, null),
+  ('rice', 0.78, null, null, null, null),
+  ('oat', 0.38, null, null, null, null),
+  ('cornstarch', 0.54, null, null, null, null),
+  ('cocoa powder', 0.42, null, null, null, null),
+  ('salt', 1.2, null, null, null, null),
+  ('baking powder', 0.9, null, null, null, null),
+  ('baking soda', 0.96, null, null, null, null),
+  ('honey', 1.42, null, null, null, null),
+  ('maple syrup', 1.32, null, null, null, null),
+  ('oil', 0.92, null, null, null, null),
+  ('olive oil', 0.91, null, null, null, null),
+  ('milk', 1.03, null, null, null, null),
+  ('water', 1, null, null, null, null),
+  ('cream', 1.0, null, null, null, null),
+  ('yogurt', 1.03, null, null, null, null),
+  ('cheese', 0.42, null, null, null, null),
+  ('lentil', 0.81, null, null, null, null),
+  ('pasta', 0.42, null, null, null, null),
+  ('egg', null, 50, null, null, null),
+  ('garlic', null, 50, 5, null, null),
+  ('onion', null, 150, null, null, null),
+  ('tomato', null, 120, null, null, null),
+  ('potato', null, 170, null, null, null),
+  ('carrot', null, 60, null, null, null),
+  ('lemon', null, 100, null, null, null),
+  ('lime', null, 65, null, null, null),
+  ('apple', null, 180, null, null, null),
+  ('banana', null, 120, null, null, null),
+  ('bell pepper', null, 150, null, null, null),
+  ('chicken breast', null, 200, null, null, null),
+  ('parsley', null, null, null, null, 50),
+  ('cilantro', null, null, null, null, 50)
+on conflict (name) do update
+  set grams_per_ml = excluded.grams_per_ml,
+      grams_per_piece = excluded.grams_per_piece,
+      grams_per_clove = excluded.grams_per_clove,
+      grams_per_stick = excluded.grams_per_stick,
+      grams_per_bunch = excluded.grams_per_bunch;
+
+-- Lowercases an ingredient name and drops plural "s" endings, so "Eggs" and "egg" compare
+-- equal. A coarser version of normalizeIngredientName in utils/ingredientMatch.ts.
+create or replace function public.normalize_ingredient_name(name text)
+returns text
+language sql
+immutable
+as $$
+  select trim(regexp_replace(
+    regexp_replace(lower(name), '[^a-z ]', ' ', 'g'),
+    '([a-z]{2,}[^s ])s\M', '\1', 'g'
+  ));
+$$;
+
+-- Grams in one base unit (1 ml, or one item of the unit's count family) of an ingredient,
+-- or null when no density is known. The longest density name contained in the
+-- ingredient's name wins, so "brown sugar" beats "sugar".
+create or replace function public.grams_per_base_unit(unit_name text, ingredient text)
+returns numeric
+language sql
+stable
+as $$
+  select case
+    when u.dimension = 'mass' then 1
+    when u.dimension = 'volume' then d.grams_per_ml
+    when u.family = 'piece' then d.grams_per_piece
+    when u.family = 'clove' then d.grams_per_clove
+    when u.family = 'stick' then d.grams_per_stick
+    when u.family = 'bunch' then d.grams_per_bunch
+  end
+  from public.unit_definitions u
+  left join lateral (
+    select *
+    from public.ingredient_densities density
+    where ' ' || public.normalize_ingredient_name(ingredient) || ' '
+      like '% ' || density.name || ' %'
+    order by length(density.name) desc
+    limit 1
+  ) d on true
+  where u.unit = unit_name;
+$$;
+
+-- Converts `amount` of `ingredient` between two units, or returns null when the units
+-- cannot be related. Same rules as convertQuantity in utils/conversion.ts.
+create or replace function public.convert_quantity(
+  amount numeric,
+  from_unit text,
+  to_unit text,
+  ingredient text default ''
+)
+returns numeric
+language plpgsql
+stable
+as $$
+declare
+  source_unit public.unit_definitions;
+  target_unit public.unit_definitions;
+  source_grams numeric;
+  target_grams numeric;
+begin
+  if from_unit = to_unit then
+    return amount;
+  end if;
+
+  select * into source_unit from public.unit_definitions where unit = from_unit;
+  select * into target_unit from public.unit_definitions where unit = to_unit;
+  if source_unit is null or target_unit is null then
+    return null;
+  end if;
+
+  if source_unit.dimension = target_unit.dimension
+    and source_unit.family is not distinct from target_unit.family then
+    return amount * source_unit.factor / target_unit.factor;
+  end if;
+
+  source_grams := public.grams_per_base_unit(from_unit, ingredient);
+  target_grams := public.grams_per_base_unit(to_unit, ingredient);
+  if source_grams is null or target_grams is null then
+    return null;
+  end if;
+
+  return amount * source_unit.factor * source_grams / (target_unit.factor * target_grams);
+end;
+$$;
+
+-- Subtracts a recipe's ingredients from the caller's inventory, converting each recipe
+-- amount into the unit the inventory row is kept in. Nothing is changed unless every
+-- ingredient can be covered. Untracked pantry staples (water, salt, sugar) are skipped.
+create or replace function public.select_recipe_and_subtract_ingredients(recipe_id_to_use bigint)
+returns text
+language plpgsql
+as $$
+declare
+  recipe_ingredients jsonb;
+  recipe_ingredient jsonb;
+  ingredient_name text;
+  inventory_row public.ingredients;
+  needed numeric;
+  -- Inventory id -> amount to subtract, in the inventory row's unit
+  subtractions jsonb := '{}'::jsonb;
+  subtraction record;
+begin
+  select ingredients into recipe_ingredients
+  from public.recipes
+  where id = recipe_id_to_use and user_id = auth.uid();
+
+  if recipe_ingredients is null then
+    return 'Error: Recipe not found';
+  end if;
+
+  for recipe_ingredient in select * from jsonb_array_elements(recipe_ingredients) loop
+    ingredient_name := recipe_ingredient ->> 'name';
+
+    if jsonb_typeof(recipe_ingredient -> 'quantity') <> 'number' then
+      return 'Error: Invalid quantity - ' || ingredient_name;
+    end if;
+
+    select * into inventory_row
+    from public.ingredients
+    where user_id = auth.uid()
+      and public.normalize_ingredient_name(name) = public.normalize_ingredient_name(ingredient_name)
+    limit 1;
+
+    if inventory_row.id is null then
+      if public.normalize_ingredient_name(ingredient_name) in ('water', 'salt', 'sugar') then
+        continue;
+      end if;
+      return 'Error: Missing ingredient - ' || ingredient_name;
+    end if;
+
+    needed := public.convert_quantity(
+      (recipe_ingredient ->> 'quantity')::numeric,
+      recipe_ingredient ->> 'unit',
+      inventory_row.unit,
+      ingredient_name
+    );
+
+    if needed is null then
+      return 'Error: Incompatible units - ' || ingredient_name;
+    end if;
+
+    subtractions := jsonb_set(
+      subtractions,
+      array[inventory_row.id::text],
+      to_jsonb(coalesce((subtractions ->> inventory_row.id::text)::numeric, 0) + needed)
+    );
+  end loop;
+
+  -- Check every row before touching any, so a shortage leaves the inventory unchanged
+  for subtraction in
+    select i.id, i.name, i.quantity, s.value::numeric as amount
+    from jsonb_each_text(subtractions) s
+    join public.ingredients i on i.id = s.key::bigint
+  loop
+    if subtraction.quantity + 0.000001 < subtraction.amount then
+      return 'Error: Insufficient ingredient - ' || subtraction.name;
+    end if;
+  end loop;
+
+  update public.ingredients i
+  set quantity = greatest(i.quantity - s.value::numeric, 0)
+  from jsonb_each_text(subtractions) s
+  where i.id = s.key::bigint;
+
+  update public.recipes set is_used = true where id = recipe_id_to_use;
+
+  return 'Success: Ingredients have been subtracted.';
+end;
+$$;
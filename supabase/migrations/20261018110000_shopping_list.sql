@@ -0,0 +1,30 @@
+-- Items the user needs to buy, usually added from a recipe's shortfall. Checked items
+-- are moved into `ingredients` by the app when the user marks them as bought.
+
+create table if not exists public.shopping_list (
+  id bigint generated always as identity primary key,
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  name text not null,
+  quantity numeric not null check (quantity > 0),
+  unit text not null,
+  checked boolean not null default false,
+  -- The recipe the item was added for, if any
+  recipe_id bigint references public.recipes (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists shopping_list_user_idx on public.shopping_list (user_id, created_at);
+
+alter table public.shopping_list enable row level security;
+
+create policy "Users can view their own shopping list"
+  on public.shopping_list for select using (auth.uid() = user_id);
+
+create policy "Users can add to their own shopping list"
+  on public.shopping_list for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own shopping list"
+  on public.shopping_list for update using (auth.uid() = user_id);
+
+create policy "Users can delete from their own shopping list"
+  on public.shopping_list for delete using (auth.uid() = user_id);
@@ -0,0 +1,10 @@
+-- Optional best-before and opened dates for inventory items, used to surface items that
+-- are expiring soon and to ask generated recipes to use them up first.
+
+alter table public.ingredients
+  add column if not exists expires_on date,
+  add column if not exists opened_on date;
+
+create index if not exists ingredients_user_expires_idx
+  on public.ingredients (user_id, expires_on)
+  where expires_on is not null;
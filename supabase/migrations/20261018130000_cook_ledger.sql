@@ -0,0 +1,218 @@
+-- Ledger of recipe cooks and what each one subtracted, so a cook can be undone and a
+-- recipe can be cooked at a fraction or multiple of its servings.
+
+create table if not exists public.recipe_cooks (
+  id bigint generated always as identity primary key,
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  recipe_id bigint references public.recipes (id) on delete set null,
+  recipe_title text not null,
+  servings_multiplier numeric not null default 1 check (servings_multiplier > 0),
+  cooked_at timestamptz not null default now(),
+  -- Set when the cook is undone and its subtractions restored
+  undone_at timestamptz
+);
+
+create table if not exists public.recipe_cook_items (
+  id bigint generated always as identity primary key,
+  cook_id bigint not null references public.recipe_cooks (id) on delete cascade,
+  ingredient_id bigint references public.ingredients (id) on delete set null,
+  -- Kept so the amount can be restored even if the inventory row has since been deleted
+  ingredient_name text not null,
+  -- Amount subtracted, in the inventory row's unit
+  quantity numeric not null,
+  unit text not null
+);
+
+create index if not exists recipe_cooks_user_cooked_idx
+  on public.recipe_cooks (user_id, cooked_at desc);
+
+create index if not exists recipe_cook_items_cook_idx on public.recipe_cook_items (cook_id);
+
+alter table public.recipe_cooks enable row level security;
+alter table public.recipe_cook_items enable row level security;
+
+create policy "Users can view their own cooks"
+  on public.recipe_cooks for select using (auth.uid() = user_id);
+
+create policy "Users can record their own cooks"
+  on public.recipe_cooks for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own cooks"
+  on public.recipe_cooks for update using (auth.uid() = user_id);
+
+create policy "Users can view their own cook items"
+  on public.recipe_cook_items for select using (
+    exists (
+      select 1 from public.recipe_cooks c where c.id = cook_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can record their own cook items"
+  on public.recipe_cook_items for insert with check (
+    exists (
+      select 1 from public.recipe_cooks c where c.id = cook_id and c.user_id = auth.uid()
+    )
+  );
+
+-- The servings multiplier adds a parameter; drop the old signature so calls with only
+-- `recipe_id_to_use` are not ambiguous between the two.
+drop function if exists public.select_recipe_and_subtract_ingredients(bigint);
+
+-- Subtracts a recipe's ingredients, scaled by `servings_multiplier`, from the caller's
+-- inventory and records the subtractions in the cook ledger. Units are converted into the
+-- unit each inventory row is kept in. Nothing is changed unless every ingredient can be
+-- covered. Untracked pantry staples (water, salt, sugar) are skipped.
+create or replace function public.select_recipe_and_subtract_ingredients(
+  recipe_id_to_use bigint,
+  servings_multiplier numeric default 1
+)
+returns text
+language plpgsql
+as $$
+declare
+  recipe_row public.recipes;
+  recipe_ingredient jsonb;
+  ingredient_name text;
+  inventory_row public.ingredients;
+  needed numeric;
+  -- Inventory id -> amount to subtract, in the inventory row's unit
+  subtractions jsonb := '{}'::jsonb;
+  subtraction record;
+  new_cook_id bigint;
+begin
+  if servings_multiplier is null or servings_multiplier <= 0 then
+    return 'Error: Servings multiplier must be greater than 0';
+  end if;
+
+  select * into recipe_row
+  from public.recipes
+  where id = recipe_id_to_use and user_id = auth.uid();
+
+  if recipe_row.id is null or recipe_row.ingredients is null then
+    return 'Error: Recipe not found';
+  end if;
+
+  for recipe_ingredient in select * from jsonb_array_elements(recipe_row.ingredients) loop
+    ingredient_name := recipe_ingredient ->> 'name';
+
+    if jsonb_typeof(recipe_ingredient -> 'quantity') <> 'number' then
+      return 'Error: Invalid quantity - ' || ingredient_name;
+    end if;
+
+    select * into inventory_row
+    from public.ingredients
+    where user_id = auth.uid()
+      and public.normalize_ingredient_name(name) = public.normalize_ingredient_name(ingredient_name)
+    limit 1;
+
+    if inventory_row.id is null then
+      if public.normalize_ingredient_name(ingredient_name) in ('water', 'salt', 'sugar') then
+        continue;
+      end if;
+      return 'Error: Missing ingredient - ' || ingredient_name;
+    end if;
+
+    needed := public.convert_quantity(
+      (recipe_ingredient ->> 'quantity')::numeric * servings_multiplier,
+      recipe_ingredient ->> 'unit',
+      inventory_row.unit,
+      ingredient_name
+    );
+
+    if needed is null then
+      return 'Error: Incompatible units - ' || ingredient_name;
+    end if;
+
+    subtractions := jsonb_set(
+      subtractions,
+      array[inventory_row.id::text],
+      to_jsonb(coalesce((subtractions ->> inventory_row.id::text)::numeric, 0) + needed)
+    );
+  end loop;
+
+  -- Check every row before touching any, so a shortage leaves the inventory unchanged
+  for subtraction in
+    select i.id, i.name, i.quantity, s.value::numeric as amount
+    from jsonb_each_text(subtractions) s
+    join public.ingredients i on i.id = s.key::bigint
+  loop
+    if subtraction.quantity + 0.000001 < subtraction.amount then
+      return 'Error: Insufficient ingredient - ' || subtraction.name;
+    end if;
+  end loop;
+
+  insert into public.recipe_cooks (user_id, recipe_id, recipe_title, servings_multiplier)
+  values (auth.uid(), recipe_row.id, recipe_row.title, servings_multiplier)
+  returning id into new_cook_id;
+
+  -- Record what is actually taken, which can be a hair less than asked for after rounding
+  insert into public.recipe_cook_items (cook_id, ingredient_id, ingredient_name, quantity, unit)
+  select new_cook_id, i.id, i.name, least(i.quantity, s.value::numeric), i.unit
+  from jsonb_each_text(subtractions) s
+  join public.ingredients i on i.id = s.key::bigint;
+
+  update public.ingredients i
+  set quantity = greatest(i.quantity - s.value::numeric, 0)
+  from jsonb_each_text(subtractions) s
+  where i.id = s.key::bigint;
+
+  update public.recipes set is_used = true where id = recipe_id_to_use;
+
+  return 'Success: Ingredients have been subtracted.';
+end;
+$$;
+
+-- Restores everything the caller's most recent cook subtracted, in one transaction.
+-- Ingredients deleted since the cook are recreated with the restored amount.
+create or replace function public.undo_last_cook()
+returns text
+language plpgsql
+as $$
+declare
+  cook public.recipe_cooks;
+  item public.recipe_cook_items;
+begin
+  select * into cook
+  from public.recipe_cooks
+  where user_id = auth.uid() and undone_at is null
+  order by cooked_at desc
+  limit 1
+  for update;
+
+  if cook.id is null then
+    return 'Error: Nothing to undo';
+  end if;
+
+  for item in select * from public.recipe_cook_items where cook_id = cook.id loop
+    update public.ingredients
+    set quantity = quantity + item.quantity
+    where id = item.ingredient_id and user_id = auth.uid();
+
+    if not found then
+      insert into public.ingredients (user_id, name, quantity, unit)
+      values (auth.uid(), item.ingredient_name, item.quantity, item.unit)
+      on conflict on constraint unique_ingredient_for_user
+      -- A row recreated under the same name may use another unit
+      do update set quantity = public.ingredients.quantity + coalesce(
+        public.convert_quantity(
+          excluded.quantity, excluded.unit, public.ingredients.unit, excluded.name
+        ),
+        0
+      );
+    end if;
+  end loop;
+
+  update public.recipe_cooks set undone_at = now() where id = cook.id;
+
+  -- The recipe can be cooked again unless another cook of it still stands
+  update public.recipes r
+  set is_used = false
+  where r.id = cook.recipe_id
+    and not exists (
+      select 1 from public.recipe_cooks c
+      where c.recipe_id = r.id and c.undone_at is null
+    );
+
+  return 'Success: Restored the ingredients used for ' || cook.recipe_title || '.';
+end;
+$$;
@@ -0,0 +1,287 @@
+-- Append-only history of every change to `ingredients`, written by a trigger so that the
+-- inventory screen, the cook RPC and the shopping list are all covered. Functions that
+-- change the inventory for a specific reason tag it with `app.inventory_event`.
+
+create table if not exists public.inventory_events (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  -- Not a foreign key: history outlives the inventory row
+  ingredient_id bigint not null,
+  ingredient_name text not null,
+  event_type text not null
+    check (event_type in ('added', 'edited', 'cooked', 'restored', 'discarded', 'bought')),
+  -- Signed change in `unit`; null when an edit switched to a unit that doesn't convert
+  quantity_change numeric,
+  quantity_after numeric not null,
+  unit text not null,
+  recipe_cook_id bigint references public.recipe_cooks (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists inventory_events_user_created_idx
+  on public.inventory_events (user_id, created_at desc);
+
+create index if not exists inventory_events_ingredient_idx
+  on public.inventory_events (ingredient_id, created_at desc);
+
+-- Clients may only read; rows are written by the trigger below
+alter table public.inventory_events enable row level security;
+
+create policy "Users can view their own inventory events"
+  on public.inventory_events for select using (auth.uid() = user_id);
+
+create or replace function public.log_inventory_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tagged_event text := nullif(current_setting('app.inventory_event', true), '');
+  cook_id bigint := nullif(current_setting('app.recipe_cook_id', true), '')::bigint;
+  previous_quantity numeric;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.inventory_events
+      (user_id, ingredient_id, ingredient_name, event_type, quantity_change, quantity_after, unit, recipe_cook_id)
+    values
+      (new.user_id, new.id, new.name, coalesce(tagged_event, 'added'), new.quantity, new.quantity, new.unit, cook_id);
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    -- Rows removed because the whole profile is being deleted leave no history
+    if not exists (select 1 from public.profiles where id = old.user_id) then
+      return old;
+    end if;
+
+    insert into public.inventory_events
+      (user_id, ingredient_id, ingredient_name, event_type, quantity_change, quantity_after, unit, recipe_cook_id)
+    values
+      (old.user_id, old.id, old.name, coalesce(tagged_event, 'discarded'), -old.quantity, 0, old.unit, cook_id);
+    return old;
+  end if;
+
+  -- Changes to expiry dates alone are not inventory movements
+  if new.quantity = old.quantity and new.unit = old.unit and new.name = old.name then
+    return new;
+  end if;
+
+  previous_quantity := public.convert_quantity(old.quantity, old.unit, new.unit, new.name);
+
+  insert into public.inventory_events
+    (user_id, ingredient_id, ingredient_name, event_type, quantity_change, quantity_after, unit, recipe_cook_id)
+  values
+    (new.user_id, new.id, new.name, coalesce(tagged_event, 'edited'), new.quantity - previous_quantity, new.quantity, new.unit, cook_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists ingredients_log_event on public.ingredients;
+
+create trigger ingredients_log_event
+  after insert or update or delete on public.ingredients
+  for each row execute function public.log_inventory_event();
+
+-- How much of each ingredient the user's cooks used per month, net of undone cooks
+create or replace view public.inventory_monthly_usage
+with (security_invoker = true)
+as
+select
+  user_id,
+  ingredient_name,
+  unit,
+  date_trunc('month', created_at)::date as month,
+  -sum(quantity_change) as quantity_used
+from public.inventory_events
+where event_type in ('cooked', 'restored') and quantity_change is not null
+group by user_id, ingredient_name, unit, date_trunc('month', created_at);
+
+-- Sets a bought item's inventory row to `p_quantity` of `p_unit`, creating it if needed.
+-- The app works out the merged amount; this only tags the change as a purchase.
+create or replace function public.record_bought_ingredient(
+  p_name text,
+  p_quantity numeric,
+  p_unit text
+)
+returns void
+language plpgsql
+as $$
+begin
+  perform set_config('app.inventory_event', 'bought', true);
+
+  insert into public.ingredients (user_id, name, quantity, unit)
+  values (auth.uid(), p_name, p_quantity, p_unit)
+  on conflict on constraint unique_ingredient_for_user
+  do update set quantity = excluded.quantity, unit = excluded.unit;
+end;
+$$;
+
+-- The cook and undo functions from the cook ledger migration, now tagging their changes
+-- as 'cooked' and 'restored' with the cook they belong to.
+
+-- Subtracts a recipe's ingredients, scaled by `servings_multiplier`, from the caller's
+-- inventory and records the subtractions in the cook ledger. Units are converted into the
+-- unit each inventory row is kept in. Nothing is changed unless every ingredient can be
+-- covered. Untracked pantry staples (water, salt, sugar) are skipped.
+create or replace function public.select_recipe_and_subtract_ingredients(
+  recipe_id_to_use bigint,
+  servings_multiplier numeric default 1
+)
+returns text
+language plpgsql
+as $$
+declare
+  recipe_row public.recipes;
+  recipe_ingredient jsonb;
+  ingredient_name text;
+  inventory_row public.ingredients;
+  needed numeric;
+  -- Inventory id -> amount to subtract, in the inventory row's unit
+  subtractions jsonb := '{}'::jsonb;
+  subtraction record;
+  new_cook_id bigint;
+begin
+  if servings_multiplier is null or servings_multiplier <= 0 then
+    return 'Error: Servings multiplier must be greater than 0';
+  end if;
+
+  select * into recipe_row
+  from public.recipes
+  where id = recipe_id_to_use and user_id = auth.uid();
+
+  if recipe_row.id is null or recipe_row.ingredients is null then
+    return 'Error: Recipe not found';
+  end if;
+
+  for recipe_ingredient in select * from jsonb_array_elements(recipe_row.ingredients) loop
+    ingredient_name := recipe_ingredient ->> 'name';
+
+    if jsonb_typeof(recipe_ingredient -> 'quantity') <> 'number' then
+      return 'Error: Invalid quantity - ' || ingredient_name;
+    end if;
+
+    select * into inventory_row
+    from public.ingredients
+    where user_id = auth.uid()
+      and public.normalize_ingredient_name(name) = public.normalize_ingredient_name(ingredient_name)
+    limit 1;
+
+    if inventory_row.id is null then
+      if public.normalize_ingredient_name(ingredient_name) in ('water', 'salt', 'sugar') then
+        continue;
+      end if;
+      return 'Error: Missing ingredient - ' || ingredient_name;
+    end if;
+
+    needed := public.convert_quantity(
+      (recipe_ingredient ->> 'quantity')::numeric * servings_multiplier,
+      recipe_ingredient ->> 'unit',
+      inventory_row.unit,
+      ingredient_name
+    );
+
+    if needed is null then
+      return 'Error: Incompatible units - ' || ingredient_name;
+    end if;
+
+    subtractions := jsonb_set(
+      subtractions,
+      array[inventory_row.id::text],
+      to_jsonb(coalesce((subtractions ->> inventory_row.id::text)::numeric, 0) + needed)
+    );
+  end loop;
+
+  -- Check every row before touching any, so a shortage leaves the inventory unchanged
+  for subtraction in
+    select i.id, i.name, i.quantity, s.value::numeric as amount
+    from jsonb_each_text(subtractions) s
+    join public.ingredients i on i.id = s.key::bigint
+  loop
+    if subtraction.quantity + 0.000001 < subtraction.amount then
+      return 'Error: Insufficient ingredient - ' || subtraction.name;
+    end if;
+  end loop;
+
+  insert into public.recipe_cooks (user_id, recipe_id, recipe_title, servings_multiplier)
+  values (auth.uid(), recipe_row.id, recipe_row.title, servings_multiplier)
+  returning id into new_cook_id;
+
+  -- Tag the inventory changes below for the `inventory_events` trigger
+  perform set_config('app.inventory_event', 'cooked', true);
+  perform set_config('app.recipe_cook_id', new_cook_id::text, true);
+
+  -- Record what is actually taken, which can be a hair less than asked for after rounding
+  insert into public.recipe_cook_items (cook_id, ingredient_id, ingredient_name, quantity, unit)
+  select new_cook_id, i.id, i.name, least(i.quantity, s.value::numeric), i.unit
+  from jsonb_each_text(subtractions) s
+  join public.ingredients i on i.id = s.key::bigint;
+
+  update public.ingredients i
+  set quantity = greatest(i.quantity - s.value::numeric, 0)
+  from jsonb_each_text(subtractions) s
+  where i.id = s.key::bigint;
+
+  update public.recipes set is_used = true where id = recipe_id_to_use;
+
+  return 'Success: Ingredients have been subtracted.';
+end;
+$$;
+
+-- Restores everything the caller's most recent cook subtracted, in one transaction.
+-- Ingredients deleted since the cook are recreated with the restored amount.
+create or replace function public.undo_last_cook()
+returns text
+language plpgsql
+as $$
+declare
+  cook public.recipe_cooks;
+  item public.recipe_cook_items;
+begin
+  select * into cook
+  from public.recipe_cooks
+  where user_id = auth.uid() and undone_at is null
+  order by cooked_at desc
+  limit 1
+  for update;
+
+  if cook.id is null then
+    return 'Error: Nothing to undo';
+  end if;
+
+  perform set_config('app.inventory_event', 'restored', true);
+  perform set_config('app.recipe_cook_id', cook.id::text, true);
+
+  for item in select * from public.recipe_cook_items where cook_id = cook.id loop
+    update public.ingredients
+    set quantity = quantity + item.quantity
+    where id = item.ingredient_id and user_id = auth.uid();
+
+    if not found then
+      insert into public.ingredients (user_id, name, quantity, unit)
+      values (auth.uid(), item.ingredient_name, item.quantity, item.unit)
+      on conflict on constraint unique_ingredient_for_user
+      -- A row recreated under the same name may use another unit
+      do update set quantity = public.ingredients.quantity + coalesce(
+        public.convert_quantity(
+          excluded.quantity, excluded.unit, public.ingredients.unit, excluded.name
+        ),
+        0
+      );
+    end if;
+  end loop;
+
+  update public.recipe_cooks set undone_at = now() where id = cook.id;
+
+  -- The recipe can be cooked again unless another cook of it still stands
+  update public.recipes r
+  set is_used = false
+  where r.id = cook.recipe_id
+    and not exists (
+      select 1 from public.recipe_cooks c
+      where c.recipe_id = r.id and c.undone_at is null
+    );
+
+  return 'Success: Restored the ingredients used for ' || cook.recipe_title || '.';
+end;
+$$;
@@ -0,0 +1,34 @@
+-- Edits made offline are replayed once the app reconnects. Before replaying, the app
+-- compares the `updated_at` it last saw with the server's to tell whether the row was
+-- changed elsewhere in the meantime (another device, or a cook subtracting quantities).
+
+alter table public.ingredients
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.utensils
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.recipes
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger ingredients_touch_updated_at
+  before update on public.ingredients
+  for each row execute function public.touch_updated_at();
+
+create trigger utensils_touch_updated_at
+  before update on public.utensils
+  for each row execute function public.touch_updated_at();
+
+create trigger recipes_touch_updated_at
+  before update on public.recipes
+  for each row execute function public.touch_updated_at();
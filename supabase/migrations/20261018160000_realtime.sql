@@ -0,0 +1,6 @@
+-- Broadcast changes to the user's kitchen so every device they're signed in on updates
+-- live. Realtime applies RLS to inserts and updates, so subscribers only get their own.
+-- Deletes can't be checked against RLS and arrive with just the primary key.
+
+alter publication supabase_realtime
+  add table public.ingredients, public.utensils, public.recipes, public.user_preferences;
@@ -0,0 +1,725 @@
+-- Households share one kitchen: their members see and edit the same ingredients, utensils
+-- and recipes. Every user gets a personal household and can create or join others with an
+-- invite code; `profiles.active_household_id` picks the one the app shows, and RLS scopes
+-- the kitchen tables to it. Preferences and the shopping list stay personal.
+
+create table if not exists public.households (
+  id bigint generated always as identity primary key,
+  name text not null check (length(trim(name)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.household_members (
+  household_id bigint not null references public.households (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  -- Owners manage members and invites; every member edits the kitchen
+  role text not null default 'member' check (role in ('owner', 'member')),
+  joined_at timestamptz not null default now(),
+  primary key (household_id, user_id)
+);
+
+create index if not exists household_members_user_idx on public.household_members (user_id);
+
+create table if not exists public.household_invites (
+  id bigint generated always as identity primary key,
+  household_id bigint not null references public.households (id) on delete cascade,
+  -- Single use: accepting an invite deletes it
+  code text not null unique,
+  created_by uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  expires_at timestamptz not null default now() + interval '7 days',
+  created_at timestamptz not null default now()
+);
+
+alter table public.profiles
+  add column if not exists active_household_id bigint
+    references public.households (id) on delete set null;
+
+-- Membership checks for RLS. Security definer so policies on `household_members` can use
+-- them without recursing into themselves.
+create or replace function public.is_household_member(p_household_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.household_members
+    where household_id = p_household_id and user_id = auth.uid()
+  );
+$$;
+
+create or replace function public.is_household_owner(p_household_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.household_members
+    where household_id = p_household_id and user_id = auth.uid() and role = 'owner'
+  );
+$$;
+
+-- The caller's active household, or null if they aren't a member of it. Checking
+-- membership here means setting `active_household_id` by hand grants nothing.
+create or replace function public.current_household_id()
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.active_household_id
+  from public.profiles p
+  join public.household_members m
+    on m.household_id = p.active_household_id and m.user_id = p.id
+  where p.id = auth.uid();
+$$;
+
+-- Creates a household owned by `p_user_id` and makes it their active one. Internal:
+-- clients go through `create_household`, which always passes the caller.
+create or replace function public.create_household_for(p_user_id uuid, p_name text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_household_id bigint;
+begin
+  insert into public.households (name) values (trim(p_name)) returning id into new_household_id;
+
+  insert into public.household_members (household_id, user_id, role)
+  values (new_household_id, p_user_id, 'owner');
+
+  update public.profiles set active_household_id = new_household_id where id = p_user_id;
+  return new_household_id;
+end;
+$$;
+
+revoke execute on function public.create_household_for(uuid, text) from public, anon, authenticated;
+
+create or replace function public.create_personal_household()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.create_household_for(
+    new.id,
+    coalesce(nullif(trim(new.full_name), '') || '''s Kitchen', 'My Kitchen')
+  );
+  return new;
+end;
+$$;
+
+create trigger profiles_create_household
+  after insert on public.profiles
+  for each row execute function public.create_personal_household();
+
+-- Existing users start in a personal household holding everything they already have
+select public.create_household_for(
+  id,
+  coalesce(nullif(trim(full_name), '') || '''s Kitchen', 'My Kitchen')
+)
+from public.profiles
+where active_household_id is null;
+
+do $$
+declare
+  kitchen_table text;
+begin
+  foreach kitchen_table in array
+    array['ingredients', 'utensils', 'recipes', 'recipe_cooks', 'inventory_events']
+  loop
+    execute format(
+      'alter table public.%I add column if not exists household_id bigint '
+        'references public.households (id) on delete cascade',
+      kitchen_table
+    );
+    execute format(
+      'update public.%I t set household_id = p.active_household_id '
+        'from public.profiles p where p.id = t.user_id and t.household_id is null',
+      kitchen_table
+    );
+    execute format(
+      'alter table public.%I alter column household_id set not null, '
+        'alter column household_id set default public.current_household_id()',
+      kitchen_table
+    );
+    execute format(
+      'create index if not exists %I on public.%I (household_id)',
+      kitchen_table || '_household_idx',
+      kitchen_table
+    );
+  end loop;
+end;
+$$;
+
+-- Names are unique per kitchen now, not per person: two members adding eggs share a row
+alter table public.ingredients drop constraint if exists unique_ingredient_for_user;
+alter table public.ingredients
+  add constraint unique_ingredient_for_household unique (household_id, name);
+
+alter table public.utensils drop constraint if exists unique_utensil_for_user;
+alter table public.utensils
+  add constraint unique_utensil_for_household unique (household_id, name);
+
+-- Replace the per-user policies. Some predate these migrations, so look them up by table.
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname, tablename
+    from pg_policies
+    where schemaname = 'public'
+      and tablename in (
+        'ingredients', 'utensils', 'recipes', 'recipe_cooks', 'recipe_cook_items', 'inventory_events'
+      )
+  loop
+    execute format('drop policy %I on public.%I', policy.policyname, policy.tablename);
+  end loop;
+end;
+$$;
+
+create policy "Members can manage their household's ingredients"
+  on public.ingredients for all
+  using (household_id = (select public.current_household_id()))
+  with check (household_id = (select public.current_household_id()));
+
+create policy "Members can manage their household's utensils"
+  on public.utensils for all
+  using (household_id = (select public.current_household_id()))
+  with check (household_id = (select public.current_household_id()));
+
+create policy "Members can manage their household's recipes"
+  on public.recipes for all
+  using (household_id = (select public.current_household_id()))
+  with check (household_id = (select public.current_household_id()));
+
+create policy "Members can view their household's cooks"
+  on public.recipe_cooks for select
+  using (household_id = (select public.current_household_id()));
+
+create policy "Members can record cooks in their household"
+  on public.recipe_cooks for insert
+  with check (
+    household_id = (select public.current_household_id()) and user_id = auth.uid()
+  );
+
+create policy "Members can update their household's cooks"
+  on public.recipe_cooks for update
+  using (household_id = (select public.current_household_id()));
+
+create policy "Members can view their household's cook items"
+  on public.recipe_cook_items for select
+  using (
+    exists (
+      select 1 from public.recipe_cooks c
+      where c.id = cook_id and c.household_id = (select public.current_household_id())
+    )
+  );
+
+create policy "Members can record their household's cook items"
+  on public.recipe_cook_items for insert
+  with check (
+    exists (
+      select 1 from public.recipe_cooks c
+      where c.id = cook_id and c.household_id = (select public.current_household_id())
+    )
+  );
+
+create policy "Members can view their household's inventory events"
+  on public.inventory_events for select
+  using (household_id = (select public.current_household_id()));
+
+-- Households are created, joined and left through the functions below
+alter table public.households enable row level security;
+alter table public.household_members enable row level security;
+alter table public.household_invites enable row level security;
+
+create policy "Members can view their households"
+  on public.households for select using (public.is_household_member(id));
+
+create policy "Owners can rename their households"
+  on public.households for update using (public.is_household_owner(id));
+
+create policy "Members can view who else is in their households"
+  on public.household_members for select using (public.is_household_member(household_id));
+
+create policy "Owners can view their households' invites"
+  on public.household_invites for select using (public.is_household_owner(household_id));
+
+create policy "Owners can revoke their households' invites"
+  on public.household_invites for delete using (public.is_household_owner(household_id));
+
+-- Creates a household owned by the caller and switches to it
+create or replace function public.create_household(p_name text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+  return public.create_household_for(auth.uid(), p_name);
+end;
+$$;
+
+create or replace function public.switch_household(p_household_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_household_member(p_household_id) then
+    raise exception 'Not a member of this household';
+  end if;
+  update public.profiles set active_household_id = p_household_id where id = auth.uid();
+end;
+$$;
+
+-- Returns a new single-use code that lets someone join the household
+create or replace function public.create_household_invite(p_household_id bigint)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite_code text;
+begin
+  if not public.is_household_owner(p_household_id) then
+    raise exception 'Only owners can invite members';
+  end if;
+
+  -- Unambiguous to read out: no 0/O or 1/I
+  invite_code := translate(upper(substr(md5(random()::text || clock_timestamp()::text), 1, 8)), '01', '89');
+
+  insert into public.household_invites (household_id, code)
+  values (p_household_id, invite_code);
+  return invite_code;
+end;
+$$;
+
+-- Joins the household an invite code belongs to and switches to it
+create or replace function public.accept_household_invite(p_code text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.household_invites;
+  household_name text;
+begin
+  delete from public.household_invites
+  where code = upper(trim(p_code)) and expires_at > now()
+  returning * into invite;
+
+  if invite.id is null then
+    return 'Error: That invite code is invalid or has expired';
+  end if;
+
+  select name into household_name from public.households where id = invite.household_id;
+
+  if public.is_household_member(invite.household_id) then
+    return 'Error: You are already a member of ' || household_name;
+  end if;
+
+  insert into public.household_members (household_id, user_id, role)
+  values (invite.household_id, auth.uid(), 'member');
+
+  update public.profiles set active_household_id = invite.household_id where id = auth.uid();
+
+  return 'Success: You joined ' || household_name || '.';
+end;
+$$;
+
+-- Members and their names; profiles are otherwise private to their owner
+create or replace function public.list_household_members(p_household_id bigint)
+returns table (
+  user_id uuid,
+  full_name text,
+  avatar_url text,
+  role text,
+  joined_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_household_member(p_household_id) then
+    raise exception 'Not a member of this household';
+  end if;
+
+  return query
+  select m.user_id, p.full_name, p.avatar_url, m.role, m.joined_at
+  from public.household_members m
+  join public.profiles p on p.id = m.user_id
+  where m.household_id = p_household_id
+  order by m.joined_at;
+end;
+$$;
+
+-- Makes a member an owner or back. A household always keeps at least one owner.
+create or replace function public.set_household_role(
+  p_household_id bigint,
+  p_user_id uuid,
+  p_role text
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_household_owner(p_household_id) then
+    return 'Error: Only owners can change roles';
+  end if;
+
+  if p_role = 'member' and (
+    select count(*) from public.household_members
+    where household_id = p_household_id and role = 'owner' and user_id <> p_user_id
+  ) = 0 then
+    return 'Error: A household needs at least one owner';
+  end if;
+
+  update public.household_members
+  set role = p_role
+  where household_id = p_household_id and user_id = p_user_id;
+
+  return 'Success: Role updated.';
+end;
+$$;
+
+-- Removes the caller, or another member if the caller is an owner. Whoever is removed
+-- is switched to another of their households if this was their active one, or given a
+-- new personal household if they have no other.
+create or replace function public.leave_household(
+  p_household_id bigint,
+  p_user_id uuid default auth.uid()
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  member_role text;
+  fallback_household_id bigint;
+begin
+  if p_user_id <> auth.uid() and not public.is_household_owner(p_household_id) then
+    return 'Error: Only owners can remove members';
+  end if;
+
+  select role into member_role
+  from public.household_members
+  where household_id = p_household_id and user_id = p_user_id;
+
+  if member_role is null then
+    return 'Error: Not a member of this household';
+  end if;
+
+  select household_id into fallback_household_id
+  from public.household_members
+  where user_id = p_user_id and household_id <> p_household_id
+  order by joined_at
+  limit 1;
+
+  if not exists (
+    select 1 from public.household_members
+    where household_id = p_household_id and user_id <> p_user_id
+  ) then
+    if fallback_household_id is null then
+      return 'Error: You can''t leave your only household';
+    end if;
+  elsif member_role = 'owner' and not exists (
+    select 1 from public.household_members
+    where household_id = p_household_id and role = 'owner' and user_id <> p_user_id
+  ) then
+    return 'Error: Make another member an owner first';
+  end if;
+
+  delete from public.household_members
+  where household_id = p_household_id and user_id = p_user_id;
+
+  -- Nobody left to see it
+  delete from public.households h
+  where h.id = p_household_id
+    and not exists (select 1 from public.household_members m where m.household_id = h.id);
+
+  if fallback_household_id is null then
+    perform public.create_household_for(p_user_id, 'My Kitchen');
+  else
+    update public.profiles
+    set active_household_id = fallback_household_id
+    where id = p_user_id
+      and (active_household_id = p_household_id or active_household_id is null);
+  end if;
+
+  return 'Success: Left the household.';
+end;
+$$;
+
+-- The functions below are those from the inventory events migration, now scoped to the
+-- caller's active household instead of the caller.
+
+create or replace function public.log_inventory_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tagged_event text := nullif(current_setting('app.inventory_event', true), '');
+  cook_id bigint := nullif(current_setting('app.recipe_cook_id', true), '')::bigint;
+  previous_quantity numeric;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.inventory_events
+      (user_id, household_id, ingredient_id, ingredient_name, event_type, quantity_change, quantity_after, unit, recipe_cook_id)
+    values
+      (new.user_id, new.household_id, new.id, new.name, coalesce(tagged_event, 'added'), new.quantity, new.quantity, new.unit, cook_id);
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    -- Rows removed because the whole profile or household is being deleted leave no history
+    if not exists (select 1 from public.profiles where id = old.user_id)
+      or not exists (select 1 from public.households where id = old.household_id) then
+      return old;
+    end if;
+
+    insert into public.inventory_events
+      (user_id, household_id, ingredient_id, ingredient_name, event_type, quantity_change, quantity_after, unit, recipe_cook_id)
+    values
+      (old.user_id, old.household_id, old.id, old.name, coalesce(tagged_event, 'discarded'), -old.quantity, 0, old.unit, cook_id);
+    return old;
+  end if;
+
+  -- Changes to expiry dates alone are not inventory movements
+  if new.quantity = old.quantity and new.unit = old.unit and new.name = old.name then
+    return new;
+  end if;
+
+  previous_quantity := public.convert_quantity(old.quantity, old.unit, new.unit, new.name);
+
+  insert into public.inventory_events
+    (user_id, household_id, ingredient_id, ingredient_name, event_type, quantity_change, quantity_after, unit, recipe_cook_id)
+  values
+    (new.user_id, new.household_id, new.id, new.name, coalesce(tagged_event, 'edited'), new.quantity - previous_quantity, new.quantity, new.unit, cook_id);
+  return new;
+end;
+$$;
+
+drop view if exists public.inventory_monthly_usage;
+
+-- How much of each ingredient the household's cooks used per month, net of undone cooks
+create view public.inventory_monthly_usage
+with (security_invoker = true)
+as
+select
+  household_id,
+  ingredient_name,
+  unit,
+  date_trunc('month', created_at)::date as month,
+  -sum(quantity_change) as quantity_used
+from public.inventory_events
+where event_type in ('cooked', 'restored') and quantity_change is not null
+group by household_id, ingredient_name, unit, date_trunc('month', created_at);
+
+-- Sets a bought item's inventory row to `p_quantity` of `p_unit`, creating it if needed.
+-- The app works out the merged amount; this only tags the change as a purchase.
+create or replace function public.record_bought_ingredient(
+  p_name text,
+  p_quantity numeric,
+  p_unit text
+)
+returns void
+language plpgsql
+as $$
+begin
+  perform set_config('app.inventory_event', 'bought', true);
+
+  insert into public.ingredients (user_id, name, quantity, unit)
+  values (auth.uid(), p_name, p_quantity, p_unit)
+  on conflict on constraint unique_ingredient_for_household
+  do update set quantity = excluded.quantity, unit = excluded.unit;
+end;
+$$;
+
+-- Subtracts a recipe's ingredients, scaled by `servings_multiplier`, from the household's
+-- inventory and records the subtractions in the cook ledger. Units are converted into the
+-- unit each inventory row is kept in. Nothing is changed unless every ingredient can be
+-- covered. Untracked pantry staples (water, salt, sugar) are skipped.
+create or replace function public.select_recipe_and_subtract_ingredients(
+  recipe_id_to_use bigint,
+  servings_multiplier numeric default 1
+)
+returns text
+language plpgsql
+as $$
+declare
+  recipe_row public.recipes;
+  recipe_ingredient jsonb;
+  ingredient_name text;
+  inventory_row public.ingredients;
+  needed numeric;
+  -- Inventory id -> amount to subtract, in the inventory row's unit
+  subtractions jsonb := '{}'::jsonb;
+  subtraction record;
+  new_cook_id bigint;
+begin
+  if servings_multiplier is null or servings_multiplier <= 0 then
+    return 'Error: Servings multiplier must be greater than 0';
+  end if;
+
+  select * into recipe_row
+  from public.recipes
+  where id = recipe_id_to_use and household_id = public.current_household_id();
+
+  if recipe_row.id is null or recipe_row.ingredients is null then
+    return 'Error: Recipe not found';
+  end if;
+
+  for recipe_ingredient in select * from jsonb_array_elements(recipe_row.ingredients) loop
+    ingredient_name := recipe_ingredient ->> 'name';
+
+    if jsonb_typeof(recipe_ingredient -> 'quantity') <> 'number' then
+      return 'Error: Invalid quantity - ' || ingredient_name;
+    end if;
+
+    select * into inventory_row
+    from public.ingredients
+    where household_id = public.current_household_id()
+      and public.normalize_ingredient_name(name) = public.normalize_ingredient_name(ingredient_name)
+    limit 1;
+
+    if inventory_row.id is null then
+      if public.normalize_ingredient_name(ingredient_name) in ('water', 'salt', 'sugar') then
+        continue;
+      end if;
+      return 'Error: Missing ingredient - ' || ingredient_name;
+    end if;
+
+    needed := public.convert_quantity(
+      (recipe_ingredient ->> 'quantity')::numeric * servings_multiplier,
+      recipe_ingredient ->> 'unit',
+      inventory_row.unit,
+      ingredient_name
+    );
+
+    if needed is null then
+      return 'Error: Incompatible units - ' || ingredient_name;
+    end if;
+
+    subtractions := jsonb_set(
+      subtractions,
+      array[inventory_row.id::text],
+      to_jsonb(coalesce((subtractions ->> inventory_row.id::text)::numeric, 0) + needed)
+    );
+  end loop;
+
+  -- Check every row before touching any, so a shortage leaves the inventory unchanged
+  for subtraction in
+    select i.id, i.name, i.quantity, s.value::numeric as amount
+    from jsonb_each_text(subtractions) s
+    join public.ingredients i on i.id = s.key::bigint
+  loop
+    if subtraction.quantity + 0.000001 < subtraction.amount then
+      return 'Error: Insufficient ingredient - ' || subtraction.name;
+    end if;
+  end loop;
+
+  insert into public.recipe_cooks (user_id, recipe_id, recipe_title, servings_multiplier)
+  values (auth.uid(), recipe_row.id, recipe_row.title, servings_multiplier)
+  returning id into new_cook_id;
+
+  -- Tag the inventory changes below for the `inventory_events` trigger
+  perform set_config('app.inventory_event', 'cooked', true);
+  perform set_config('app.recipe_cook_id', new_cook_id::text, true);
+
+  -- Record what is actually taken, which can be a hair less than asked for after rounding
+  insert into public.recipe_cook_items (cook_id, ingredient_id, ingredient_name, quantity, unit)
+  select new_cook_id, i.id, i.name, least(i.quantity, s.value::numeric), i.unit
+  from jsonb_each_text(subtractions) s
+  join public.ingredients i on i.id = s.key::bigint;
+
+  update public.ingredients i
+  set quantity = greatest(i.quantity - s.value::numeric, 0)
+  from jsonb_each_text(subtractions) s
+  where i.id = s.key::bigint;
+
+  update public.recipes set is_used = true where id = recipe_id_to_use;
+
+  return 'Success: Ingredients have been subtracted.';
+end;
+$$;
+
+-- Restores everything the household's most recent cook subtracted, in one transaction.
+-- Ingredients deleted since the cook are recreated with the restored amount.
+create or replace function public.undo_last_cook()
+returns text
+language plpgsql
+as $$
+declare
+  cook public.recipe_cooks;
+  item public.recipe_cook_items;
+begin
+  select * into cook
+  from public.recipe_cooks
+  where household_id = public.current_household_id() and undone_at is null
+  order by cooked_at desc
+  limit 1
+  for update;
+
+  if cook.id is null then
+    return 'Error: Nothing to undo';
+  end if;
+
+  perform set_config('app.inventory_event', 'restored', true);
+  perform set_config('app.recipe_cook_id', cook.id::text, true);
+
+  for item in select * from public.recipe_cook_items where cook_id = cook.id loop
+    update public.ingredients
+    set quantity = quantity + item.quantity
+    where id = item.ingredient_id and household_id = cook.household_id;
+
+    if not found then
+      insert into public.ingredients (user_id, name, quantity, unit)
+      values (auth.uid(), item.ingredient_name, item.quantity, item.unit)
+      on conflict on constraint unique_ingredient_for_household
+      -- A row recreated under the same name may use another unit
+      do update set quantity = public.ingredients.quantity + coalesce(
+        public.convert_quantity(
+          excluded.quantity, excluded.unit, public.ingredients.unit, excluded.name
+        ),
+        0
+      );
+    end if;
+  end loop;
+
+  update public.recipe_cooks set undone_at = now() where id = cook.id;
+
+  -- The recipe can be cooked again unless another cook of it still stands
+  update public.recipes r
+  set is_used = false
+  where r.id = cook.recipe_id
+    and not exists (
+      select 1 from public.recipe_cooks c
+      where c.recipe_id = r.id and c.undone_at is null
+    );
+
+  return 'Success: Restored the ingredients used for ' || cook.recipe_title || '.';
+end;
+$$;
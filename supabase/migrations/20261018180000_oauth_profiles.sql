@@ -0,0 +1,80 @@
+-- OAuth sign-ins fill in the profile from the provider. Google and Apple put the user's
+-- name and picture in `raw_user_meta_data` under their own keys (`name`, `picture`), not
+-- the `full_name` the registration form sets, so a new profile takes whichever is there.
+-- Linking a provider to an existing account later only fills in what the profile lacks.
+
+create or replace function public.metadata_full_name(p_metadata jsonb)
+returns text
+language sql
+immutable
+as $$
+  select nullif(trim(coalesce(p_metadata ->> 'full_name', p_metadata ->> 'name')), '');
+$$;
+
+create or replace function public.metadata_avatar_url(p_metadata jsonb)
+returns text
+language sql
+immutable
+as $$
+  select nullif(trim(coalesce(p_metadata ->> 'avatar_url', p_metadata ->> 'picture')), '');
+$$;
+
+-- Runs before the personal household is created, so it's named after the provider's name too
+create or replace function public.fill_profile_from_auth()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  metadata jsonb;
+begin
+  select raw_user_meta_data into metadata from auth.users where id = new.id;
+
+  new.full_name := coalesce(nullif(trim(new.full_name), ''), public.metadata_full_name(metadata));
+  new.avatar_url := coalesce(nullif(trim(new.avatar_url), ''), public.metadata_avatar_url(metadata));
+  return new;
+end;
+$$;
+
+create trigger profiles_fill_from_auth
+  before insert on public.profiles
+  for each row execute function public.fill_profile_from_auth();
+
+-- GoTrue merges a newly linked identity's data into the user's metadata
+create or replace function public.sync_profile_from_auth()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.profiles
+  set
+    full_name = coalesce(nullif(trim(full_name), ''), public.metadata_full_name(new.raw_user_meta_data)),
+    avatar_url = coalesce(nullif(trim(avatar_url), ''), public.metadata_avatar_url(new.raw_user_meta_data)),
+    updated_at = now()
+  where id = new.id
+    and (
+      (nullif(trim(full_name), '') is null and public.metadata_full_name(new.raw_user_meta_data) is not null)
+      or (nullif(trim(avatar_url), '') is null and public.metadata_avatar_url(new.raw_user_meta_data) is not null)
+    );
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_metadata_updated
+  after update of raw_user_meta_data on auth.users
+  for each row execute function public.sync_profile_from_auth();
+
+-- Users who already signed in with a provider get the details they're missing
+update public.profiles p
+set
+  full_name = coalesce(nullif(trim(p.full_name), ''), public.metadata_full_name(u.raw_user_meta_data)),
+  avatar_url = coalesce(nullif(trim(p.avatar_url), ''), public.metadata_avatar_url(u.raw_user_meta_data))
+from auth.users u
+where u.id = p.id
+  and (
+    (nullif(trim(p.full_name), '') is null and public.metadata_full_name(u.raw_user_meta_data) is not null)
+    or (nullif(trim(p.avatar_url), '') is null and public.metadata_avatar_url(u.raw_user_meta_data) is not null)
+  );
@@ -0,0 +1,136 @@
+-- Lets users take their data with them and delete their account. Kitchens are shared, so
+-- both work per household: the export includes every household the user belongs to, and
+-- deleting an account removes households nobody else is in while shared ones stay with
+-- their remaining members.
+
+-- Everything the app stores about the caller, as one JSON document
+create or replace function public.export_account_data()
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'exported_at', now(),
+    'email', (select u.email from auth.users u where u.id = auth.uid()),
+    'profile', (select to_jsonb(p) from public.profiles p where p.id = auth.uid()),
+    'preferences', (select to_jsonb(up) from public.user_preferences up where up.id = auth.uid()),
+    'shopping_list', coalesce(
+      (select jsonb_agg(to_jsonb(s) order by s.created_at)
+       from public.shopping_list s where s.user_id = auth.uid()),
+      '[]'::jsonb
+    ),
+    'households', coalesce(
+      (select jsonb_agg(
+         jsonb_build_object(
+           'id', h.id,
+           'name', h.name,
+           'role', m.role,
+           'joined_at', m.joined_at,
+           'ingredients', coalesce(
+             (select jsonb_agg(to_jsonb(i) order by i.name)
+              from public.ingredients i where i.household_id = h.id),
+             '[]'::jsonb
+           ),
+           'utensils', coalesce(
+             (select jsonb_agg(to_jsonb(ut) order by ut.name)
+              from public.utensils ut where ut.household_id = h.id),
+             '[]'::jsonb
+           ),
+           'recipes', coalesce(
+             (select jsonb_agg(to_jsonb(r) order by r.created_at)
+              from public.recipes r where r.household_id = h.id),
+             '[]'::jsonb
+           ),
+           'cooks', coalesce(
+             (select jsonb_agg(
+                to_jsonb(c) || jsonb_build_object(
+                  'items', coalesce(
+                    (select jsonb_agg(to_jsonb(ci) order by ci.id)
+                     from public.recipe_cook_items ci where ci.cook_id = c.id),
+                    '[]'::jsonb
+                  )
+                )
+                order by c.cooked_at
+              )
+              from public.recipe_cooks c where c.household_id = h.id),
+             '[]'::jsonb
+           )
+         )
+         order by m.joined_at
+       )
+       from public.household_members m
+       join public.households h on h.id = m.household_id
+       where m.user_id = auth.uid()),
+      '[]'::jsonb
+    )
+  );
+$$;
+
+-- Removes everything of `p_user_id`'s from the public schema, ahead of the auth user being
+-- deleted. Internal: only the delete-account Edge Function calls it, with the service role.
+create or replace function public.delete_account_data(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  member_household_ids bigint[] := array(
+    select household_id from public.household_members where user_id = p_user_id
+  );
+  member_household_id bigint;
+  kitchen_table text;
+begin
+  foreach member_household_id in array member_household_ids
+  loop
+    -- A shared household keeps an owner: the longest-standing member takes over
+    if not exists (
+      select 1 from public.household_members
+      where household_id = member_household_id and role = 'owner' and user_id <> p_user_id
+    ) then
+      update public.household_members
+      set role = 'owner'
+      where household_id = member_household_id
+        and user_id = (
+          select user_id from public.household_members
+          where household_id = member_household_id and user_id <> p_user_id
+          order by joined_at
+          limit 1
+        );
+    end if;
+  end loop;
+
+  delete from public.household_members where user_id = p_user_id;
+
+  -- Households only the user was in go with their whole kitchen
+  delete from public.households h
+  where h.id = any(member_household_ids)
+    and not exists (select 1 from public.household_members m where m.household_id = h.id);
+
+  -- Rows the user added to kitchens others still use pass to an owner there, so the
+  -- household doesn't lose them
+  foreach kitchen_table in array
+    array['ingredients', 'utensils', 'recipes', 'recipe_cooks', 'inventory_events']
+  loop
+    execute format(
+      'update public.%I t set user_id = ('
+        'select m.user_id from public.household_members m '
+        'where m.household_id = t.household_id '
+        'order by m.role = ''owner'' desc, m.joined_at limit 1'
+      ') where t.user_id = $1',
+      kitchen_table
+    ) using p_user_id;
+  end loop;
+
+  delete from public.household_invites where created_by = p_user_id;
+  delete from public.shopping_list where user_id = p_user_id;
+  delete from public.ai_generation_requests where user_id = p_user_id;
+  delete from public.user_preferences where id = p_user_id;
+  delete from public.profiles where id = p_user_id;
+end;
+$$;
+
+revoke execute on function public.delete_account_data(uuid) from public, anon, authenticated;
+grant execute on function public.delete_account_data(uuid) to service_role;
@@ -0,0 +1,41 @@
+-- Diets and allergies become lists. `diet` held several diets as one comma-separated
+-- string, which screens that treated it as a single value overwrote. Allergies are kept
+-- apart from diets because they're not a preference: each has a severity, and recipes
+-- must never contain them.
+
+create type public.allergy_severity as enum ('mild', 'moderate', 'severe');
+
+-- An array of `{ "allergen": text, "severity": allergy_severity }` objects
+create or replace function public.valid_allergies(p_allergies jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select jsonb_typeof(p_allergies) = 'array'
+    and not exists (
+      select 1
+      from jsonb_array_elements(p_allergies) a
+      where jsonb_typeof(a) <> 'object'
+        or jsonb_typeof(a -> 'allergen') is distinct from 'string'
+        or nullif(trim(a ->> 'allergen'), '') is null
+        or coalesce(a ->> 'severity', '') not in (
+          select unnest(enum_range(null::public.allergy_severity))::text
+        )
+    );
+$$;
+
+alter table public.user_preferences
+  add column diets text[] not null default '{}',
+  add column allergies jsonb not null default '[]'
+    constraint user_preferences_allergies_valid check (public.valid_allergies(allergies));
+
+update public.user_preferences
+set diets = array(
+  select trim(d)
+  from unnest(string_to_array(diet, ',')) with ordinality as parts(d, position)
+  where trim(d) <> ''
+  order by position
+)
+where diet is not null;
+
+alter table public.user_preferences drop column diet;
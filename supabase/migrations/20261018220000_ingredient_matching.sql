@@ -0,0 +1,98 @@
+-- Ports normalizeIngredientName from utils/ingredientMatch.ts, so the cook RPC matches
+-- inventory rows exactly as the app's cook check and readiness scores do. The old version
+-- only dropped a trailing "s": "Tomatoes" became "tomatoe" and "fresh basil" never found
+-- "Basil", so recipes the app called ready failed to cook. Keep the word lists in sync.
+
+create or replace function public.singularize_ingredient_word(word text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when length(word) <= 3 then word
+    when word like '%ies' then left(word, -3) || 'y'
+    when word like '%oes' then left(word, -2)
+    when word like '%ves' then left(word, -3) || 'f'
+    when word ~ '(ses|xes|ches|shes)$' then left(word, -2)
+    when word like '%s' and word not like '%ss' and word not like '%us' then left(word, -1)
+    else word
+  end;
+$$;
+
+-- Lowercases, drops parentheticals, preparation words and plurals, and maps synonyms, so
+-- "Fresh Tomatoes (diced)" and "tomato" normalize to the same string.
+create or replace function public.normalize_ingredient_name(name text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  descriptors constant text[] := array[
+    'fresh', 'freshly', 'dried', 'chopped', 'diced', 'minced', 'sliced', 'grated',
+    'shredded', 'crushed', 'ground', 'large', 'small', 'medium', 'whole', 'raw',
+    'cooked', 'boneless', 'skinless', 'ripe', 'frozen', 'canned', 'organic', 'unsalted',
+    'salted', 'extra', 'virgin', 'finely', 'roughly', 'thinly', 'peeled', 'halved',
+    'softened', 'melted', 'of', 'and', 'or', 'to', 'taste'
+  ];
+  -- Regional and alternative names, mapped to one canonical form
+  synonyms constant jsonb := jsonb_build_object(
+    'scallion', 'green onion',
+    'spring onion', 'green onion',
+    'coriander', 'cilantro',
+    'courgette', 'zucchini',
+    'aubergine', 'eggplant',
+    'garbanzo bean', 'chickpea',
+    'garbanzo', 'chickpea',
+    'capsicum', 'bell pepper',
+    'sweet pepper', 'bell pepper',
+    'rocket', 'arugula',
+    'plain flour', 'flour',
+    'all purpose flour', 'flour',
+    'all-purpose flour', 'flour',
+    'caster sugar', 'sugar',
+    'granulated sugar', 'sugar',
+    'white sugar', 'sugar',
+    'corn starch', 'cornstarch',
+    'cornflour', 'cornstarch',
+    'prawn', 'shrimp',
+    'mince', 'beef',
+    'double cream', 'heavy cream',
+    'whipping cream', 'heavy cream',
+    'bicarbonate of soda', 'baking soda',
+    'sea salt', 'salt',
+    'kosher salt', 'salt',
+    'table salt', 'salt',
+    'tap water', 'water',
+    'egg yolk', 'egg',
+    'egg white', 'egg'
+  );
+  words text[] := '{}';
+  word text;
+  joined text;
+begin
+  foreach word in array regexp_split_to_array(
+    regexp_replace(
+      regexp_replace(lower(coalesce(name, '')), '\([^)]*\)', ' ', 'g'),
+      '[^a-z[:space:]-]', ' ', 'g'
+    ),
+    '[[:space:]]+'
+  ) loop
+    if word <> '' and not word = any(descriptors) then
+      words := words || public.singularize_ingredient_word(word);
+    end if;
+  end loop;
+
+  joined := array_to_string(words, ' ');
+  if synonyms ? joined then
+    return synonyms ->> joined;
+  end if;
+
+  return coalesce(
+    (
+      select string_agg(coalesce(synonyms ->> w, w), ' ' order by position)
+      from unnest(words) with ordinality as parts(w, position)
+    ),
+    ''
+  );
+end;
+$$;
@@ -0,0 +1,57 @@
+-- `record_bought_ingredient` used to write a total the app worked out from its last read
+-- of the inventory, so a cook or another member's edit in between was overwritten. It now
+-- takes only the amount bought and adds it to the current row itself.
+
+drop function if exists public.record_bought_ingredient(text, numeric, text);
+
+-- Adds `p_quantity` of `p_unit` of a bought item to the household's inventory, converted
+-- into the unit of the row for the same ingredient, or as a new row when there is none.
+-- The change is tagged as a purchase. Returns "Error: Incompatible units - X" when the
+-- bought unit doesn't convert into the row's.
+create function public.record_bought_ingredient(
+  p_name text,
+  p_quantity numeric,
+  p_unit text
+)
+returns text
+language plpgsql
+as $$
+declare
+  inventory_row public.ingredients;
+  amount numeric;
+begin
+  perform set_config('app.inventory_event', 'bought', true);
+
+  select * into inventory_row
+  from public.ingredients
+  where household_id = public.current_household_id()
+    and public.normalize_ingredient_name(name) = public.normalize_ingredient_name(p_name)
+  limit 1
+  for update;
+
+  if inventory_row.id is null then
+    insert into public.ingredients (user_id, name, quantity, unit)
+    values (auth.uid(), trim(p_name), p_quantity, p_unit)
+    on conflict on constraint unique_ingredient_for_household
+    -- Another member added the same name a moment ago
+    do update set quantity = public.ingredients.quantity + coalesce(
+      public.convert_quantity(
+        excluded.quantity, excluded.unit, public.ingredients.unit, excluded.name
+      ),
+      0
+    );
+    return 'Success: Added to the inventory.';
+  end if;
+
+  amount := public.convert_quantity(p_quantity, p_unit, inventory_row.unit, p_name);
+  if amount is null then
+    return 'Error: Incompatible units - ' || p_name;
+  end if;
+
+  update public.ingredients
+  set quantity = quantity + amount
+  where id = inventory_row.id;
+
+  return 'Success: Added to the inventory.';
+end;
+$$;
@@ -0,0 +1,94 @@
+-- Two fixes to shared households. Opening an invite code as someone who is already a
+-- member used the code up, so the person it was meant for couldn't join; the membership
+-- check now comes first. And inventory history credited every change to whoever first
+-- added the item, so it now records the member who made the change.
+
+-- Joins the household an invite code belongs to and switches to it
+create or replace function public.accept_household_invite(p_code text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.household_invites;
+  household_name text;
+begin
+  select * into invite
+  from public.household_invites
+  where code = upper(trim(p_code)) and expires_at > now()
+  for update;
+
+  if invite.id is null then
+    return 'Error: That invite code is invalid or has expired';
+  end if;
+
+  select name into household_name from public.households where id = invite.household_id;
+
+  -- Leaves the code for the person it was meant for
+  if public.is_household_member(invite.household_id) then
+    return 'Error: You are already a member of ' || household_name;
+  end if;
+
+  delete from public.household_invites where id = invite.id;
+
+  insert into public.household_members (household_id, user_id, role)
+  values (invite.household_id, auth.uid(), 'member');
+
+  update public.profiles set active_household_id = invite.household_id where id = auth.uid();
+
+  return 'Success: You joined ' || household_name || '.';
+end;
+$$;
+
+create or replace function public.log_inventory_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tagged_event text := nullif(current_setting('app.inventory_event', true), '');
+  cook_id bigint := nullif(current_setting('app.recipe_cook_id', true), '')::bigint;
+  previous_quantity numeric;
+  -- Whoever made the change; the row's creator when no user is signed in, as in cascades
+  actor uuid;
+begin
+  actor := coalesce(auth.uid(), case when tg_op = 'DELETE' then old.user_id else new.user_id end);
+
+  if tg_op = 'INSERT' then
+    insert into public.inventory_events
+      (user_id, household_id, ingredient_id, ingredient_name, event_type, quantity_change, quantity_after, unit, recipe_cook_id)
+    values
+      (actor, new.household_id, new.id, new.name, coalesce(tagged_event, 'added'), new.quantity, new.quantity, new.unit, cook_id);
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    -- Rows removed because the whole profile or household is being deleted leave no history
+    if not exists (select 1 from public.profiles where id = old.user_id)
+      or not exists (select 1 from public.households where id = old.household_id) then
+      return old;
+    end if;
+
+    insert into public.inventory_events
+      (user_id, household_id, ingredient_id, ingredient_name, event_type, quantity_change, quantity_after, unit, recipe_cook_id)
+    values
+      (actor, old.household_id, old.id, old.name, coalesce(tagged_event, 'discarded'), -old.quantity, 0, old.unit, cook_id);
+    return old;
+  end if;
+
+  -- Changes to expiry dates alone are not inventory movements
+  if new.quantity = old.quantity and new.unit = old.unit and new.name = old.name then
+    return new;
+  end if;
+
+  previous_quantity := public.convert_quantity(old.quantity, old.unit, new.unit, new.name);
+
+  insert into public.inventory_events
+    (user_id, household_id, ingredient_id, ingredient_name, event_type, quantity_change, quantity_after, unit, recipe_cook_id)
+  values
+    (actor, new.household_id, new.id, new.name, coalesce(tagged_event, 'edited'), new.quantity - previous_quantity, new.quantity, new.unit, cook_id);
+  return new;
+end;
+$$;
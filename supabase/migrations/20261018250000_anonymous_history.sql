@@ -0,0 +1,76 @@
+-- Deleting an account used to hand the user's cooks and inventory history to another
+-- member of each shared household, so the history said that member did things they never
+-- did. Those rows now keep no user instead.
+
+alter table public.recipe_cooks alter column user_id drop not null;
+alter table public.inventory_events alter column user_id drop not null;
+
+-- Removes everything of `p_user_id`'s from the public schema, ahead of the auth user being
+-- deleted. Internal: only the delete-account Edge Function calls it, with the service role.
+create or replace function public.delete_account_data(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  member_household_ids bigint[] := array(
+    select household_id from public.household_members where user_id = p_user_id
+  );
+  member_household_id bigint;
+  kitchen_table text;
+begin
+  foreach member_household_id in array member_household_ids
+  loop
+    -- A shared household keeps an owner: the longest-standing member takes over
+    if not exists (
+      select 1 from public.household_members
+      where household_id = member_household_id and role = 'owner' and user_id <> p_user_id
+    ) then
+      update public.household_members
+      set role = 'owner'
+      where household_id = member_household_id
+        and user_id = (
+          select user_id from public.household_members
+          where household_id = member_household_id and user_id <> p_user_id
+          order by joined_at
+          limit 1
+        );
+    end if;
+  end loop;
+
+  delete from public.household_members where user_id = p_user_id;
+
+  -- Households only the user was in go with their whole kitchen
+  delete from public.households h
+  where h.id = any(member_household_ids)
+    and not exists (select 1 from public.household_members m where m.household_id = h.id);
+
+  -- Rows the user added to kitchens others still use pass to an owner there, so the
+  -- household doesn't lose them
+  foreach kitchen_table in array array['ingredients', 'utensils', 'recipes']
+  loop
+    execute format(
+      'update public.%I t set user_id = ('
+        'select m.user_id from public.household_members m '
+        'where m.household_id = t.household_id '
+        'order by m.role = ''owner'' desc, m.joined_at limit 1'
+      ') where t.user_id = $1',
+      kitchen_table
+    ) using p_user_id;
+  end loop;
+
+  -- History keeps what happened but no longer says who did it
+  update public.recipe_cooks set user_id = null where user_id = p_user_id;
+  update public.inventory_events set user_id = null where user_id = p_user_id;
+
+  delete from public.household_invites where created_by = p_user_id;
+  delete from public.shopping_list where user_id = p_user_id;
+  delete from public.ai_generation_requests where user_id = p_user_id;
+  delete from public.user_preferences where id = p_user_id;
+  delete from public.profiles where id = p_user_id;
+end;
+$$;
+
+revoke execute on function public.delete_account_data(uuid) from public, anon, authenticated;
+grant execute on function public.delete_account_data(uuid) to service_role;
@@ -0,0 +1,120 @@
+-- The cook RPC skips water, salt and sugar when they aren't in the inventory, because the
+-- app tells users they're assumed. The list was written inline; it now lives in one
+-- function, which PANTRY_STAPLES in utils/ingredientMatch.ts mirrors. Keep them in sync.
+
+-- Always treated as available when the household doesn't track them
+create or replace function public.is_pantry_staple(name text)
+returns boolean
+language sql
+immutable
+as $$
+  select public.normalize_ingredient_name(name) = any (array['water', 'salt', 'sugar']);
+$$;
+
+-- Subtracts a recipe's ingredients, scaled by `servings_multiplier`, from the household's
+-- inventory and records the subtractions in the cook ledger. Units are converted into the
+-- unit each inventory row is kept in. Nothing is changed unless every ingredient can be
+-- covered. Pantry staples the household doesn't track are skipped, as the app assumes them.
+create or replace function public.select_recipe_and_subtract_ingredients(
+  recipe_id_to_use bigint,
+  servings_multiplier numeric default 1
+)
+returns text
+language plpgsql
+as $$
+declare
+  recipe_row public.recipes;
+  recipe_ingredient jsonb;
+  ingredient_name text;
+  inventory_row public.ingredients;
+  needed numeric;
+  -- Inventory id -> amount to subtract, in the inventory row's unit
+  subtractions jsonb := '{}'::jsonb;
+  subtraction record;
+  new_cook_id bigint;
+begin
+  if servings_multiplier is null or servings_multiplier <= 0 then
+    return 'Error: Servings multiplier must be greater than 0';
+  end if;
+
+  select * into recipe_row
+  from public.recipes
+  where id = recipe_id_to_use and household_id = public.current_household_id();
+
+  if recipe_row.id is null or recipe_row.ingredients is null then
+    return 'Error: Recipe not found';
+  end if;
+
+  for recipe_ingredient in select * from jsonb_array_elements(recipe_row.ingredients) loop
+    ingredient_name := recipe_ingredient ->> 'name';
+
+    if jsonb_typeof(recipe_ingredient -> 'quantity') <> 'number' then
+      return 'Error: Invalid quantity - ' || ingredient_name;
+    end if;
+
+    select * into inventory_row
+    from public.ingredients
+    where household_id = public.current_household_id()
+      and public.normalize_ingredient_name(name) = public.normalize_ingredient_name(ingredient_name)
+    limit 1;
+
+    if inventory_row.id is null then
+      if public.is_pantry_staple(ingredient_name) then
+        continue;
+      end if;
+      return 'Error: Missing ingredient - ' || ingredient_name;
+    end if;
+
+    needed := public.convert_quantity(
+      (recipe_ingredient ->> 'quantity')::numeric * servings_multiplier,
+      recipe_ingredient ->> 'unit',
+      inventory_row.unit,
+      ingredient_name
+    );
+
+    if needed is null then
+      return 'Error: Incompatible units - ' || ingredient_name;
+    end if;
+
+    subtractions := jsonb_set(
+      subtractions,
+      array[inventory_row.id::text],
+      to_jsonb(coalesce((subtractions ->> inventory_row.id::text)::numeric, 0) + needed)
+    );
+  end loop;
+
+  -- Check every row before touching any, so a shortage leaves the inventory unchanged
+  for subtraction in
+    select i.id, i.name, i.quantity, s.value::numeric as amount
+    from jsonb_each_text(subtractions) s
+    join public.ingredients i on i.id = s.key::bigint
+  loop
+    if subtraction.quantity + 0.000001 < subtraction.amount then
+      return 'Error: Insufficient ingredient - ' || subtraction.name;
+    end if;
+  end loop;
+
+  insert into public.recipe_cooks (user_id, recipe_id, recipe_title, servings_multiplier)
+  values (auth.uid(), recipe_row.id, recipe_row.title, servings_multiplier)
+  returning id into new_cook_id;
+
+  -- Tag the inventory changes below for the `inventory_events` trigger
+  perform set_config('app.inventory_event', 'cooked', true);
+  perform set_config('app.recipe_cook_id', new_cook_id::text, true);
+
+  -- Record what is actually taken, which can be a hair less than asked for after rounding
+  insert into public.recipe_cook_items (cook_id, ingredient_id, ingredient_name, quantity, unit)
+  select new_cook_id, i.id, i.name, least(i.quantity, s.value::numeric), i.unit
+  from jsonb_each_text(subtractions) s
+  join public.ingredients i on i.id = s.key::bigint;
+
+  update public.ingredients i
+  set quantity = greatest(i.quantity - s.value::numeric, 0)
+  from jsonb_each_text(subtractions) s
+  where i.id = s.key::bigint;
+
+  update public.recipes set is_used = true where id = recipe_id_to_use;
+
+  return 'Success: Ingredients have been subtracted.';
+end;
+$$;
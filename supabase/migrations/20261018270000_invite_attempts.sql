@@ -0,0 +1,68 @@
+-- Invite codes are 8 characters, short enough to read out, so redeeming them is now
+-- throttled: each user gets a limited number of wrong codes per hour before
+-- accept_household_invite stops checking, which puts guessing a live code out of reach.
+
+create table if not exists public.household_invite_attempts (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists household_invite_attempts_user_created_idx
+  on public.household_invite_attempts (user_id, created_at desc);
+
+-- Written only by accept_household_invite; clients have no access
+alter table public.household_invite_attempts enable row level security;
+
+-- Joins the household an invite code belongs to and switches to it
+create or replace function public.accept_household_invite(p_code text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  max_failed_attempts constant integer := 10;
+  invite public.household_invites;
+  household_name text;
+  failed_count integer;
+begin
+  -- Serialise attempts by the same user so parallel guesses can't all see a count
+  -- just under the limit
+  perform pg_advisory_xact_lock(hashtext('household_invite:' || auth.uid()::text));
+
+  select count(*) into failed_count
+  from public.household_invite_attempts
+  where user_id = auth.uid() and created_at > now() - interval '1 hour';
+
+  if failed_count >= max_failed_attempts then
+    return 'Error: Too many invalid invite codes. Please wait an hour and try again';
+  end if;
+
+  select * into invite
+  from public.household_invites
+  where code = upper(trim(p_code)) and expires_at > now()
+  for update;
+
+  if invite.id is null then
+    insert into public.household_invite_attempts (user_id) values (auth.uid());
+    return 'Error: That invite code is invalid or has expired';
+  end if;
+
+  select name into household_name from public.households where id = invite.household_id;
+
+  -- Leaves the code for the person it was meant for
+  if public.is_household_member(invite.household_id) then
+    return 'Error: You are already a member of ' || household_name;
+  end if;
+
+  delete from public.household_invites where id = invite.id;
+
+  insert into public.household_members (household_id, user_id, role)
+  values (invite.household_id, auth.uid(), 'member');
+
+  update public.profiles set active_household_id = invite.household_id where id = auth.uid();
+
+  return 'Success: You joined ' || household_name || '.';
+end;
+$$;
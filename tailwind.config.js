@@ -51,6 +51,18 @@ module.exports = {
           800: '#2d4553',
           900: '#192b38',
         },
+        terracotta: {
+          50: '#fcf5f2',
+          100: '#f8e6de',
+          200: '#f0cbbc',
+          300: '#e5a78f',
+          400: '#d87f61',
+          500: '#c96442',
+          600: '#b04f31',
+          700: '#8f3f29',
+          800: '#6f3224',
+          900: '#4e241b',
+        },
         background: '#faf9f7',
         text: {
           primary: '#292524',
@@ -0,0 +1,59 @@
+import { AIService, GeneratedRecipe, RecipeProvider, RecipeValidationError } from '~/utils/ai';
+
+// The proxy provider's client, which needs native storage; these tests bring their own provider
+jest.mock('~/utils/supabase', () => ({ supabase: {} }));
+
+const recipe = (ingredients: string[]): GeneratedRecipe => ({
+  title: `${ingredients.join(' and ')} Bowl`,
+  description: 'A simple bowl.',
+  difficulty: 'Easy',
+  type: 'Home cooking',
+  time: '20 minutes',
+  ingredients: ingredients.map((name) => ({ name, quantity: 1, unit: 'cup' })),
+  instructions: ['Cook everything.', 'Serve.'],
+  servings: 2,
+});
+
+// Answers with each response in turn, counting the calls
+function scriptedProvider(responses: string[]) {
+  const provider: RecipeProvider & { calls: number } = {
+    name: 'fixture',
+    calls: 0,
+    async generateRecipes() {
+      return responses[provider.calls++];
+    },
+  };
+  return provider;
+}
+
+const generate = (service: AIService) =>
+  service.generateRecipes(['Rice', 'Peas'], ['Pan'], { allergies: [] });
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('AIService.generateRecipes', () => {
+  it('makes one call when the answer has no problems', async () => {
+    const provider = scriptedProvider([JSON.stringify([recipe(['Rice', 'Peas'])])]);
+    expect(await generate(new AIService(provider))).toHaveLength(1);
+    expect(provider.calls).toBe(1);
+  });
+
+  it('keeps the first valid answer when the retry is malformed', async () => {
+    const first = [recipe(['Rice', 'Saffron'])];
+    const provider = scriptedProvider([JSON.stringify(first), '[{"title": "Trunc']);
+    expect(await generate(new AIService(provider))).toEqual(first);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('surfaces a malformed answer when no valid one came before', async () => {
+    const provider = scriptedProvider(['not json', '[{"title": "Trunc']);
+    await expect(generate(new AIService(provider))).rejects.toBeInstanceOf(RecipeValidationError);
+    expect(provider.calls).toBe(2);
+  });
+});
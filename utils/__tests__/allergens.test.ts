@@ -0,0 +1,62 @@
+import { Allergy } from '~/utils/ai';
+import { findAllergens, resolveAllergy } from '~/utils/allergens';
+
+const allergy = (allergen: string): Allergy => ({ allergen, severity: 'severe' });
+
+const flagged = (ingredients: string[], allergen: string) =>
+  findAllergens(
+    ingredients.map((name) => ({ name })),
+    [allergy(allergen)]
+  ).map(({ ingredient }) => ingredient);
+
+describe('a "Nuts" allergy', () => {
+  it('covers peanuts as well as tree nuts', () => {
+    expect(resolveAllergy('Nuts')).toEqual(['Peanuts', 'Tree Nuts']);
+  });
+
+  it('flags peanuts and peanut butter', () => {
+    expect(flagged(['Peanuts', '2 tbsp peanut butter', 'Almonds', 'Rice'], 'Nuts')).toEqual([
+      'Peanuts',
+      '2 tbsp peanut butter',
+      'Almonds',
+    ]);
+  });
+});
+
+describe('a "Fish" allergy', () => {
+  it('flags crab sticks and other imitation crab', () => {
+    const ingredients = ['Crab sticks', 'Imitation crab', 'Surimi', 'Seafood sticks'];
+    expect(flagged(ingredients, 'Fish')).toEqual(ingredients);
+  });
+
+  it('does not flag real crab', () => {
+    expect(flagged(['Crab meat'], 'Fish')).toEqual([]);
+  });
+});
+
+describe('a "Shellfish" allergy', () => {
+  it('still flags crab sticks, which can contain crab', () => {
+    expect(flagged(['Crab sticks'], 'Shellfish')).toEqual(['Crab sticks']);
+  });
+});
+
+describe('free-from qualifiers', () => {
+  it('clear the allergen class they name', () => {
+    expect(flagged(['Gluten-free pasta'], 'Gluten')).toEqual([]);
+    expect(flagged(['Dairy free cheese'], 'Milk')).toEqual([]);
+    expect(flagged(['Egg-free mayonnaise'], 'Eggs')).toEqual([]);
+    expect(flagged(['Nut-free pesto'], 'Tree Nuts')).toEqual([]);
+  });
+
+  it('do not count aliases like lactose or wheat', () => {
+    expect(flagged(['Lactose free milk'], 'Milk')).toEqual(['Lactose free milk']);
+    expect(flagged(['Wheat free bread'], 'Gluten')).toEqual(['Wheat free bread']);
+  });
+
+  it('only clear the ingredient right after them', () => {
+    expect(flagged(['Nut-free pesto with cashews'], 'Tree Nuts')).toEqual([
+      'Nut-free pesto with cashews',
+    ]);
+    expect(flagged(['Nut-free pesto'], 'Milk')).toEqual(['Nut-free pesto']);
+  });
+});
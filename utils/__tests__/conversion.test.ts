@@ -0,0 +1,68 @@
+import { canConvert, convertQuantity, findDensity, toUnitSystem } from '~/utils/conversion';
+
+describe('convertQuantity', () => {
+  it('converts within mass and volume directly', () => {
+    expect(convertQuantity(1.5, 'kg', 'g')).toBe(1500);
+    expect(convertQuantity(2, 'cups', 'ml')).toBe(480);
+    expect(convertQuantity(1, 'cup', 'cups')).toBe(1);
+  });
+
+  it('converts volume to mass through the ingredient density', () => {
+    expect(convertQuantity(1, 'cup', 'g', 'Plain flour')).toBeCloseTo(127.2);
+  });
+
+  it('converts counts to mass through per-item weights', () => {
+    expect(convertQuantity(2, 'stick', 'g', 'Unsalted butter')).toBe(226);
+    expect(convertQuantity(3, 'cloves', 'g', 'garlic')).toBe(15);
+  });
+
+  it('returns null when the units cannot be related', () => {
+    expect(convertQuantity(1, 'cup', 'g', 'Saffron')).toBeNull();
+    expect(convertQuantity(1, 'clove', 'piece', 'Onion')).toBeNull();
+    expect(canConvert('piece', 'g', 'Tomatoes')).toBe(true);
+  });
+});
+
+describe('findDensity', () => {
+  it('prefers the most specific entry contained in the name', () => {
+    expect(findDensity('Brown sugar')).toEqual({ gramsPerMl: 0.93 });
+    expect(findDensity('Caster sugar')).toEqual({ gramsPerMl: 0.85 });
+  });
+});
+
+describe('toUnitSystem', () => {
+  it('shows metric amounts in imperial units, using the largest that fits', () => {
+    expect(toUnitSystem({ quantity: 1200, unit: 'g' }, 'imperial').unit).toBe('lb');
+    expect(toUnitSystem({ quantity: 100, unit: 'g' }, 'imperial').unit).toBe('oz');
+  });
+
+  it('shows imperial amounts in metric units', () => {
+    const amount = toUnitSystem({ quantity: 3, unit: 'lb' }, 'metric');
+    expect(amount.unit).toBe('kg');
+    expect(amount.quantity).toBeCloseTo(1.36);
+    expect(toUnitSystem({ quantity: 2, unit: 'lb' }, 'metric').unit).toBe('g');
+  });
+
+  it('leaves spoons, counts and units already in the system alone', () => {
+    const amounts = [
+      { quantity: 2, unit: 'tbsp' },
+      { quantity: 3, unit: 'cloves' },
+      { quantity: 500, unit: 'g' },
+    ];
+    for (const amount of amounts) expect(toUnitSystem(amount, 'metric')).toBe(amount);
+  });
+
+  it('shows a single cup in the singular', () => {
+    expect(toUnitSystem({ quantity: 240, unit: 'ml' }, 'imperial')).toEqual({
+      quantity: 1,
+      unit: 'cup',
+    });
+  });
+
+  it('shows several cups in the plural', () => {
+    expect(toUnitSystem({ quantity: 480, unit: 'ml' }, 'imperial')).toEqual({
+      quantity: 2,
+      unit: 'cups',
+    });
+  });
+});
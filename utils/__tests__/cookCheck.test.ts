@@ -0,0 +1,72 @@
+import { checkCanCook, describeShortfall } from '~/utils/cookCheck';
+
+describe('checkCanCook', () => {
+  it('passes when the inventory covers every ingredient after conversion', () => {
+    const check = checkCanCook(
+      [
+        { name: 'Flour', quantity: 2, unit: 'cups' },
+        { name: 'Eggs', quantity: 2, unit: 'pieces' },
+      ],
+      [
+        { name: 'Plain flour', quantity: 1, unit: 'kg' },
+        { name: 'Egg', quantity: 6, unit: 'pieces' },
+      ]
+    );
+    expect(check.canCook).toBe(true);
+    expect(check.shortfalls).toEqual([]);
+  });
+
+  it('reports missing, insufficient and incompatible ingredients', () => {
+    const check = checkCanCook(
+      [
+        { name: 'Basil', quantity: 1, unit: 'bunch' },
+        { name: 'Rice', quantity: 500, unit: 'g' },
+        { name: 'Saffron', quantity: 1, unit: 'tsp' },
+      ],
+      [
+        { name: 'Rice', quantity: 200, unit: 'g' },
+        { name: 'Saffron', quantity: 2, unit: 'g' },
+      ]
+    );
+    expect(check.canCook).toBe(false);
+    expect(check.shortfalls.map(({ name, status }) => [name, status])).toEqual([
+      ['Basil', 'missing'],
+      ['Rice', 'insufficient'],
+      ['Saffron', 'incompatible'],
+    ]);
+  });
+
+  it('assumes untracked pantry staples but checks tracked ones', () => {
+    const recipe = [{ name: 'Sugar', quantity: 100, unit: 'g' as const }];
+    expect(checkCanCook(recipe, []).ingredients[0].status).toBe('staple');
+    expect(checkCanCook(recipe, [{ name: 'Sugar', quantity: 50, unit: 'g' }]).canCook).toBe(false);
+  });
+
+  it('shares one inventory row between ingredients that draw on it', () => {
+    const check = checkCanCook(
+      [
+        { name: 'Egg yolks', quantity: 2, unit: 'pieces' },
+        { name: 'Egg whites', quantity: 2, unit: 'pieces' },
+      ],
+      [{ name: 'Eggs', quantity: 3, unit: 'pieces' }]
+    );
+    expect(check.shortfalls.map(({ name, available }) => [name, available])).toEqual([
+      ['Egg whites', 1],
+    ]);
+  });
+});
+
+describe('describeShortfall', () => {
+  it('spells the unit to match each amount', () => {
+    expect(
+      describeShortfall({
+        name: 'Milk',
+        status: 'insufficient',
+        needed: 2,
+        available: 1,
+        unit: 'cups',
+        inventoryName: 'Milk',
+      })
+    ).toBe('Milk: need 2 cups, have 1 cup');
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  findMissingIngredients,
+  isPantryStaple,
+  matchIngredient,
+  normalizeIngredientName,
+} from '~/utils/ingredientMatch';
+
+describe('normalizeIngredientName', () => {
+  it('drops case, parentheticals, preparation words and plurals', () => {
+    expect(normalizeIngredientName('Fresh Tomatoes (diced)')).toBe('tomato');
+    expect(normalizeIngredientName('2 large ripe potatoes')).toBe('potato');
+    expect(normalizeIngredientName('Cherries')).toBe('cherry');
+  });
+
+  it('maps regional names onto one spelling', () => {
+    expect(normalizeIngredientName('Scallions')).toBe('green onion');
+    expect(normalizeIngredientName('Spring onion')).toBe('green onion');
+    expect(normalizeIngredientName('Courgettes')).toBe('zucchini');
+    expect(normalizeIngredientName('Plain flour')).toBe('flour');
+  });
+
+  it('keeps words that change what the ingredient is', () => {
+    expect(normalizeIngredientName('Garlic powder')).toBe('garlic powder');
+  });
+});
+
+describe('matchIngredient', () => {
+  const inventory = ['Tomato', 'Green onion', 'Butter', 'Garlic powder'];
+
+  it('finds the inventory row a recipe ingredient names', () => {
+    expect(matchIngredient('2 ripe tomatoes', inventory)).toBe('Tomato');
+    expect(matchIngredient('scallions', inventory)).toBe('Green onion');
+  });
+
+  it('does not match on a shared word alone', () => {
+    expect(matchIngredient('garlic', inventory)).toBeNull();
+    expect(matchIngredient('peanut butter', inventory)).toBeNull();
+  });
+
+  it('matches nothing for a name made only of preparation words', () => {
+    expect(matchIngredient('chopped', inventory)).toBeNull();
+  });
+});
+
+describe('findMissingIngredients', () => {
+  it('lists what the inventory lacks, leaving out pantry staples', () => {
+    const recipe = [
+      { name: 'Tomatoes' },
+      { name: 'Basil' },
+      { name: 'Sea salt' },
+      { name: 'Water' },
+    ];
+    expect(findMissingIngredients(recipe, ['Tomato'])).toEqual(['Basil']);
+  });
+
+  it('treats salt, sugar and water under any of their names as staples', () => {
+    expect(isPantryStaple('Kosher salt')).toBe(true);
+    expect(isPantryStaple('Caster sugar')).toBe(true);
+    expect(isPantryStaple('Brown sugar')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { compareReadiness, describeReadiness, getRecipeReadiness } from '~/utils/readiness';
+
+const inventory = [
+  { name: 'Rice', quantity: 500, unit: 'g' },
+  { name: 'Onion', quantity: 1, unit: 'piece' },
+];
+
+describe('getRecipeReadiness', () => {
+  it('scores a fully covered recipe as ready', () => {
+    const readiness = getRecipeReadiness(
+      [
+        { name: 'Rice', quantity: 200, unit: 'g' },
+        { name: 'Salt', quantity: 1, unit: 'tsp' },
+      ],
+      inventory
+    );
+    expect(readiness).toMatchObject({ status: 'ready', score: 1 });
+    expect(describeReadiness(readiness)).toBe('Ready to cook');
+  });
+
+  it('counts the share of a short ingredient that is on hand', () => {
+    const readiness = getRecipeReadiness(
+      [
+        { name: 'Rice', quantity: 1000, unit: 'g' },
+        { name: 'Onion', quantity: 1, unit: 'piece' },
+      ],
+      inventory
+    );
+    expect(readiness).toMatchObject({ status: 'short', score: 0.75, shortCount: 1 });
+    expect(describeReadiness(readiness)).toBe('Short on 1 item');
+  });
+
+  it('reads legacy free-text quantities', () => {
+    const readiness = getRecipeReadiness([{ name: 'Onions', quantity: '2 pieces' }], inventory);
+    expect(readiness.status).toBe('short');
+  });
+
+  it('reports missing ingredients ahead of short ones', () => {
+    const readiness = getRecipeReadiness(
+      [
+        { name: 'Rice', quantity: 1000, unit: 'g' },
+        { name: 'Chicken', quantity: 300, unit: 'g' },
+        { name: 'Leek', quantity: 1, unit: 'piece' },
+      ],
+      inventory
+    );
+    expect(readiness).toMatchObject({ status: 'missing', missingCount: 2, shortCount: 1 });
+    expect(describeReadiness(readiness)).toBe('Missing 2 items');
+  });
+});
+
+describe('compareReadiness', () => {
+  it('orders ready, then short, then missing, and by score within each', () => {
+    const recipes = [
+      [{ name: 'Leek', quantity: 1, unit: 'piece' }],
+      [{ name: 'Rice', quantity: 2000, unit: 'g' }],
+      [{ name: 'Rice', quantity: 100, unit: 'g' }],
+      [{ name: 'Rice', quantity: 1000, unit: 'g' }],
+    ].map((ingredients) => getRecipeReadiness(ingredients, inventory));
+
+    expect(recipes.sort(compareReadiness).map(({ status, score }) => [status, score])).toEqual([
+      ['ready', 1],
+      ['short', 0.5],
+      ['short', 0.25],
+      ['missing', 0],
+    ]);
+  });
+});
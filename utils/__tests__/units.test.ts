@@ -0,0 +1,108 @@
+import {
+  formatAmount,
+  formatQuantity,
+  hasLegacyQuantities,
+  normalizeUnit,
+  parseQuantity,
+  scaleIngredients,
+  toRecipeIngredient,
+} from '~/utils/units';
+
+describe('normalizeUnit', () => {
+  it('maps spellings onto the unit vocabulary', () => {
+    expect(normalizeUnit('Tablespoons')).toBe('tbsp');
+    expect(normalizeUnit('grams')).toBe('g');
+    expect(normalizeUnit('lbs.')).toBe('lb');
+    expect(normalizeUnit('cups')).toBe('cups');
+  });
+
+  it('returns null for words that are not units', () => {
+    expect(normalizeUnit('eggs')).toBeNull();
+  });
+});
+
+describe('parseQuantity', () => {
+  it('reads whole numbers, fractions and unicode fractions', () => {
+    expect(parseQuantity('2 cups')).toEqual({ quantity: 2, unit: 'cups' });
+    expect(parseQuantity('1 1/2 tbsp')).toEqual({ quantity: 1.5, unit: 'tbsp' });
+    expect(parseQuantity('½ tsp')).toEqual({ quantity: 0.5, unit: 'tsp' });
+  });
+
+  it('takes the lower end of a range', () => {
+    expect(parseQuantity('2-3 cloves')).toEqual({ quantity: 2, unit: 'cloves' });
+  });
+
+  it('counts items without a unit as pieces', () => {
+    expect(parseQuantity('3 eggs')).toEqual({ quantity: 3, unit: 'pieces' });
+    expect(parseQuantity('1 onion')).toEqual({ quantity: 1, unit: 'piece' });
+  });
+
+  it('reads text without an amount as one of whatever unit it names', () => {
+    expect(parseQuantity('a pinch')).toEqual({ quantity: 1, unit: 'pinch' });
+    expect(parseQuantity('to taste')).toEqual({ quantity: 1, unit: 'whole' });
+  });
+
+  it('reads commas before groups of three digits as thousands separators', () => {
+    expect(parseQuantity('1,000 g')).toEqual({ quantity: 1000, unit: 'g' });
+    expect(parseQuantity('1,250.5 ml')).toEqual({ quantity: 1250.5, unit: 'ml' });
+  });
+
+  it('reads any other comma as a decimal point', () => {
+    expect(parseQuantity('1,5 kg')).toEqual({ quantity: 1.5, unit: 'kg' });
+  });
+});
+
+describe('formatQuantity', () => {
+  it('uses the singular for one and the plural otherwise', () => {
+    expect(formatQuantity({ quantity: 1, unit: 'cups' })).toBe('1 cup');
+    expect(formatQuantity({ quantity: 2, unit: 'cup' })).toBe('2 cups');
+    expect(formatQuantity({ quantity: 1, unit: 'pieces' })).toBe('1 piece');
+    expect(formatQuantity({ quantity: 3, unit: 'clove' })).toBe('3 cloves');
+  });
+
+  it('leaves units without a plural spelling alone', () => {
+    expect(formatQuantity({ quantity: 2, unit: 'tbsp' })).toBe('2 tbsp');
+  });
+});
+
+describe('toRecipeIngredient', () => {
+  it('keeps structured amounts, normalizing the unit', () => {
+    expect(toRecipeIngredient({ name: 'Flour', quantity: 200, unit: 'grams' })).toEqual({
+      name: 'Flour',
+      quantity: 200,
+      unit: 'g',
+    });
+  });
+
+  it('parses the legacy free-text form', () => {
+    expect(toRecipeIngredient({ name: 'Milk', quantity: '2 cups' })).toEqual({
+      name: 'Milk',
+      quantity: 2,
+      unit: 'cups',
+    });
+    expect(toRecipeIngredient({ name: 'Milk', quantity: '1/2', unit: 'cup' })).toEqual({
+      name: 'Milk',
+      quantity: 0.5,
+      unit: 'cup',
+    });
+  });
+
+  it('tells legacy ingredients apart from structured ones', () => {
+    expect(hasLegacyQuantities([{ quantity: 2, unit: 'cups' }])).toBe(false);
+    expect(hasLegacyQuantities([{ quantity: '2 cups' }])).toBe(true);
+  });
+});
+
+describe('formatAmount and scaleIngredients', () => {
+  it('rounds to two decimals', () => {
+    expect(formatAmount(1 / 3)).toBe('0.33');
+    expect(formatAmount(2)).toBe('2');
+  });
+
+  it('multiplies every quantity', () => {
+    const ingredients = [{ name: 'Rice', quantity: 300, unit: 'g' as const }];
+    expect(scaleIngredients(ingredients, 0.5)).toEqual([
+      { name: 'Rice', quantity: 150, unit: 'g' },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  AllergenConflictError,
+  RecipeValidationError,
+  getGenerationErrorMessage,
+  parseGeneratedRecipes,
+} from '~/utils/ai/validation';
+
+const recipe = {
+  title: 'Tomato Rice',
+  description: 'Rice cooked with tomatoes.',
+  difficulty: 'Easy',
+  type: 'Home cooking',
+  time: '30 minutes',
+  ingredients: [{ name: 'Rice', quantity: 200, unit: 'g' }],
+  instructions: ['Cook the rice.'],
+  servings: 2,
+};
+
+const parseError = (text: string) => {
+  try {
+    parseGeneratedRecipes(text);
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the response to be rejected');
+};
+
+describe('parseGeneratedRecipes', () => {
+  it('accepts a list of well-formed recipes', () => {
+    expect(parseGeneratedRecipes(JSON.stringify([recipe]))).toEqual([recipe]);
+  });
+
+  it('fixes the mistakes models commonly make', () => {
+    const [parsed] = parseGeneratedRecipes(
+      JSON.stringify({
+        recipes: [
+          {
+            ...recipe,
+            difficulty: 'easy',
+            time: 30,
+            servings: '4 servings',
+            ingredients: [{ name: 'Milk', quantity: '1 1/2 cups' }],
+          },
+        ],
+      })
+    );
+    expect(parsed).toMatchObject({
+      difficulty: 'Easy',
+      time: '30 minutes',
+      servings: 4,
+      ingredients: [{ name: 'Milk', quantity: 1.5, unit: 'cups' }],
+    });
+  });
+
+  it('wraps a lone recipe object in a list', () => {
+    expect(parseGeneratedRecipes(JSON.stringify(recipe))).toEqual([recipe]);
+  });
+
+  it('drops properties the schema does not know', () => {
+    const [parsed] = parseGeneratedRecipes(JSON.stringify([{ ...recipe, rating: 5 }]));
+    expect(parsed).not.toHaveProperty('rating');
+  });
+
+  it('names the fields that are still wrong', () => {
+    const { title: _title, ...untitled } = recipe;
+    const error = parseError(JSON.stringify([untitled, { ...recipe, difficulty: 'Expert' }]));
+    expect(error).toBeInstanceOf(RecipeValidationError);
+    expect((error as RecipeValidationError).fields).toEqual(['[0].title', '[1].difficulty']);
+  });
+
+  it('reports truncated JSON as a validation error', () => {
+    const error = parseError(JSON.stringify([recipe]).slice(0, 40));
+    expect((error as RecipeValidationError).fields).toEqual(['(root)']);
+  });
+
+  it('rejects an empty list', () => {
+    expect(parseError('[]')).toBeInstanceOf(RecipeValidationError);
+  });
+});
+
+describe('getGenerationErrorMessage', () => {
+  it('names the failed fields or allergens', () => {
+    const invalid = new RecipeValidationError([{ field: '[0].title', message: 'is required' }], '');
+    expect(getGenerationErrorMessage(invalid)).toContain('([0].title)');
+    expect(getGenerationErrorMessage(new AllergenConflictError(['Peanuts']))).toContain(
+      'without Peanuts'
+    );
+    expect(getGenerationErrorMessage(new Error('Network'))).toBe(
+      'Failed to generate recipes. Please try again.'
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import { AccountExport, ExportedHousehold } from '~/utils/repositories';
+import { formatQuantity, normalizeRecipeIngredients } from '~/utils/units';
+
+export type ExportFormat = 'json' | 'markdown';
+
+const EXPORT_FILES: Record<ExportFormat, { extension: string; mimeType: string; uti: string }> = {
+  json: { extension: 'json', mimeType: 'application/json', uti: 'public.json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown', uti: 'net.daringfireball.markdown' },
+};
+
+function formatDate(value: string | null | undefined) {
+  return value ? new Date(value).toLocaleDateString() : '';
+}
+
+// Pipes and line breaks would end the cell or row early
+function cell(value: unknown) {
+  return String(value ?? '')
+    .replace(/\|/g, '\\|')
+    .replace(/\s*\n\s*/g, ' ');
+}
+
+function table(headers: string[], rows: unknown[][]) {
+  if (rows.length === 0) return '_None_';
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function householdMarkdown(household: ExportedHousehold) {
+  const recipes = household.recipes.map((recipe) =>
+    [
+      `#### ${recipe.title}`,
+      recipe.description ?? '',
+      `Serves ${recipe.servings ?? '?'} · ${(recipe.prep_time_minutes ?? 0) + (recipe.cook_time_minutes ?? 0)} min`,
+      normalizeRecipeIngredients(recipe.ingredients)
+        .map((ingredient) => `- ${formatQuantity(ingredient)} ${ingredient.name}`)
+        .join('\n'),
+      recipe.instructions.map((step, index) => `${index + 1}. ${step}`).join('\n'),
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+  );
+
+  return [
+    `## ${household.name}`,
+    `Your role: ${household.role} · joined ${formatDate(household.joined_at)}`,
+    '### Ingredients',
+    table(
+      ['Name', 'Quantity', 'Expires'],
+      household.ingredients.map((ingredient) => [
+        ingredient.name,
+        formatQuantity(ingredient),
+        formatDate(ingredient.expires_on),
+      ])
+    ),
+    '### Utensils',
+    household.utensils.length > 0
+      ? household.utensils.map((utensil) => `- ${utensil.name}`).join('\n')
+      : '_None_',
+    '### Recipes',
+    recipes.length > 0 ? recipes.join('\n\n') : '_None_',
+    '### Cook History',
+    table(
+      ['Date', 'Recipe', 'Portion', 'Undone'],
+      household.cooks.map((cook) => [
+        formatDate(cook.cooked_at),
+        cook.recipe_title,
+        `×${cook.servings_multiplier}`,
+        cook.undone_at ? formatDate(cook.undone_at) : '',
+      ])
+    ),
+  ].join('\n\n');
+}
+
+/** The export as a readable document, for people rather than other apps. */
+export function exportToMarkdown(data: AccountExport) {
+  const { profile, preferences } = data;
+
+  return [
+    '# Chef Data Export',
+    `Exported ${formatDate(data.exported_at)}${data.email ? ` for ${data.email}` : ''}`,
+    '## Profile',
+    [
+      `- Name: ${profile?.full_name ?? ''}`,
+      `- Avatar: ${profile?.avatar_url ?? ''}`,
+      `- Onboarding complete: ${profile?.onboarding_complete ? 'yes' : 'no'}`,
+    ].join('\n'),
+    '## Preferences',
+    preferences
+      ? [
+          `- Diets: ${preferences.diets.join(', ')}`,
+          `- Allergies: ${preferences.allergies
+            .map(({ allergen, severity }) => `${allergen} (${severity})`)
+            .join(', ')}`,
+          `- Tastes: ${(preferences.tastes ?? []).join(', ')}`,
+          `- Difficulty: ${preferences.preferred_difficulty ?? ''}`,
+          `- Time: ${preferences.preferred_time_minutes ? `${preferences.preferred_time_minutes} min` : ''}`,
+          `- Portions: ${preferences.preferred_portions ?? ''}`,
+        ].join('\n')
+      : '_None_',
+    '## Shopping List',
+    table(
+      ['Name', 'Quantity', 'Bought'],
+      data.shopping_list.map((item) => [
+        item.name,
+        formatQuantity(item),
+        item.checked ? 'yes' : 'no',
+      ])
+    ),
+    ...data.households.map(householdMarkdown),
+  ].join('\n\n');
+}
+
+/** Writes the export to a file and opens the share sheet for it. */
+export async function shareAccountExport(data: AccountExport, format: ExportFormat) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing files is not available on this device');
+  }
+
+  const { extension, mimeType, uti } = EXPORT_FILES[format];
+  const uri = `${FileSystem.cacheDirectory}chef-export-${data.exported_at.slice(0, 10)}.${extension}`;
+  const contents = format === 'json' ? JSON.stringify(data, null, 2) : exportToMarkdown(data);
+
+  await FileSystem.writeAsStringAsync(uri, contents);
+  await Sharing.shareAsync(uri, { mimeType, UTI: uti, dialogTitle: 'Export My Data' });
+}
@@ -0,0 +1,65 @@
+import { supabase } from '~/utils/supabase';
+import { FixtureRecipeProvider } from './providers/fixture';
+import { GeminiRecipeProvider } from './providers/gemini';
+import { OpenAICompatibleRecipeProvider } from './providers/openai';
+import { ProxyRecipeProvider } from './providers/proxy';
+import { RecipeProvider, RecipeProviderName } from './types';
+
+export interface AIConfig {
+  provider: RecipeProviderName;
+  model?: string;
+  googleApiKey?: string;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  proxyUrl?: string;
+}
+
+const PROVIDERS: RecipeProviderName[] = ['proxy', 'gemini', 'openai', 'fixture'];
+
+/**
+ * Reads the AI configuration from the environment. When no provider is named, Gemini is
+ * used if its key is present and the offline fixture provider otherwise. Production
+ * builds should set `proxy` so no model key ships in the bundle.
+ */
+export function getAIConfig(): AIConfig {
+  const requested = process.env.EXPO_PUBLIC_AI_PROVIDER as RecipeProviderName | undefined;
+  const googleApiKey = process.env.EXPO_PUBLIC_GOOGLE_AI_API_KEY;
+
+  if (requested && !PROVIDERS.includes(requested)) {
+    throw new Error(
+      `Unknown EXPO_PUBLIC_AI_PROVIDER "${requested}". Expected one of: ${PROVIDERS.join(', ')}.`
+    );
+  }
+
+  return {
+    provider: requested ?? (googleApiKey ? 'gemini' : 'fixture'),
+    model: process.env.EXPO_PUBLIC_AI_MODEL || undefined,
+    googleApiKey,
+    openaiBaseUrl: process.env.EXPO_PUBLIC_OPENAI_BASE_URL,
+    openaiApiKey: process.env.EXPO_PUBLIC_OPENAI_API_KEY,
+    proxyUrl:
+      process.env.EXPO_PUBLIC_AI_PROXY_URL ||
+      `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/generate-recipes`,
+  };
+}
+
+export function createRecipeProvider(config: AIConfig): RecipeProvider {
+  switch (config.provider) {
+    case 'proxy':
+      return new ProxyRecipeProvider(
+        config.proxyUrl!,
+        process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '',
+        async () => (await supabase.auth.getSession()).data.session?.access_token
+      );
+    case 'gemini':
+      return new GeminiRecipeProvider(config.googleApiKey, config.model);
+    case 'openai':
+      return new OpenAICompatibleRecipeProvider(
+        config.openaiBaseUrl,
+        config.openaiApiKey,
+        config.model
+      );
+    case 'fixture':
+      return new FixtureRecipeProvider();
+  }
+}
@@ -0,0 +1,209 @@
+import { describeAllergenMatch, findAllergens } from '~/utils/allergens';
+import { findMissingIngredients } from '~/utils/ingredientMatch';
+import { createRecipeProvider, getAIConfig } from './config';
+import {
+  Allergy,
+  GeneratedRecipe,
+  RecipeGenerationRequest,
+  RecipePreferences,
+  RecipeProvider,
+} from './types';
+import { AllergenConflictError, RecipeValidationError, parseGeneratedRecipes } from './validation';
+
+export type {
+  Allergy,
+  AllergySeverity,
+  GeneratedRecipe,
+  RecipeGenerationRequest,
+  RecipePreferences,
+  RecipeProvider,
+  RecipeProviderName,
+} from './types';
+export { createRecipeProvider, getAIConfig } from './config';
+export type { AIConfig } from './config';
+export { FixtureRecipeProvider } from './providers/fixture';
+export { GeminiRecipeProvider } from './providers/gemini';
+export { OpenAICompatibleRecipeProvider } from './providers/openai';
+export { ProxyRecipeProvider } from './providers/proxy';
+export {
+  AllergenConflictError,
+  RecipeValidationError,
+  getGenerationErrorMessage,
+  parseGeneratedRecipes,
+} from './validation';
+export type { RecipeValidationIssue } from './validation';
+
+// Provider calls one generation may make: the request and a single retry that carries
+// every problem found with the answer. The AI proxy limits calls per user per hour, so a
+// generation mustn't spend much of that allowance.
+const MAX_PROVIDER_CALLS = 2;
+
+function describeInventedIngredients(recipes: GeneratedRecipe[], inventory: string[]) {
+  return recipes
+    .map((recipe) => ({ recipe, missing: findMissingIngredients(recipe.ingredients, inventory) }))
+    .filter(({ missing }) => missing.length > 0)
+    .map(
+      ({ recipe, missing }) =>
+        `"${recipe.title}" uses ${missing.join(', ')}, which are not in the list`
+    )
+    .join('; ');
+}
+
+function describeAllergens(recipes: GeneratedRecipe[], allergies: Allergy[]) {
+  return recipes
+    .map((recipe) => ({ recipe, matches: findAllergens(recipe.ingredients, allergies) }))
+    .filter(({ matches }) => matches.length > 0)
+    .map(
+      ({ recipe, matches }) =>
+        `"${recipe.title}" is unsafe for the user: ${matches.map(describeAllergenMatch).join(', ')}`
+    )
+    .join('; ');
+}
+
+/**
+ * Drops the recipes that contain the user's allergens. Throws `AllergenConflictError` if
+ * none are left.
+ */
+function withoutAllergens(recipes: GeneratedRecipe[], allergies: Allergy[]) {
+  const safe = recipes.filter(
+    (recipe) => findAllergens(recipe.ingredients, allergies).length === 0
+  );
+  if (safe.length === recipes.length) return recipes;
+
+  console.warn(
+    '⚠️ AI Service: Dropping recipes with allergens:',
+    describeAllergens(recipes, allergies)
+  );
+  if (safe.length === 0) {
+    const found = recipes.flatMap((recipe) =>
+      findAllergens(recipe.ingredients, allergies).map((match) => match.allergy.allergen)
+    );
+    throw new AllergenConflictError([...new Set(found)]);
+  }
+  return safe;
+}
+
+export class AIService {
+  private provider: RecipeProvider | null;
+
+  /**
+   * The provider is resolved from the environment on first use rather than here, so a
+   * missing key surfaces as a failed generation instead of crashing at import time.
+   */
+  constructor(provider?: RecipeProvider) {
+    this.provider = provider ?? null;
+  }
+
+  setProvider(provider: RecipeProvider) {
+    this.provider = provider;
+  }
+
+  private getProvider(): RecipeProvider {
+    if (!this.provider) {
+      const config = getAIConfig();
+      console.log('🤖 AI Service: Initializing provider:', config.provider);
+      this.provider = createRecipeProvider(config);
+      console.log('✅ AI Service: Successfully initialized');
+    }
+    return this.provider;
+  }
+
+  /**
+   * `expiringIngredients` names inventory items close to their expiry date; the prompt
+   * asks for recipes that use them up first.
+   */
+  async generateRecipes(
+    ingredients: string[],
+    utensils: string[],
+    preferences: RecipePreferences,
+    expiringIngredients: string[] = []
+  ): Promise<GeneratedRecipe[]> {
+    console.log('🤖 AI Service: Starting recipe generation...');
+    console.log('📝 Ingredients:', ingredients);
+    console.log('🔧 Utensils:', utensils);
+    console.log('⚙️ Preferences:', preferences);
+    console.log('⏰ Expiring soon:', expiringIngredients);
+
+    try {
+      const request = { ingredients, utensils, preferences, expiringIngredients };
+      const recipes = await this.requestRecipes(request);
+
+      console.log('✅ AI Service: Successfully generated', recipes.length, 'recipes');
+      recipes.forEach((recipe, index) => {
+        console.log(`🍳 Recipe ${index + 1}:`, recipe.title);
+        console.log(`   - Difficulty: ${recipe.difficulty}`);
+        console.log(`   - Type: ${recipe.type}`);
+        console.log(`   - Time: ${recipe.time}`);
+        console.log(`   - Servings: ${recipe.servings}`);
+        console.log(`   - Ingredients: ${recipe.ingredients.length} items`);
+        console.log(`   - Instructions: ${recipe.instructions.length} steps`);
+      });
+
+      return recipes;
+    } catch (error) {
+      console.error('❌ AI Service: Error generating recipes:', error);
+
+      if (error instanceof Error) {
+        console.error('❌ AI Service: Error message:', error.message);
+        console.error('❌ AI Service: Error stack:', error.stack);
+      }
+
+      if (error instanceof RecipeValidationError || error instanceof AllergenConflictError) {
+        throw error;
+      }
+      throw new Error('Failed to generate recipes. Please try again.');
+    }
+  }
+
+  /**
+   * Asks the provider for recipes and checks the answer: that it's valid, uses only the
+   * inventory and avoids the user's allergies, which the prompt alone can't be trusted
+   * with. An answer with problems is sent back once with all of them attached. After that,
+   * invented ingredients are left for the cards to show as missing and recipes with
+   * allergens are dropped. An invalid retry falls back to the first answer if that was
+   * valid, and is surfaced otherwise.
+   */
+  private async requestRecipes(request: RecipeGenerationRequest): Promise<GeneratedRecipe[]> {
+    const provider = this.getProvider();
+    const allergies = request.preferences.allergies ?? [];
+    let feedback: string | undefined;
+    let previous: GeneratedRecipe[] | null = null;
+
+    for (let call = 1; ; call++) {
+      const text = await provider.generateRecipes(feedback ? { ...request, feedback } : request);
+      const lastCall = call >= MAX_PROVIDER_CALLS;
+
+      console.log('📊 Response text length:', text.length, 'characters');
+      console.log('🔄 AI Service: Parsing JSON response...');
+
+      let recipes: GeneratedRecipe[];
+      try {
+        recipes = parseGeneratedRecipes(text);
+      } catch (error) {
+        if (!(error instanceof RecipeValidationError)) throw error;
+        if (lastCall && previous) {
+          console.warn('⚠️ AI Service: Invalid retry, keeping the previous recipes:', error.fields);
+          return withoutAllergens(previous, allergies);
+        }
+        if (lastCall) throw error;
+        console.warn('⚠️ AI Service: Invalid response, re-prompting. Failed fields:', error.fields);
+        feedback = error.message;
+        continue;
+      }
+
+      const problems = [
+        describeInventedIngredients(recipes, request.ingredients),
+        describeAllergens(recipes, allergies),
+      ]
+        .filter(Boolean)
+        .join('; ');
+      if (!problems || lastCall) return withoutAllergens(recipes, allergies);
+
+      console.warn('⚠️ AI Service: Recipes need changes, re-prompting:', problems);
+      feedback = problems;
+      previous = recipes;
+    }
+  }
+}
+
+export const aiService = new AIService();
@@ -0,0 +1,69 @@
+import { GeneratedRecipe, RecipeGenerationRequest, RecipeProvider } from '../types';
+
+/**
+ * Offline provider that builds recipes from the request itself. The output only depends
+ * on the input, so screens can be developed and tested without an API key or network.
+ */
+export class FixtureRecipeProvider implements RecipeProvider {
+  readonly name = 'fixture';
+
+  async generateRecipes({
+    ingredients: available,
+    utensils,
+    preferences,
+    expiringIngredients = [],
+  }: RecipeGenerationRequest): Promise<string> {
+    console.log('🧪 AI Service: Generating fixture recipes (no network)');
+
+    // Lead with whatever is about to expire, as the real providers are asked to
+    const ingredients = [
+      ...expiringIngredients,
+      ...available.filter((name) => !expiringIngredients.includes(name)),
+    ];
+    const [first = 'Vegetables', second = first] = ingredients;
+    const utensil = utensils[0] ?? 'pan';
+    const servings = preferences.preferred_portions ?? 2;
+    const minutes = preferences.preferred_time_minutes ?? 30;
+    const difficulty = preferences.preferred_difficulty ?? 'Easy';
+    const cuisine = preferences.tastes?.[0] ?? 'Home cooking';
+
+    const recipes: GeneratedRecipe[] = [
+      {
+        title: `${first} and ${second} Skillet`,
+        description: `A quick ${cuisine.toLowerCase()} skillet built around ${first.toLowerCase()}.`,
+        difficulty,
+        type: cuisine,
+        time: `${minutes} minutes`,
+        ingredients: [first, second].map((name) => ({ name, quantity: 1, unit: 'cup' })),
+        instructions: [
+          `Heat your ${utensil} over medium heat.`,
+          `Add the ${first.toLowerCase()} and cook until lightly browned.`,
+          `Stir in the ${second.toLowerCase()} and cook for a few more minutes.`,
+          'Season to taste and serve warm.',
+        ],
+        servings,
+      },
+      {
+        title: `Roasted ${ingredients.slice(0, 3).join(', ') || first} Bowl`,
+        description: 'A slower, oven-style take on what you have in your pantry.',
+        difficulty,
+        type: cuisine,
+        time: `${minutes + 15} minutes`,
+        ingredients: (ingredients.length > 0 ? ingredients.slice(0, 4) : [first]).map((name) => ({
+          name,
+          quantity: 200,
+          unit: 'g',
+        })),
+        instructions: [
+          'Preheat the oven to 200°C.',
+          'Chop everything into even pieces and spread on a tray.',
+          'Roast for 25 minutes, turning halfway through.',
+          'Divide between bowls and serve.',
+        ],
+        servings,
+      },
+    ];
+
+    return JSON.stringify(recipes);
+  }
+}
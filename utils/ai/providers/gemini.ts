@@ -0,0 +1,46 @@
+import { GoogleGenAI } from '@google/genai';
+import { buildRecipePrompt } from '../prompt';
+import { RecipeSchema } from '../schema';
+import { RecipeGenerationRequest, RecipeProvider } from '../types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export class GeminiRecipeProvider implements RecipeProvider {
+  readonly name = 'gemini';
+  private genAI: GoogleGenAI;
+
+  constructor(
+    apiKey: string | undefined,
+    private model: string = DEFAULT_GEMINI_MODEL
+  ) {
+    if (!apiKey) {
+      throw new Error(
+        'Google AI API key is required. Please add EXPO_PUBLIC_GOOGLE_AI_API_KEY to your .env file.'
+      );
+    }
+    this.genAI = new GoogleGenAI({ apiKey });
+  }
+
+  async generateRecipes(request: RecipeGenerationRequest): Promise<string> {
+    const prompt = buildRecipePrompt(request);
+
+    console.log('📤 AI Service: Sending prompt to Gemini API...');
+    console.log('📄 Prompt length:', prompt.length, 'characters');
+
+    const response = await this.genAI.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: RecipeSchema,
+      },
+    });
+
+    console.log('📥 AI Service: Received response from Gemini API');
+
+    if (!response.text) {
+      throw new Error('No response received from AI service.');
+    }
+    return response.text;
+  }
+}
@@ -0,0 +1,100 @@
+import { buildRecipePrompt } from '../prompt';
+import { RecipeJsonSchema } from '../schema';
+import { RecipeGenerationRequest, RecipeProvider } from '../types';
+import { RecipeValidationError } from '../validation';
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: {
+      content?: string | null;
+    };
+  }[];
+}
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API (OpenAI itself,
+ * OpenRouter, a local llama.cpp or Ollama instance, ...).
+ *
+ * Structured output has to be an object, so the recipe array is wrapped in `{ recipes }`
+ * on the wire and unwrapped again before it is handed back.
+ */
+export class OpenAICompatibleRecipeProvider implements RecipeProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private baseUrl: string | undefined,
+    private apiKey: string | undefined,
+    private model: string | undefined
+  ) {
+    if (!baseUrl || !model) {
+      throw new Error(
+        'OpenAI-compatible provider requires EXPO_PUBLIC_OPENAI_BASE_URL and EXPO_PUBLIC_AI_MODEL in your .env file.'
+      );
+    }
+  }
+
+  async generateRecipes(request: RecipeGenerationRequest): Promise<string> {
+    const prompt = buildRecipePrompt(request);
+    const url = `${this.baseUrl!.replace(/\/+$/, '')}/chat/completions`;
+
+    console.log('📤 AI Service: Sending prompt to', url);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'recipes',
+            strict: true,
+            schema: {
+              type: 'object',
+              properties: { recipes: RecipeJsonSchema },
+              required: ['recipes'],
+              additionalProperties: false,
+            },
+          },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`AI provider responded with ${response.status}: ${await response.text()}`);
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    const content = body.choices?.[0]?.message?.content;
+
+    console.log('📥 AI Service: Received response from OpenAI-compatible API');
+
+    if (!content) {
+      throw new Error('No response received from AI service.');
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new RecipeValidationError(
+        [{ field: '(root)', message: 'is not valid JSON (the response may be truncated)' }],
+        content
+      );
+    }
+
+    // The schema wraps the list in `{ recipes }`; some servers ignore it and send the list
+    if (Array.isArray(parsed)) return JSON.stringify(parsed);
+    if (!parsed || typeof parsed !== 'object') {
+      throw new RecipeValidationError(
+        [{ field: '(root)', message: 'is not an object with a recipes list' }],
+        content
+      );
+    }
+    return JSON.stringify((parsed as { recipes?: unknown }).recipes ?? []);
+  }
+}
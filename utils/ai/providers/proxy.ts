@@ -0,0 +1,49 @@
+import { RecipeGenerationRequest, RecipeProvider } from '../types';
+
+/**
+ * Calls the `generate-recipes` Edge Function, which holds the model key on the server
+ * and authenticates the caller with their Supabase access token.
+ */
+export class ProxyRecipeProvider implements RecipeProvider {
+  readonly name = 'proxy';
+
+  constructor(
+    private url: string,
+    private anonKey: string,
+    private getAccessToken: () => Promise<string | undefined>
+  ) {}
+
+  async generateRecipes(request: RecipeGenerationRequest): Promise<string> {
+    const accessToken = await this.getAccessToken();
+    if (!accessToken) {
+      throw new Error('You must be signed in to generate recipes.');
+    }
+
+    console.log('📤 AI Service: Sending request to AI proxy', this.url);
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+        apikey: this.anonKey,
+      },
+      body: JSON.stringify(request),
+    });
+
+    const text = await response.text();
+
+    if (!response.ok) {
+      let message = text;
+      try {
+        message = (JSON.parse(text) as { error?: string }).error ?? text;
+      } catch {
+        // Not JSON, keep the raw body
+      }
+      throw new Error(`AI proxy responded with ${response.status}: ${message}`);
+    }
+
+    console.log('📥 AI Service: Received response from AI proxy');
+    return text;
+  }
+}
@@ -0,0 +1,114 @@
+import { Schema, Type } from '@google/genai';
+import { UNITS } from '~/utils/units';
+
+// Recipe schema for AI generation
+export const RecipeSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: {
+        type: Type.STRING,
+        description: 'Recipe title',
+      },
+      description: {
+        type: Type.STRING,
+        description: 'Brief description of the recipe',
+      },
+      difficulty: {
+        type: Type.STRING,
+        enum: ['Easy', 'Medium', 'Hard'],
+        description: 'Difficulty level of the recipe',
+      },
+      type: {
+        type: Type.STRING,
+        description: 'Type of cuisine or meal category',
+      },
+      time: {
+        type: Type.STRING,
+        description: "Total cooking time (e.g., '30 minutes', '1 hour')",
+      },
+      ingredients: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: {
+              type: Type.STRING,
+              description: 'Ingredient name',
+            },
+            quantity: {
+              type: Type.NUMBER,
+              description: 'Numeric amount of the ingredient (e.g., 2, 0.5, 200)',
+            },
+            unit: {
+              type: Type.STRING,
+              enum: [...UNITS],
+              description: "Unit of the amount (e.g., 'cups', 'tbsp', 'g')",
+            },
+          },
+          propertyOrdering: ['name', 'quantity', 'unit'],
+        },
+        description: 'List of ingredients with quantities',
+      },
+      instructions: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.STRING,
+        },
+        description: 'Step-by-step cooking instructions',
+      },
+      servings: {
+        type: Type.NUMBER,
+        description: 'Number of servings',
+      },
+    },
+    propertyOrdering: [
+      'title',
+      'description',
+      'difficulty',
+      'type',
+      'time',
+      'ingredients',
+      'instructions',
+      'servings',
+    ],
+  },
+};
+
+export type JsonSchema = {
+  type?: string;
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  default?: unknown;
+  minItems?: number;
+};
+
+/**
+ * Converts a Gemini `Schema` into plain JSON Schema so providers that speak the
+ * OpenAI dialect can be sent the same shape. Every declared property is required.
+ */
+export function toJsonSchema(schema: Schema): JsonSchema {
+  const result: JsonSchema = {};
+
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    result.required = Object.keys(schema.properties);
+    result.additionalProperties = false;
+  }
+
+  return result;
+}
+
+export const RecipeJsonSchema = toJsonSchema(RecipeSchema);
@@ -0,0 +1,52 @@
+import { RecipeIngredient } from '~/utils/units';
+
+export interface GeneratedRecipe {
+  title: string;
+  description: string;
+  difficulty: 'Easy' | 'Medium' | 'Hard';
+  type: string;
+  time: string;
+  ingredients: RecipeIngredient[];
+  instructions: string[];
+  servings: number;
+}
+
+export type AllergySeverity = 'mild' | 'moderate' | 'severe';
+
+/** An allergen the user must not eat, e.g. `{ allergen: 'Peanuts', severity: 'severe' }`. */
+export interface Allergy {
+  allergen: string;
+  severity: AllergySeverity;
+}
+
+export interface RecipePreferences {
+  diets?: string[];
+  allergies?: Allergy[];
+  tastes?: string[];
+  preferred_difficulty?: 'Easy' | 'Medium' | 'Hard';
+  preferred_time_minutes?: number;
+  preferred_portions?: number;
+}
+
+export interface RecipeGenerationRequest {
+  ingredients: string[];
+  utensils: string[];
+  preferences: RecipePreferences;
+  /** Inventory items close to their expiry date, which recipes should use first. */
+  expiringIngredients?: string[];
+  /** Why the previous attempt was rejected, used when re-prompting. */
+  feedback?: string;
+}
+
+/**
+ * A backend capable of turning a generation request into recipes.
+ *
+ * Providers return the raw JSON text of a `GeneratedRecipe[]` and leave parsing to
+ * `AIService`, so every backend goes through the same parsing and error handling.
+ */
+export interface RecipeProvider {
+  readonly name: string;
+  generateRecipes(request: RecipeGenerationRequest): Promise<string>;
+}
+
+export type RecipeProviderName = 'proxy' | 'gemini' | 'openai' | 'fixture';
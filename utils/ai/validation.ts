@@ -0,0 +1,171 @@
+import Ajv, { ErrorObject } from 'ajv';
+import { toRecipeIngredient } from '~/utils/units';
+import { JsonSchema, RecipeJsonSchema } from './schema';
+import { GeneratedRecipe } from './types';
+
+export interface RecipeValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown when an AI response cannot be turned into `GeneratedRecipe[]`, even after
+ * coercion. `fields` lists the offending paths, e.g. `[0].ingredients[1].quantity`.
+ */
+export class RecipeValidationError extends Error {
+  constructor(
+    public readonly issues: RecipeValidationIssue[],
+    public readonly responseText: string
+  ) {
+    super(
+      `AI response did not match the recipe format: ${issues
+        .map((issue) => `${issue.field} ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'RecipeValidationError';
+  }
+
+  get fields() {
+    return [...new Set(this.issues.map((issue) => issue.field))];
+  }
+}
+
+/**
+ * Thrown when every recipe still contains one of the user's allergens after regenerating.
+ * `allergens` names the allergies they contained, e.g. `['Peanuts']`.
+ */
+export class AllergenConflictError extends Error {
+  constructor(public readonly allergens: string[]) {
+    super(`Every generated recipe contained a declared allergen: ${allergens.join(', ')}`);
+    this.name = 'AllergenConflictError';
+  }
+}
+
+// Missing arrays are filled with [] by Ajv's `useDefaults` instead of failing `required`.
+function withArrayDefaults(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = { ...schema };
+  if (schema.items) result.items = withArrayDefaults(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        value.type === 'array'
+          ? { ...withArrayDefaults(value), default: [] }
+          : withArrayDefaults(value),
+      ])
+    );
+  }
+  return result;
+}
+
+const ajv = new Ajv({
+  allErrors: true,
+  coerceTypes: 'array',
+  useDefaults: true,
+  removeAdditional: true,
+  strict: false,
+});
+
+const validateRecipes = ajv.compile<GeneratedRecipe[]>({
+  ...withArrayDefaults(RecipeJsonSchema),
+  minItems: 1,
+});
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Fixes the mistakes models commonly make that Ajv's own coercion does not cover:
+ * a `{ recipes: [...] }` wrapper, a lone recipe object, "4 servings", "easy", numeric
+ * cooking times and free-text quantities like "2 cups".
+ */
+function coerceRecipes(data: unknown): unknown {
+  if (isObject(data) && Array.isArray(data.recipes)) data = data.recipes;
+  if (isObject(data)) data = [data];
+  if (!Array.isArray(data)) return data;
+
+  return data.map((recipe) => {
+    if (!isObject(recipe)) return recipe;
+    const result = { ...recipe };
+
+    if (typeof result.servings === 'string') {
+      const servings = parseFloat(result.servings);
+      if (!isNaN(servings)) result.servings = servings;
+    }
+    if (typeof result.difficulty === 'string') {
+      const difficulty = DIFFICULTIES.find(
+        (option) => option.toLowerCase() === (result.difficulty as string).trim().toLowerCase()
+      );
+      if (difficulty) result.difficulty = difficulty;
+    }
+    if (typeof result.time === 'number') {
+      result.time = `${result.time} minutes`;
+    }
+    if (Array.isArray(result.ingredients)) {
+      result.ingredients = result.ingredients.map((ingredient) =>
+        isObject(ingredient) && typeof ingredient.name === 'string'
+          ? toRecipeIngredient({
+              name: ingredient.name,
+              quantity: ingredient.quantity,
+              unit: ingredient.unit,
+            })
+          : ingredient
+      );
+    }
+    return result;
+  });
+}
+
+function formatPath(instancePath: string) {
+  return instancePath
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (/^\d+$/.test(segment) ? `[${segment}]` : `.${segment}`))
+    .join('')
+    .replace(/^\./, '');
+}
+
+function toIssue(error: ErrorObject): RecipeValidationIssue {
+  const path =
+    error.keyword === 'required'
+      ? `${error.instancePath}/${(error.params as { missingProperty: string }).missingProperty}`
+      : error.instancePath;
+  return { field: formatPath(path) || '(root)', message: error.message ?? 'is invalid' };
+}
+
+/**
+ * Parses and validates a raw AI response against `RecipeSchema`, coercing common
+ * mistakes along the way. Throws `RecipeValidationError` if it still does not fit.
+ */
+export function parseGeneratedRecipes(text: string): GeneratedRecipe[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RecipeValidationError(
+      [{ field: '(root)', message: 'is not valid JSON (the response may be truncated)' }],
+      text
+    );
+  }
+
+  data = coerceRecipes(data);
+
+  if (!validateRecipes(data)) {
+    throw new RecipeValidationError((validateRecipes.errors ?? []).map(toIssue), text);
+  }
+
+  return data;
+}
+
+/** User-facing message for a failed generation, naming the fields when validation failed. */
+export function getGenerationErrorMessage(error: unknown) {
+  if (error instanceof RecipeValidationError) {
+    return `The recipes we received were incomplete (${error.fields.join(', ')}). Please try again.`;
+  }
+  if (error instanceof AllergenConflictError) {
+    return `We couldn't make recipes without ${error.allergens.join(', ')} from your ingredients. Please try again.`;
+  }
+  return 'Failed to generate recipes. Please try again.';
+}
@@ -0,0 +1,436 @@
+// Finds the allergens in free-text recipe ingredients ("2 tbsp basil pesto") for the
+// allergies a user declared in their preferences. Errs towards flagging: a false alarm
+// costs a regeneration, a miss can hurt someone.
+
+import { Allergy } from '~/utils/ai';
+import { normalizeIngredientName } from '~/utils/ingredientMatch';
+
+/** The 14 major allergens that food labels must declare in the UK and EU. */
+export const MAJOR_ALLERGENS = [
+  'Peanuts',
+  'Tree Nuts',
+  'Milk',
+  'Eggs',
+  'Fish',
+  'Crustaceans',
+  'Molluscs',
+  'Soy',
+  'Gluten',
+  'Sesame',
+  'Mustard',
+  'Celery',
+  'Lupin',
+  'Sulphites',
+] as const;
+
+export type MajorAllergen = (typeof MAJOR_ALLERGENS)[number];
+
+// Other names users give an allergy, e.g. a custom "Dairy" allergy is the milk allergen
+const ALLERGEN_ALIASES: Record<string, MajorAllergen[]> = {
+  peanut: ['Peanuts'],
+  groundnut: ['Peanuts'],
+  // Peanuts are legumes, but a "nuts" allergy nearly always covers them
+  nut: ['Peanuts', 'Tree Nuts'],
+  'tree nut': ['Tree Nuts'],
+  dairy: ['Milk'],
+  lactose: ['Milk'],
+  casein: ['Milk'],
+  egg: ['Eggs'],
+  shellfish: ['Crustaceans', 'Molluscs'],
+  crustacean: ['Crustaceans'],
+  mollusc: ['Molluscs'],
+  mollusk: ['Molluscs'],
+  soya: ['Soy'],
+  soybean: ['Soy'],
+  wheat: ['Gluten'],
+  coeliac: ['Gluten'],
+  celiac: ['Gluten'],
+  'cereals containing gluten': ['Gluten'],
+  sulfite: ['Sulphites'],
+  'sulphur dioxide': ['Sulphites'],
+  'sulfur dioxide': ['Sulphites'],
+  lupine: ['Lupin'],
+};
+
+// Ingredients that name an allergen or are plainly made from it
+const SOURCES: Record<MajorAllergen, string[]> = {
+  Peanuts: ['peanut', 'groundnut', 'monkey nut', 'arachis oil'],
+  'Tree Nuts': [
+    'nut',
+    'almond',
+    'hazelnut',
+    'walnut',
+    'cashew',
+    'pecan',
+    'pistachio',
+    'macadamia',
+    'brazil nut',
+    'pine nut',
+    'chestnut',
+  ],
+  Milk: [
+    'milk',
+    'butter',
+    'buttermilk',
+    'cream',
+    'cheese',
+    'yogurt',
+    'yoghurt',
+    'ghee',
+    'whey',
+    'casein',
+    'kefir',
+    'creme fraiche',
+    'parmesan',
+    'mozzarella',
+    'cheddar',
+    'feta',
+    'ricotta',
+    'mascarpone',
+    'paneer',
+    'halloumi',
+    'brie',
+    'gouda',
+    'gruyere',
+    'pecorino',
+  ],
+  Eggs: ['egg', 'meringue'],
+  Fish: [
+    'fish',
+    'salmon',
+    'tuna',
+    'cod',
+    'haddock',
+    'anchovy',
+    'sardine',
+    'mackerel',
+    'trout',
+    'tilapia',
+    'halibut',
+    'bass',
+    'snapper',
+    'pollock',
+    'herring',
+    'swordfish',
+    'bonito',
+    'roe',
+    'caviar',
+    'surimi',
+  ],
+  Crustaceans: [
+    'shrimp',
+    'crab',
+    'lobster',
+    'crayfish',
+    'crawfish',
+    'langoustine',
+    'scampi',
+    'krill',
+  ],
+  Molluscs: [
+    'mussel',
+    'clam',
+    'oyster',
+    'scallop',
+    'squid',
+    'calamari',
+    'octopus',
+    'cuttlefish',
+    'snail',
+    'escargot',
+    'abalone',
+    'cockle',
+    'whelk',
+  ],
+  Soy: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari', 'natto'],
+  Gluten: [
+    'wheat',
+    'flour',
+    'barley',
+    'rye',
+    'oat',
+    'oatmeal',
+    'spelt',
+    'semolina',
+    'durum',
+    'couscous',
+    'bulgur',
+    'farro',
+    'seitan',
+    'bread',
+    'breadcrumb',
+    'panko',
+    'crouton',
+    'pasta',
+    'spaghetti',
+    'macaroni',
+    'penne',
+    'fusilli',
+    'lasagna',
+    'lasagne',
+    'linguine',
+    'fettuccine',
+    'tagliatelle',
+    'noodle',
+    'tortilla',
+    'pita',
+    'naan',
+    'cracker',
+    'biscuit',
+    'pastry',
+    'malt',
+    'beer',
+  ],
+  Sesame: ['sesame', 'tahini'],
+  Mustard: ['mustard', 'dijon'],
+  Celery: ['celery', 'celeriac'],
+  Lupin: ['lupin', 'lupine'],
+  Sulphites: ['sulphite', 'sulfite', 'wine', 'sherry', 'vermouth', 'port', 'cider'],
+};
+
+// Ingredients that contain allergens their name doesn't mention
+const HIDDEN_SOURCES: Record<string, MajorAllergen[]> = {
+  pesto: ['Tree Nuts', 'Milk'],
+  marzipan: ['Tree Nuts'],
+  praline: ['Tree Nuts'],
+  nougat: ['Tree Nuts', 'Eggs'],
+  frangipane: ['Tree Nuts', 'Eggs', 'Milk', 'Gluten'],
+  nutella: ['Tree Nuts', 'Milk'],
+  amaretto: ['Tree Nuts'],
+  satay: ['Peanuts'],
+  mayonnaise: ['Eggs', 'Mustard'],
+  mayo: ['Eggs', 'Mustard'],
+  aioli: ['Eggs'],
+  hollandaise: ['Eggs', 'Milk'],
+  bearnaise: ['Eggs', 'Milk'],
+  custard: ['Eggs', 'Milk'],
+  brioche: ['Eggs', 'Milk', 'Gluten'],
+  'caesar dressing': ['Fish', 'Eggs', 'Milk'],
+  'tartar sauce': ['Eggs', 'Mustard'],
+  bechamel: ['Milk', 'Gluten'],
+  alfredo: ['Milk'],
+  tzatziki: ['Milk'],
+  raita: ['Milk'],
+  chocolate: ['Milk'],
+  worcestershire: ['Fish', 'Gluten'],
+  'fish sauce': ['Fish'],
+  dashi: ['Fish'],
+  'imitation crab': ['Fish', 'Eggs'],
+  // Imitation crab too, sometimes with crab extract
+  'crab stick': ['Fish', 'Eggs', 'Crustaceans'],
+  crabstick: ['Fish', 'Eggs', 'Crustaceans'],
+  'seafood stick': ['Fish', 'Eggs', 'Crustaceans'],
+  kanikama: ['Fish', 'Eggs'],
+  'shrimp paste': ['Crustaceans'],
+  'curry paste': ['Crustaceans', 'Fish'],
+  bisque: ['Crustaceans', 'Milk'],
+  'oyster sauce': ['Molluscs', 'Soy', 'Gluten'],
+  'soy sauce': ['Soy', 'Gluten'],
+  teriyaki: ['Soy', 'Gluten'],
+  hoisin: ['Soy', 'Gluten'],
+  'bean curd': ['Soy'],
+  hummus: ['Sesame'],
+  halva: ['Sesame'],
+  'za atar': ['Sesame'],
+  furikake: ['Sesame', 'Fish'],
+  stock: ['Celery'],
+  broth: ['Celery'],
+  bouillon: ['Celery', 'Gluten'],
+  mirepoix: ['Celery'],
+  soffritto: ['Celery'],
+  'balsamic vinegar': ['Sulphites'],
+  raisin: ['Sulphites'],
+  sultana: ['Sulphites'],
+  prune: ['Sulphites'],
+  mirin: ['Sulphites'],
+};
+
+// Names that contain an allergen's word but mean something else, or a different allergen
+const LOOKALIKES: Record<string, MajorAllergen[]> = {
+  'peanut butter': ['Peanuts'],
+  'peanut oil': ['Peanuts'],
+  'almond butter': ['Tree Nuts'],
+  'cashew butter': ['Tree Nuts'],
+  'almond milk': ['Tree Nuts'],
+  'cashew milk': ['Tree Nuts'],
+  'almond flour': ['Tree Nuts'],
+  'oat milk': ['Gluten'],
+  'soy milk': ['Soy'],
+  'coconut milk': [],
+  'coconut cream': [],
+  'rice milk': [],
+  'cocoa butter': [],
+  'apple butter': [],
+  'cream of tartar': [],
+  'butter bean': [],
+  'water chestnut': [],
+  'oyster mushroom': [],
+  'rice flour': [],
+  'corn flour': [],
+  'coconut flour': [],
+  'chickpea flour': [],
+  'potato flour': [],
+  'tapioca flour': [],
+  'rice noodle': [],
+  'glass noodle': [],
+  'corn tortilla': [],
+  'wine vinegar': ['Sulphites'],
+};
+
+// Words that can come before "free" or "-free", by the allergens they rule out. Only names
+// of a whole class count: lactose-free milk is still milk, and wheat-free bread can be
+// made with rye or barley.
+const FREE_FROM: Record<string, MajorAllergen[]> = {
+  dairy: ['Milk'],
+  milk: ['Milk'],
+  gluten: ['Gluten'],
+  egg: ['Eggs'],
+  nut: ['Peanuts', 'Tree Nuts'],
+  peanut: ['Peanuts'],
+  fish: ['Fish'],
+  shellfish: ['Crustaceans', 'Molluscs'],
+  soy: ['Soy'],
+  soya: ['Soy'],
+  sesame: ['Sesame'],
+  mustard: ['Mustard'],
+  celery: ['Celery'],
+  lupin: ['Lupin'],
+  sulphite: ['Sulphites'],
+  sulfite: ['Sulphites'],
+};
+
+const ALIASES = new Map(
+  Object.entries(ALLERGEN_ALIASES).map(([alias, allergens]) => [
+    normalizeIngredientName(alias),
+    allergens,
+  ])
+);
+
+interface Phrase {
+  words: string[];
+  allergens: { allergen: MajorAllergen; hidden: boolean }[];
+}
+
+const toWords = (name: string) => normalizeIngredientName(name).split(' ').filter(Boolean);
+
+// Whether a name mentions the allergen, like the soy in "soy sauce"
+const names = (words: string[], allergen: MajorAllergen) =>
+  SOURCES[allergen].some((source) => toWords(source).every((word) => words.includes(word)));
+
+// Longest first, so "peanut butter" is read as one ingredient before "butter" is
+const PHRASES: Phrase[] = [
+  ...Object.entries(SOURCES).flatMap(([allergen, sources]) =>
+    sources.map((source) => ({
+      words: toWords(source),
+      allergens: [{ allergen: allergen as MajorAllergen, hidden: false }],
+    }))
+  ),
+  ...Object.entries(HIDDEN_SOURCES).map(([source, allergens]) => {
+    const words = toWords(source);
+    return {
+      words,
+      allergens: allergens.map((allergen) => ({ allergen, hidden: !names(words, allergen) })),
+    };
+  }),
+  ...Object.entries(LOOKALIKES).map(([source, allergens]) => ({
+    words: toWords(source),
+    allergens: allergens.map((allergen) => ({ allergen, hidden: false })),
+  })),
+].sort((a, b) => b.words.length - a.words.length);
+
+/**
+ * The major allergens an allergy stands for: its own name or one of its aliases, so
+ * "Shellfish" is both crustaceans and molluscs. Empty for anything else, like "Kiwi".
+ */
+export function resolveAllergy(allergen: string): MajorAllergen[] {
+  const name = normalizeIngredientName(allergen);
+  const major = MAJOR_ALLERGENS.find((candidate) => normalizeIngredientName(candidate) === name);
+  return major ? [major] : (ALIASES.get(name) ?? []);
+}
+
+/**
+ * The major allergens in one ingredient, each marked hidden when the name doesn't say so,
+ * like the tree nuts in pesto. A free-from qualifier only clears what the word right after
+ * it names: "gluten-free pasta" has no gluten, but "nut-free pesto with cashews" has nuts.
+ */
+export function allergensIn(name: string): { allergen: MajorAllergen; hidden: boolean }[] {
+  const words = toWords(name);
+  const used = words.map(() => false);
+  const found = new Map<MajorAllergen, boolean>();
+
+  // Allergens ruled out for the phrase starting at each index, by "dairy-free" or "egg free"
+  const ruledOut = new Map<number, MajorAllergen[]>();
+  words.forEach((word, index) => {
+    const hyphenated = word.endsWith('-free') ? FREE_FROM[word.slice(0, -'-free'.length)] : null;
+    if (hyphenated) {
+      used[index] = true;
+      ruledOut.set(index + 1, hyphenated);
+    } else if (words[index + 1] === 'free' && FREE_FROM[word]) {
+      used[index] = used[index + 1] = true;
+      ruledOut.set(index + 2, FREE_FROM[word]);
+    }
+  });
+
+  for (const phrase of PHRASES) {
+    for (let start = 0; start + phrase.words.length <= words.length; start++) {
+      const matches = phrase.words.every(
+        (word, offset) => words[start + offset] === word && !used[start + offset]
+      );
+      if (!matches) continue;
+
+      phrase.words.forEach((_word, offset) => (used[start + offset] = true));
+      for (const { allergen, hidden } of phrase.allergens) {
+        if (ruledOut.get(start)?.includes(allergen)) continue;
+        found.set(allergen, (found.get(allergen) ?? true) && hidden);
+      }
+    }
+  }
+
+  return [...found].map(([allergen, hidden]) => ({ allergen, hidden }));
+}
+
+/** A recipe ingredient the user is allergic to. */
+export interface AllergenMatch {
+  ingredient: string;
+  allergy: Allergy;
+  /** The allergen isn't in the ingredient's name, e.g. tree nuts in pesto. */
+  hidden: boolean;
+}
+
+/**
+ * Checks recipe ingredients against the user's allergies. Major allergens are found
+ * through their sources; any other allergy, like "Strawberries", matches any ingredient
+ * whose name contains it, such as "strawberry jam".
+ */
+export function findAllergens(
+  recipeIngredients: { name: string }[],
+  allergies: Allergy[]
+): AllergenMatch[] {
+  if (allergies.length === 0) return [];
+
+  return recipeIngredients.flatMap(({ name }) => {
+    const contained = allergensIn(name);
+
+    return allergies.flatMap((allergy): AllergenMatch[] => {
+      const majors = resolveAllergy(allergy.allergen);
+      if (majors.length === 0) {
+        const allergyWords = toWords(allergy.allergen);
+        const ingredientWords = toWords(name);
+        return allergyWords.length > 0 &&
+          allergyWords.every((word) => ingredientWords.includes(word))
+          ? [{ ingredient: name, allergy, hidden: false }]
+          : [];
+      }
+
+      const hits = contained.filter(({ allergen }) => majors.includes(allergen));
+      return hits.length > 0
+        ? [{ ingredient: name, allergy, hidden: hits.every(({ hidden }) => hidden) }]
+        : [];
+    });
+  });
+}
+
+/** "Pesto usually contains Tree Nuts", for warnings and feedback to the model. */
+export function describeAllergenMatch({ ingredient, allergy, hidden }: AllergenMatch) {
+  return `${ingredient} ${hidden ? 'usually contains' : 'contains'} ${allergy.allergen}`;
+}
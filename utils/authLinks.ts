@@ -0,0 +1,106 @@
+import { EmailOtpType } from '@supabase/supabase-js';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+
+import { supabase } from '~/utils/supabase';
+
+/**
+ * Where emailed auth links and OAuth providers send the user back to, e.g.
+ * `chef://auth/callback`. Must be listed under the Supabase project's Auth redirect URLs.
+ */
+export const AUTH_REDIRECT_URL = Linking.createURL('/auth/callback');
+
+/**
+ * For password reset emails. With PKCE the link only carries a code, so the type is
+ * added here for the app to know it's a recovery before the session arrives.
+ */
+export const PASSWORD_RESET_REDIRECT_URL = Linking.createURL('/auth/callback', {
+  queryParams: { type: 'recovery' },
+});
+
+export type OAuthProvider = 'google' | 'apple';
+
+/** A sign-up confirmation, magic link, password recovery or OAuth redirect into the app. */
+export interface AuthLink {
+  type: EmailOtpType;
+  params: Record<string, string>;
+}
+
+// Codes, token hashes and errors come in the query; some errors arrive in the fragment
+function linkParams(url: string) {
+  const [withoutFragment, fragment = ''] = url.split('#');
+  const query = withoutFragment.split('?')[1] ?? '';
+  const params: Record<string, string> = {};
+  for (const pair of [...query.split('&'), ...fragment.split('&')]) {
+    if (!pair) continue;
+    const [key, value = ''] = pair.split('=');
+    params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  }
+  return params;
+}
+
+// The link without its query and fragment
+const withoutParams = (url: string) => url.split(/[?#]/)[0];
+
+/**
+ * The auth link in `url`, or null when it's some other link into the app. Only links to
+ * the callback with a PKCE code or an email token hash count. A session carried in a link
+ * is never taken, since anyone could craft one to sign the user into their own account.
+ */
+export function parseAuthLink(url: string): AuthLink | null {
+  if (withoutParams(url) !== withoutParams(AUTH_REDIRECT_URL)) return null;
+
+  const params = linkParams(url);
+  if (!params.code && !params.token_hash && !params.error_description) return null;
+  return { type: (params.type as EmailOtpType | undefined) ?? 'magiclink', params };
+}
+
+// On Android an OAuth redirect both resolves the browser session and opens the app's URL;
+// the code can only be exchanged once, so the second caller shares the first's result
+const completions = new Map<string, Promise<void>>();
+
+async function exchange({ type, params }: AuthLink) {
+  if (params.error_description) throw new Error(params.error_description);
+
+  if (params.code) {
+    const { error } = await supabase.auth.exchangeCodeForSession(params.code);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.auth.verifyOtp({ token_hash: params.token_hash, type });
+  if (error) throw error;
+}
+
+/** Signs in with the link's session. Throws when the link has expired or was already used. */
+export function completeAuthLink(link: AuthLink) {
+  const { code, token_hash, error_description } = link.params;
+  const key = code ?? token_hash ?? error_description;
+  let completion = completions.get(key);
+  if (!completion) {
+    completion = exchange(link);
+    completions.set(key, completion);
+  }
+  return completion;
+}
+
+/**
+ * Signs in with an OAuth provider in the system browser. An existing account with the
+ * same verified email gets the provider linked to it rather than a second account.
+ * Resolves to false if the user closed the browser without signing in.
+ */
+export async function signInWithProvider(provider: OAuthProvider) {
+  const { data, error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo: AUTH_REDIRECT_URL, skipBrowserRedirect: true },
+  });
+  if (error) throw error;
+
+  const result = await WebBrowser.openAuthSessionAsync(data.url, AUTH_REDIRECT_URL);
+  if (result.type !== 'success') return false;
+
+  const link = parseAuthLink(result.url);
+  if (!link) throw new Error('The sign-in was not completed');
+  await completeAuthLink(link);
+  return true;
+}
@@ -0,0 +1,186 @@
+// Converts amounts between the units in `UNITS`. Mass and volume convert within their own
+// dimension directly and across dimensions through per-ingredient densities. Counts only
+// convert within a family (pieces and wholes, cloves, sticks, bunches) and reach mass
+// through per-ingredient weights, e.g. a stick of butter or a clove of garlic.
+//
+// The same tables are seeded into `unit_definitions` and `ingredient_densities` by
+// supabase/migrations/20261018100000_unit_conversion.sql for the cook RPC. Keep them in sync.
+
+import { normalizeIngredientName } from '~/utils/ingredientMatch';
+import { Unit, isUnit, unitForAmount } from '~/utils/units';
+
+export type Dimension = 'mass' | 'volume' | 'count';
+
+export type CountFamily = 'piece' | 'clove' | 'stick' | 'bunch';
+
+interface UnitDefinition {
+  dimension: Dimension;
+  /** Size of one unit in the dimension's base unit: grams, millilitres or items */
+  factor: number;
+  family?: CountFamily;
+}
+
+export const UNIT_DEFINITIONS: Record<Unit, UnitDefinition> = {
+  mg: { dimension: 'mass', factor: 0.001 },
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', factor: 28.3495 },
+  lb: { dimension: 'mass', factor: 453.592 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+  cup: { dimension: 'volume', factor: 240 },
+  cups: { dimension: 'volume', factor: 240 },
+  tbsp: { dimension: 'volume', factor: 15 },
+  tsp: { dimension: 'volume', factor: 5 },
+  pinch: { dimension: 'volume', factor: 0.3 },
+  dash: { dimension: 'volume', factor: 0.6 },
+  piece: { dimension: 'count', factor: 1, family: 'piece' },
+  pieces: { dimension: 'count', factor: 1, family: 'piece' },
+  whole: { dimension: 'count', factor: 1, family: 'piece' },
+  clove: { dimension: 'count', factor: 1, family: 'clove' },
+  cloves: { dimension: 'count', factor: 1, family: 'clove' },
+  stick: { dimension: 'count', factor: 1, family: 'stick' },
+  bunch: { dimension: 'count', factor: 1, family: 'bunch' },
+};
+
+interface IngredientDensity {
+  /** Grams per millilitre, for volume <-> mass */
+  gramsPerMl?: number;
+  /** Grams per item of each count family, for count <-> mass */
+  gramsPerCount?: Partial<Record<CountFamily, number>>;
+}
+
+// Keyed by normalized ingredient name; the most specific key contained in a name wins,
+// so "brown sugar" uses its own entry and "caster sugar" falls back to "sugar".
+export const INGREDIENT_DENSITIES: Record<string, IngredientDensity> = {
+  flour: { gramsPerMl: 0.53 },
+  'bread flour': { gramsPerMl: 0.55 },
+  'whole wheat flour': { gramsPerMl: 0.51 },
+  sugar: { gramsPerMl: 0.85 },
+  'brown sugar': { gramsPerMl: 0.93 },
+  'powdered sugar': { gramsPerMl: 0.5 },
+  'icing sugar': { gramsPerMl: 0.5 },
+  butter: { gramsPerMl: 0.96, gramsPerCount: { stick: 113 } },
+  rice: { gramsPerMl: 0.78 },
+  oat: { gramsPerMl: 0.38 },
+  cornstarch: { gramsPerMl: 0.54 },
+  'cocoa powder': { gramsPerMl: 0.42 },
+  salt: { gramsPerMl: 1.2 },
+  'baking powder': { gramsPerMl: 0.9 },
+  'baking soda': { gramsPerMl: 0.96 },
+  honey: { gramsPerMl: 1.42 },
+  'maple syrup': { gramsPerMl: 1.32 },
+  oil: { gramsPerMl: 0.92 },
+  'olive oil': { gramsPerMl: 0.91 },
+  milk: { gramsPerMl: 1.03 },
+  water: { gramsPerMl: 1 },
+  cream: { gramsPerMl: 1.0 },
+  yogurt: { gramsPerMl: 1.03 },
+  cheese: { gramsPerMl: 0.42 },
+  lentil: { gramsPerMl: 0.81 },
+  pasta: { gramsPerMl: 0.42 },
+  egg: { gramsPerCount: { piece: 50 } },
+  garlic: { gramsPerCount: { clove: 5, piece: 50 } },
+  onion: { gramsPerCount: { piece: 150 } },
+  tomato: { gramsPerCount: { piece: 120 } },
+  potato: { gramsPerCount: { piece: 170 } },
+  carrot: { gramsPerCount: { piece: 60 } },
+  lemon: { gramsPerCount: { piece: 100 } },
+  lime: { gramsPerCount: { piece: 65 } },
+  apple: { gramsPerCount: { piece: 180 } },
+  banana: { gramsPerCount: { piece: 120 } },
+  'bell pepper': { gramsPerCount: { piece: 150 } },
+  'chicken breast': { gramsPerCount: { piece: 200 } },
+  parsley: { gramsPerCount: { bunch: 50 } },
+  cilantro: { gramsPerCount: { bunch: 50 } },
+};
+
+export function getDimension(unit: Unit): Dimension {
+  return UNIT_DEFINITIONS[unit].dimension;
+}
+
+export function findDensity(ingredientName: string): IngredientDensity | null {
+  const tokens = normalizeIngredientName(ingredientName).split(' ').filter(Boolean);
+  let best: { key: string; density: IngredientDensity } | null = null;
+
+  for (const [key, density] of Object.entries(INGREDIENT_DENSITIES)) {
+    const keyTokens = key.split(' ');
+    const contained = keyTokens.every((token) => tokens.includes(token));
+    if (contained && (!best || keyTokens.length > best.key.split(' ').length)) {
+      best = { key, density };
+    }
+  }
+  return best?.density ?? null;
+}
+
+// Grams in one base unit (1 ml, or one item of the unit's count family), if known
+function gramsPerBaseUnit(unit: Unit, density: IngredientDensity | null): number | null {
+  const { dimension, family } = UNIT_DEFINITIONS[unit];
+  if (dimension === 'mass') return 1;
+  if (dimension === 'volume') return density?.gramsPerMl ?? null;
+  return (family && density?.gramsPerCount?.[family]) || null;
+}
+
+/**
+ * Converts `amount` of `ingredientName` from one unit to another. Returns null when the
+ * units cannot be related, e.g. cups to grams for an ingredient with no known density.
+ */
+export function convertQuantity(
+  amount: number,
+  from: Unit,
+  to: Unit,
+  ingredientName = ''
+): number | null {
+  if (from === to) return amount;
+
+  const source = UNIT_DEFINITIONS[from];
+  const target = UNIT_DEFINITIONS[to];
+  if (source.dimension === target.dimension && source.family === target.family) {
+    return (amount * source.factor) / target.factor;
+  }
+
+  const density = findDensity(ingredientName);
+  const sourceGrams = gramsPerBaseUnit(from, density);
+  const targetGrams = gramsPerBaseUnit(to, density);
+  if (sourceGrams === null || targetGrams === null) return null;
+
+  return (amount * source.factor * sourceGrams) / (target.factor * targetGrams);
+}
+
+export function canConvert(from: Unit, to: Unit, ingredientName = '') {
+  return convertQuantity(1, from, to, ingredientName) !== null;
+}
+
+export type UnitSystem = 'metric' | 'imperial';
+
+// Units each system shows amounts in. Spoons, pinches and counts suit both, so are left as is
+const SYSTEM_UNITS: Record<UnitSystem, Record<'mass' | 'volume', Unit[]>> = {
+  metric: { mass: ['kg', 'g', 'mg'], volume: ['l', 'ml'] },
+  imperial: { mass: ['lb', 'oz'], volume: ['cup', 'tbsp', 'tsp'] },
+};
+
+const SHARED_UNITS: Unit[] = ['tbsp', 'tsp', 'pinch', 'dash'];
+
+/**
+ * An amount converted for display in the user's unit system, using the largest unit it
+ * comes to at least one of, e.g. 1200 g as 2.65 lb. Only for showing: stored quantities
+ * keep the unit they were entered in.
+ */
+export function toUnitSystem<T extends { quantity: number; unit: string }>(
+  amount: T,
+  system: UnitSystem
+): T {
+  if (!isUnit(amount.unit) || SHARED_UNITS.includes(amount.unit)) return amount;
+
+  const { dimension } = UNIT_DEFINITIONS[amount.unit];
+  if (dimension === 'count') return amount;
+
+  const targets = SYSTEM_UNITS[system][dimension];
+  if (targets.includes(amount.unit)) return amount;
+
+  const base = amount.quantity * UNIT_DEFINITIONS[amount.unit].factor;
+  const target =
+    targets.find((unit) => base >= UNIT_DEFINITIONS[unit].factor) ?? targets[targets.length - 1];
+  const quantity = base / UNIT_DEFINITIONS[target].factor;
+  return { ...amount, quantity, unit: unitForAmount(quantity, target) };
+}
@@ -0,0 +1,111 @@
+import { convertQuantity } from '~/utils/conversion';
+import { isPantryStaple, matchIngredient } from '~/utils/ingredientMatch';
+import { RecipeIngredient, Unit, formatQuantity, normalizeUnit } from '~/utils/units';
+
+/** A row of the `ingredients` inventory table. */
+export interface InventoryItem {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+export type ShortfallReason = 'missing' | 'insufficient' | 'incompatible';
+
+export type IngredientStatus = 'available' | 'staple' | ShortfallReason;
+
+export interface IngredientCheck {
+  name: string;
+  status: IngredientStatus;
+  /** Amount the recipe needs, in the recipe's unit */
+  needed: number;
+  /** Amount in the inventory, converted to the recipe's unit when possible */
+  available: number;
+  unit: Unit;
+  /** The inventory item the ingredient was matched to, if any */
+  inventoryName?: string;
+}
+
+export interface IngredientShortfall extends IngredientCheck {
+  status: ShortfallReason;
+}
+
+export interface CookCheck {
+  canCook: boolean;
+  ingredients: IngredientCheck[];
+  shortfalls: IngredientShortfall[];
+}
+
+// Rounding in the conversion factors should not make an exact amount look short
+const TOLERANCE = 1e-6;
+
+export function isShortfall(check: IngredientCheck): check is IngredientShortfall {
+  return check.status !== 'available' && check.status !== 'staple';
+}
+
+/** Looks up one recipe ingredient in the inventory, converting to the recipe's unit. */
+export function checkIngredient(
+  ingredient: RecipeIngredient,
+  inventory: InventoryItem[]
+): IngredientCheck {
+  const { name, quantity, unit } = ingredient;
+  const matched = matchIngredient(
+    name,
+    inventory.map((item) => item.name)
+  );
+  const item = matched ? inventory.find((candidate) => candidate.name === matched) : undefined;
+
+  if (!item) {
+    const status = isPantryStaple(name) ? 'staple' : 'missing';
+    return { name, status, needed: quantity, available: 0, unit };
+  }
+
+  const inventoryUnit = normalizeUnit(item.unit);
+  const available = inventoryUnit
+    ? convertQuantity(item.quantity, inventoryUnit, unit, name)
+    : null;
+  const base = { name, needed: quantity, unit, inventoryName: item.name };
+
+  if (available === null) return { ...base, status: 'incompatible', available: 0 };
+  if (available + TOLERANCE < quantity) return { ...base, status: 'insufficient', available };
+  return { ...base, status: 'available', available };
+}
+
+/**
+ * Checks whether the inventory covers every recipe ingredient. Names are matched and units
+ * converted with the same rules and tables as the cook RPC, and ingredients that draw on
+ * the same inventory row ("egg yolk", "egg white") share what it holds, as they do there.
+ * Pantry staples are assumed available when not tracked.
+ */
+export function checkCanCook(
+  recipeIngredients: RecipeIngredient[],
+  inventory: InventoryItem[]
+): CookCheck {
+  // What each inventory row has left once the ingredients checked so far are taken out
+  const remaining = inventory.map((item) => ({ ...item }));
+
+  const ingredients = recipeIngredients.map((ingredient) => {
+    const check = checkIngredient(ingredient, remaining);
+    const item = remaining.find((candidate) => candidate.name === check.inventoryName);
+    const inventoryUnit = item && normalizeUnit(item.unit);
+    if (item && inventoryUnit) {
+      const used = convertQuantity(check.needed, check.unit, inventoryUnit, check.name);
+      item.quantity = Math.max(item.quantity - (used ?? 0), 0);
+    }
+    return check;
+  });
+  const shortfalls = ingredients.filter(isShortfall);
+  return { canCook: shortfalls.length === 0, ingredients, shortfalls };
+}
+
+/** One-line description of a shortfall, e.g. "Flour: need 2 cups, have 1.5 cups". */
+export function describeShortfall(shortfall: IngredientShortfall) {
+  const { name, status, needed, available, unit, inventoryName } = shortfall;
+  switch (status) {
+    case 'missing':
+      return `${name}: not in your inventory`;
+    case 'incompatible':
+      return `${name}: can't compare ${unit} with the units of ${inventoryName}`;
+    case 'insufficient':
+      return `${name}: need ${formatQuantity({ quantity: needed, unit })}, have ${formatQuantity({ quantity: available, unit })}`;
+  }
+}
@@ -0,0 +1,53 @@
+// The cook action and its ledger (`recipe_cooks`, `recipe_cook_items`). Subtracting and
+// restoring happen in database functions so each runs as a single transaction.
+
+import { supabase } from '~/utils/supabase';
+
+/** Portions the cook dialog offers, relative to the recipe's servings. */
+export const SERVINGS_MULTIPLIERS = [0.5, 1, 2];
+
+export interface RecipeCook {
+  id: number;
+  recipe_id: number | null;
+  recipe_title: string;
+  servings_multiplier: number;
+  cooked_at: string;
+  undone_at: string | null;
+}
+
+export function formatMultiplier(multiplier: number) {
+  return `${multiplier === 0.5 ? '½' : multiplier}×`;
+}
+
+/**
+ * Subtracts the recipe's ingredients, scaled by `servingsMultiplier`, from the inventory.
+ * Resolves to the RPC's message: "Success: ..." or "Error: Insufficient ingredient - Flour".
+ */
+export async function cookRecipe(recipeId: number, servingsMultiplier = 1): Promise<string> {
+  const { data, error } = await supabase.rpc('select_recipe_and_subtract_ingredients', {
+    recipe_id_to_use: recipeId,
+    servings_multiplier: servingsMultiplier,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Restores what the most recent cook subtracted. Resolves to the RPC's message. */
+export async function undoLastCook(): Promise<string> {
+  const { data, error } = await supabase.rpc('undo_last_cook');
+  if (error) throw error;
+  return data;
+}
+
+/** The most recent cook that has not been undone, if any. */
+export async function fetchLastCook(): Promise<RecipeCook | null> {
+  const { data, error } = await supabase
+    .from('recipe_cooks')
+    .select('*')
+    .is('undone_at', null)
+    .order('cooked_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
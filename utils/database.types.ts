@@ -0,0 +1,872 @@
+// Generated from the Supabase schema with `npm run gen:types`. Do not edit by hand;
+// regenerate after adding a migration.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      ai_generation_requests: {
+        Row: {
+          created_at: string;
+          id: number;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: never;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: never;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ai_generation_requests_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      household_invite_attempts: {
+        Row: {
+          created_at: string;
+          id: number;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: never;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: never;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'household_invite_attempts_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      household_invites: {
+        Row: {
+          code: string;
+          created_at: string;
+          created_by: string;
+          expires_at: string;
+          household_id: number;
+          id: number;
+        };
+        Insert: {
+          code: string;
+          created_at?: string;
+          created_by?: string;
+          expires_at?: string;
+          household_id: number;
+          id?: never;
+        };
+        Update: {
+          code?: string;
+          created_at?: string;
+          created_by?: string;
+          expires_at?: string;
+          household_id?: number;
+          id?: never;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'household_invites_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'household_invites_household_id_fkey';
+            columns: ['household_id'];
+            isOneToOne: false;
+            referencedRelation: 'households';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      household_members: {
+        Row: {
+          household_id: number;
+          joined_at: string;
+          role: string;
+          user_id: string;
+        };
+        Insert: {
+          household_id: number;
+          joined_at?: string;
+          role?: string;
+          user_id: string;
+        };
+        Update: {
+          household_id?: number;
+          joined_at?: string;
+          role?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'household_members_household_id_fkey';
+            columns: ['household_id'];
+            isOneToOne: false;
+            referencedRelation: 'households';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'household_members_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      households: {
+        Row: {
+          created_at: string;
+          id: number;
+          name: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: never;
+          name: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: never;
+          name?: string;
+        };
+        Relationships: [];
+      };
+      ingredient_densities: {
+        Row: {
+          grams_per_bunch: number | null;
+          grams_per_clove: number | null;
+          grams_per_ml: number | null;
+          grams_per_piece: number | null;
+          grams_per_stick: number | null;
+          name: string;
+        };
+        Insert: {
+          grams_per_bunch?: number | null;
+          grams_per_clove?: number | null;
+          grams_per_ml?: number | null;
+          grams_per_piece?: number | null;
+          grams_per_stick?: number | null;
+          name: string;
+        };
+        Update: {
+          grams_per_bunch?: number | null;
+          grams_per_clove?: number | null;
+          grams_per_ml?: number | null;
+          grams_per_piece?: number | null;
+          grams_per_stick?: number | null;
+          name?: string;
+        };
+        Relationships: [];
+      };
+      ingredients: {
+        Row: {
+          created_at: string;
+          expires_on: string | null;
+          household_id: number;
+          id: number;
+          name: string;
+          opened_on: string | null;
+          quantity: number;
+          unit: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          expires_on?: string | null;
+          household_id?: number;
+          id?: number;
+          name: string;
+          opened_on?: string | null;
+          quantity: number;
+          unit: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          expires_on?: string | null;
+          household_id?: number;
+          id?: number;
+          name?: string;
+          opened_on?: string | null;
+          quantity?: number;
+          unit?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ingredients_household_id_fkey';
+            columns: ['household_id'];
+            isOneToOne: false;
+            referencedRelation: 'households';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ingredients_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      inventory_events: {
+        Row: {
+          created_at: string;
+          event_type: string;
+          household_id: number;
+          id: number;
+          ingredient_id: number;
+          ingredient_name: string;
+          quantity_after: number;
+          quantity_change: number | null;
+          recipe_cook_id: number | null;
+          unit: string;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          event_type: string;
+          household_id?: number;
+          id?: never;
+          ingredient_id: number;
+          ingredient_name: string;
+          quantity_after: number;
+          quantity_change?: number | null;
+          recipe_cook_id?: number | null;
+          unit: string;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          event_type?: string;
+          household_id?: number;
+          id?: never;
+          ingredient_id?: number;
+          ingredient_name?: string;
+          quantity_after?: number;
+          quantity_change?: number | null;
+          recipe_cook_id?: number | null;
+          unit?: string;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'inventory_events_household_id_fkey';
+            columns: ['household_id'];
+            isOneToOne: false;
+            referencedRelation: 'households';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'inventory_events_recipe_cook_id_fkey';
+            columns: ['recipe_cook_id'];
+            isOneToOne: false;
+            referencedRelation: 'recipe_cooks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'inventory_events_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          active_household_id: number | null;
+          avatar_url: string | null;
+          full_name: string | null;
+          id: string;
+          onboarding_complete: boolean | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          active_household_id?: number | null;
+          avatar_url?: string | null;
+          full_name?: string | null;
+          id: string;
+          onboarding_complete?: boolean | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          active_household_id?: number | null;
+          avatar_url?: string | null;
+          full_name?: string | null;
+          id?: string;
+          onboarding_complete?: boolean | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'profiles_active_household_id_fkey';
+            columns: ['active_household_id'];
+            isOneToOne: false;
+            referencedRelation: 'households';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recipe_cook_items: {
+        Row: {
+          cook_id: number;
+          id: number;
+          ingredient_id: number | null;
+          ingredient_name: string;
+          quantity: number;
+          unit: string;
+        };
+        Insert: {
+          cook_id: number;
+          id?: never;
+          ingredient_id?: number | null;
+          ingredient_name: string;
+          quantity: number;
+          unit: string;
+        };
+        Update: {
+          cook_id?: number;
+          id?: never;
+          ingredient_id?: number | null;
+          ingredient_name?: string;
+          quantity?: number;
+          unit?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recipe_cook_items_cook_id_fkey';
+            columns: ['cook_id'];
+            isOneToOne: false;
+            referencedRelation: 'recipe_cooks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'recipe_cook_items_ingredient_id_fkey';
+            columns: ['ingredient_id'];
+            isOneToOne: false;
+            referencedRelation: 'ingredients';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recipe_cooks: {
+        Row: {
+          cooked_at: string;
+          household_id: number;
+          id: number;
+          recipe_id: number | null;
+          recipe_title: string;
+          servings_multiplier: number;
+          undone_at: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          cooked_at?: string;
+          household_id?: number;
+          id?: never;
+          recipe_id?: number | null;
+          recipe_title: string;
+          servings_multiplier?: number;
+          undone_at?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          cooked_at?: string;
+          household_id?: number;
+          id?: never;
+          recipe_id?: number | null;
+          recipe_title?: string;
+          servings_multiplier?: number;
+          undone_at?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recipe_cooks_household_id_fkey';
+            columns: ['household_id'];
+            isOneToOne: false;
+            referencedRelation: 'households';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'recipe_cooks_recipe_id_fkey';
+            columns: ['recipe_id'];
+            isOneToOne: false;
+            referencedRelation: 'recipes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'recipe_cooks_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recipes: {
+        Row: {
+          cook_time_minutes: number | null;
+          created_at: string;
+          description: string | null;
+          household_id: number;
+          id: number;
+          image_url: string | null;
+          ingredients: Json;
+          instructions: string[];
+          is_used: boolean;
+          prep_time_minutes: number | null;
+          servings: number | null;
+          title: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          cook_time_minutes?: number | null;
+          created_at?: string;
+          description?: string | null;
+          household_id?: number;
+          id?: number;
+          image_url?: string | null;
+          ingredients: Json;
+          instructions: string[];
+          is_used?: boolean;
+          prep_time_minutes?: number | null;
+          servings?: number | null;
+          title: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          cook_time_minutes?: number | null;
+          created_at?: string;
+          description?: string | null;
+          household_id?: number;
+          id?: number;
+          image_url?: string | null;
+          ingredients?: Json;
+          instructions?: string[];
+          is_used?: boolean;
+          prep_time_minutes?: number | null;
+          servings?: number | null;
+          title?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recipes_household_id_fkey';
+            columns: ['household_id'];
+            isOneToOne: false;
+            referencedRelation: 'households';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'recipes_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      shopping_list: {
+        Row: {
+          checked: boolean;
+          created_at: string;
+          id: number;
+          name: string;
+          quantity: number;
+          recipe_id: number | null;
+          unit: string;
+          user_id: string;
+        };
+        Insert: {
+          checked?: boolean;
+          created_at?: string;
+          id?: never;
+          name: string;
+          quantity: number;
+          recipe_id?: number | null;
+          unit: string;
+          user_id?: string;
+        };
+        Update: {
+          checked?: boolean;
+          created_at?: string;
+          id?: never;
+          name?: string;
+          quantity?: number;
+          recipe_id?: number | null;
+          unit?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'shopping_list_recipe_id_fkey';
+            columns: ['recipe_id'];
+            isOneToOne: false;
+            referencedRelation: 'recipes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'shopping_list_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      unit_definitions: {
+        Row: {
+          dimension: string;
+          factor: number;
+          family: string | null;
+          unit: string;
+        };
+        Insert: {
+          dimension: string;
+          factor: number;
+          family?: string | null;
+          unit: string;
+        };
+        Update: {
+          dimension?: string;
+          factor?: number;
+          family?: string | null;
+          unit?: string;
+        };
+        Relationships: [];
+      };
+      user_preferences: {
+        Row: {
+          allergies: Json;
+          diets: string[];
+          id: string;
+          preferred_difficulty: Database['public']['Enums']['difficulty_enum'] | null;
+          preferred_portions: number | null;
+          preferred_time_minutes: number | null;
+          tastes: string[] | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          allergies?: Json;
+          diets?: string[];
+          id: string;
+          preferred_difficulty?: Database['public']['Enums']['difficulty_enum'] | null;
+          preferred_portions?: number | null;
+          preferred_time_minutes?: number | null;
+          tastes?: string[] | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          allergies?: Json;
+          diets?: string[];
+          id?: string;
+          preferred_difficulty?: Database['public']['Enums']['difficulty_enum'] | null;
+          preferred_portions?: number | null;
+          preferred_time_minutes?: number | null;
+          tastes?: string[] | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_preferences_id_fkey';
+            columns: ['id'];
+            isOneToOne: true;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      utensils: {
+        Row: {
+          created_at: string;
+          household_id: number;
+          id: number;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          household_id?: number;
+          id?: number;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          household_id?: number;
+          id?: number;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'utensils_household_id_fkey';
+            columns: ['household_id'];
+            isOneToOne: false;
+            referencedRelation: 'households';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'utensils_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      inventory_monthly_usage: {
+        Row: {
+          household_id: number | null;
+          ingredient_name: string | null;
+          month: string | null;
+          quantity_used: number | null;
+          unit: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'inventory_events_household_id_fkey';
+            columns: ['household_id'];
+            isOneToOne: false;
+            referencedRelation: 'households';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Functions: {
+      accept_household_invite: {
+        Args: { p_code: string };
+        Returns: string;
+      };
+      claim_ai_generation: {
+        Args: { p_user_id: string; max_requests: number; window_seconds: number };
+        Returns: boolean;
+      };
+      convert_quantity: {
+        Args: { amount: number; from_unit: string; to_unit: string; ingredient?: string };
+        Returns: number;
+      };
+      create_household: {
+        Args: { p_name: string };
+        Returns: number;
+      };
+      create_household_invite: {
+        Args: { p_household_id: number };
+        Returns: string;
+      };
+      current_household_id: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      delete_account_data: {
+        Args: { p_user_id: string };
+        Returns: undefined;
+      };
+      export_account_data: {
+        Args: Record<PropertyKey, never>;
+        Returns: Json;
+      };
+      grams_per_base_unit: {
+        Args: { unit_name: string; ingredient: string };
+        Returns: number;
+      };
+      is_household_member: {
+        Args: { p_household_id: number };
+        Returns: boolean;
+      };
+      is_household_owner: {
+        Args: { p_household_id: number };
+        Returns: boolean;
+      };
+      is_pantry_staple: {
+        Args: { name: string };
+        Returns: boolean;
+      };
+      leave_household: {
+        Args: { p_household_id: number; p_user_id?: string };
+        Returns: string;
+      };
+      list_household_members: {
+        Args: { p_household_id: number };
+        Returns: {
+          user_id: string;
+          full_name: string | null;
+          avatar_url: string | null;
+          role: string;
+          joined_at: string;
+        }[];
+      };
+      metadata_avatar_url: {
+        Args: { p_metadata: Json };
+        Returns: string;
+      };
+      metadata_full_name: {
+        Args: { p_metadata: Json };
+        Returns: string;
+      };
+      normalize_ingredient_name: {
+        Args: { name: string };
+        Returns: string;
+      };
+      record_bought_ingredient: {
+        Args: { p_name: string; p_quantity: number; p_unit: string };
+        Returns: string;
+      };
+      select_recipe_and_subtract_ingredients: {
+        Args: { recipe_id_to_use: number; servings_multiplier?: number };
+        Returns: string;
+      };
+      set_household_role: {
+        Args: { p_household_id: number; p_user_id: string; p_role: string };
+        Returns: string;
+      };
+      singularize_ingredient_word: {
+        Args: { word: string };
+        Returns: string;
+      };
+      switch_household: {
+        Args: { p_household_id: number };
+        Returns: undefined;
+      };
+      undo_last_cook: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      valid_allergies: {
+        Args: { p_allergies: Json };
+        Returns: boolean;
+      };
+    };
+    Enums: {
+      allergy_severity: 'mild' | 'moderate' | 'severe';
+      chef_level_enum: 'Beginner' | 'Intermediate' | 'Advanced';
+      difficulty_enum: 'Easy' | 'Medium' | 'Hard';
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type DefaultSchema = Database[Extract<keyof Database, 'public'>];
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database;
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+        Database[DefaultSchemaTableNameOrOptions['schema']]['Views'])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+      Database[DefaultSchemaTableNameOrOptions['schema']]['Views'])[TableName] extends {
+      Row: infer R;
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    ? (DefaultSchema['Tables'] & DefaultSchema['Views'])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R;
+      }
+      ? R
+      : never
+    : never;
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema['Tables']
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database;
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Insert: infer I;
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I;
+      }
+      ? I
+      : never
+    : never;
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema['Tables']
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database;
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Update: infer U;
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U;
+      }
+      ? U
+      : never
+    : never;
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema['Enums'] | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database;
+  }
+    ? keyof Database[DefaultSchemaEnumNameOrOptions['schema']]['Enums']
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions['schema']]['Enums'][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema['Enums']
+    ? DefaultSchema['Enums'][DefaultSchemaEnumNameOrOptions]
+    : never;
@@ -0,0 +1,82 @@
+// Expiry helpers for the `ingredients.expires_on` and `opened_on` columns, which hold
+// plain `YYYY-MM-DD` dates in the user's local calendar.
+
+/** Items expiring within this many days count as "expiring soon". */
+export const EXPIRING_SOON_DAYS = 3;
+
+export type ExpiryStatus = 'expired' | 'soon' | 'fresh';
+
+export interface DatedIngredient {
+  name: string;
+  expires_on?: string | null;
+  opened_on?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parses a `YYYY-MM-DD` string as a local date, or returns null if it isn't a real date. */
+export function parseDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+export function formatDate(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** Whole days from `today` until `value`; negative once the date has passed. */
+export function daysUntil(value: string, today = new Date()): number | null {
+  const date = parseDate(value);
+  if (!date) return null;
+  return Math.round((date.getTime() - startOfDay(today).getTime()) / DAY_MS);
+}
+
+export function getExpiryStatus(
+  ingredient: DatedIngredient,
+  today = new Date()
+): ExpiryStatus | null {
+  const days = ingredient.expires_on ? daysUntil(ingredient.expires_on, today) : null;
+  if (days === null) return null;
+  if (days < 0) return 'expired';
+  return days <= EXPIRING_SOON_DAYS ? 'soon' : 'fresh';
+}
+
+/** Ingredients that expire within `EXPIRING_SOON_DAYS`, soonest first. Expired items are left out. */
+export function findExpiringSoon<T extends DatedIngredient>(ingredients: T[], today = new Date()) {
+  return ingredients
+    .filter((ingredient) => getExpiryStatus(ingredient, today) === 'soon')
+    .sort((a, b) => a.expires_on!.localeCompare(b.expires_on!));
+}
+
+/** e.g. "Expires today", "Expires in 2 days", "Expired yesterday". */
+export function describeExpiry(expiresOn: string, today = new Date()) {
+  const days = daysUntil(expiresOn, today);
+  if (days === null) return '';
+  if (days === 0) return 'Expires today';
+  if (days === 1) return 'Expires tomorrow';
+  if (days > 1) return `Expires in ${days} days`;
+  if (days === -1) return 'Expired yesterday';
+  return `Expired ${-days} days ago`;
+}
+
+/** e.g. "Opened today", "Opened 4 days ago". */
+export function describeOpened(openedOn: string, today = new Date()) {
+  const days = daysUntil(openedOn, today);
+  if (days === null) return '';
+  if (days >= 0) return 'Opened today';
+  if (days === -1) return 'Opened yesterday';
+  return `Opened ${-days} days ago`;
+}
@@ -0,0 +1,138 @@
+// Matches free-text recipe ingredient names ("2 large ripe tomatoes", "scallions") against
+// the names in a user's `ingredients` inventory ("Tomato", "Green onion").
+//
+// The cook RPC normalizes names with the same word lists, in `normalize_ingredient_name`
+// from supabase/migrations/20261018220000_ingredient_matching.sql. Keep them in sync.
+
+// Always assumed to be available, as the onboarding ingredients screen tells the user. The
+// cook RPC skips the same ones through `is_pantry_staple`; keep the two lists in sync.
+export const PANTRY_STAPLES = ['water', 'salt', 'sugar'];
+
+const DESCRIPTORS = new Set([
+  'fresh',
+  'freshly',
+  'dried',
+  'chopped',
+  'diced',
+  'minced',
+  'sliced',
+  'grated',
+  'shredded',
+  'crushed',
+  'ground',
+  'large',
+  'small',
+  'medium',
+  'whole',
+  'raw',
+  'cooked',
+  'boneless',
+  'skinless',
+  'ripe',
+  'frozen',
+  'canned',
+  'organic',
+  'unsalted',
+  'salted',
+  'extra',
+  'virgin',
+  'finely',
+  'roughly',
+  'thinly',
+  'peeled',
+  'halved',
+  'softened',
+  'melted',
+  'of',
+  'and',
+  'or',
+  'to',
+  'taste',
+]);
+
+// Regional and alternative names, mapped to one canonical form
+const SYNONYMS: Record<string, string> = {
+  scallion: 'green onion',
+  'spring onion': 'green onion',
+  coriander: 'cilantro',
+  courgette: 'zucchini',
+  aubergine: 'eggplant',
+  'garbanzo bean': 'chickpea',
+  garbanzo: 'chickpea',
+  capsicum: 'bell pepper',
+  'sweet pepper': 'bell pepper',
+  rocket: 'arugula',
+  'plain flour': 'flour',
+  'all purpose flour': 'flour',
+  'all-purpose flour': 'flour',
+  'caster sugar': 'sugar',
+  'granulated sugar': 'sugar',
+  'white sugar': 'sugar',
+  'corn starch': 'cornstarch',
+  cornflour: 'cornstarch',
+  prawn: 'shrimp',
+  // "Ground" is a descriptor, so ground beef normalizes to beef
+  mince: 'beef',
+  'double cream': 'heavy cream',
+  'whipping cream': 'heavy cream',
+  'bicarbonate of soda': 'baking soda',
+  'sea salt': 'salt',
+  'kosher salt': 'salt',
+  'table salt': 'salt',
+  'tap water': 'water',
+  'egg yolk': 'egg',
+  'egg white': 'egg',
+};
+
+function singularize(word: string) {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (word.endsWith('ves')) return `${word.slice(0, -3)}f`;
+  if (/(ses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Lowercases, drops parentheticals, preparation words and plurals, and maps synonyms,
+ * so that "Fresh Tomatoes (diced)" and "tomato" normalize to the same string.
+ */
+export function normalizeIngredientName(name: string) {
+  const words = name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^a-z\s-]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !DESCRIPTORS.has(word))
+    .map(singularize);
+
+  const joined = words.join(' ');
+  return SYNONYMS[joined] ?? words.map((word) => SYNONYMS[word] ?? word).join(' ');
+}
+
+/**
+ * Returns the inventory name that satisfies a recipe ingredient, or null if none does.
+ * Names match when they normalize to the same string, so descriptors, plurals and
+ * synonyms are ignored but any other word counts: "garlic" is not "garlic powder", and
+ * "peanut butter" is not "butter".
+ */
+export function matchIngredient(name: string, inventory: string[]): string | null {
+  const target = normalizeIngredientName(name);
+  if (!target) return null;
+  return inventory.find((item) => normalizeIngredientName(item) === target) ?? null;
+}
+
+export function isPantryStaple(name: string) {
+  return PANTRY_STAPLES.includes(normalizeIngredientName(name));
+}
+
+/** Recipe ingredient names that are neither in the inventory nor a pantry staple. */
+export function findMissingIngredients(
+  recipeIngredients: { name: string }[],
+  inventory: string[]
+): string[] {
+  return recipeIngredients
+    .map((ingredient) => ingredient.name)
+    .filter((name) => !isPantryStaple(name) && !matchIngredient(name, inventory));
+}
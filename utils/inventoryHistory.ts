@@ -0,0 +1,93 @@
+// Reads the append-only `inventory_events` log and the `inventory_monthly_usage` view.
+
+import { convertQuantity, getDimension } from '~/utils/conversion';
+import { supabase } from '~/utils/supabase';
+import { formatAmount, normalizeUnit } from '~/utils/units';
+
+export type InventoryEventType =
+  | 'added'
+  | 'edited'
+  | 'cooked'
+  | 'restored'
+  | 'discarded'
+  | 'bought';
+
+export interface InventoryEvent {
+  id: number;
+  ingredient_id: number;
+  ingredient_name: string;
+  event_type: InventoryEventType;
+  quantity_change: number | null;
+  quantity_after: number;
+  unit: string;
+  recipe_cook_id: number | null;
+  created_at: string;
+}
+
+export interface MonthlyUsage {
+  ingredient_name: string;
+  unit: string;
+  month: string;
+  quantity_used: number;
+}
+
+export const EVENT_LABELS: Record<InventoryEventType, string> = {
+  added: 'Added',
+  edited: 'Edited',
+  cooked: 'Cooked',
+  restored: 'Cook undone',
+  discarded: 'Removed',
+  bought: 'Bought',
+};
+
+export async function fetchIngredientHistory(ingredientId: number): Promise<InventoryEvent[]> {
+  const { data, error } = await supabase
+    .from('inventory_events')
+    .select('*')
+    .eq('ingredient_id', ingredientId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  // The table's check constraint limits `event_type` to InventoryEventType
+  return (data || []) as InventoryEvent[];
+}
+
+export async function fetchRecentEvents(limit = 50): Promise<InventoryEvent[]> {
+  const { data, error } = await supabase
+    .from('inventory_events')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as InventoryEvent[];
+}
+
+/** Net amount of each ingredient used by cooks in the month containing `date`. */
+export async function fetchMonthlyUsage(date = new Date()): Promise<MonthlyUsage[]> {
+  const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+  const { data, error } = await supabase
+    .from('inventory_monthly_usage')
+    .select('ingredient_name, unit, month, quantity_used')
+    .eq('month', month)
+    .gt('quantity_used', 0)
+    .order('quantity_used', { ascending: false });
+  if (error) throw error;
+  // View columns are typed nullable, but every grouped column comes from a not-null one
+  return (data || []) as MonthlyUsage[];
+}
+
+/** Shows large metric amounts in the bigger unit, e.g. 3000 g as "3 kg". */
+export function formatUsage(quantity: number, unit: string) {
+  const from = normalizeUnit(unit);
+  if (from && (from === 'g' || from === 'ml') && quantity >= 1000) {
+    const to = getDimension(from) === 'mass' ? 'kg' : 'l';
+    return `${formatAmount(convertQuantity(quantity, from, to)!)} ${to}`;
+  }
+  return `${formatAmount(quantity)} ${unit}`;
+}
+
+/** e.g. "-200 g", "+1 kg"; an empty string when the change is unknown. */
+export function formatChange({ quantity_change, unit }: InventoryEvent) {
+  if (quantity_change === null) return '';
+  const sign = quantity_change > 0 ? '+' : quantity_change < 0 ? '-' : '';
+  return `${sign}${formatAmount(Math.abs(quantity_change))} ${unit}`;
+}
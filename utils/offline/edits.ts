@@ -0,0 +1,132 @@
+import {
+  IngredientChanges,
+  NewIngredient,
+  NewRecipe,
+  UserPreferences,
+  inventoryRepo,
+  preferencesRepo,
+  recipesRepo,
+} from '~/utils/repositories';
+
+/**
+ * A write to the user's data that can wait for a connection. Adds carry a negative
+ * `tempId` standing in for the row until it exists; row edits carry the `updatedAt` the
+ * app last saw, so a replay can tell whether the row changed on the server meanwhile.
+ */
+export type OfflineEdit =
+  | { kind: 'addIngredient'; tempId: number; ingredient: NewIngredient }
+  | { kind: 'updateIngredient'; id: number; updatedAt: string | null; changes: IngredientChanges }
+  | { kind: 'removeIngredient'; id: number; updatedAt: string | null }
+  | { kind: 'addUtensil'; tempId: number; name: string }
+  | { kind: 'renameUtensil'; id: number; updatedAt: string | null; name: string }
+  | { kind: 'removeUtensil'; id: number; updatedAt: string | null }
+  | { kind: 'addRecipe'; tempId: number; recipe: NewRecipe }
+  | { kind: 'removeRecipe'; id: number; updatedAt: string | null }
+  | { kind: 'savePreferences'; preferences: UserPreferences; previous: UserPreferences | null };
+
+const TABLES = {
+  addIngredient: 'ingredients',
+  updateIngredient: 'ingredients',
+  removeIngredient: 'ingredients',
+  addUtensil: 'utensils',
+  renameUtensil: 'utensils',
+  removeUtensil: 'utensils',
+  addRecipe: 'recipes',
+  removeRecipe: 'recipes',
+  savePreferences: 'user_preferences',
+} as const satisfies Record<OfflineEdit['kind'], string>;
+
+/** The table an edit writes to. */
+export function editTable(edit: OfflineEdit) {
+  return TABLES[edit.kind];
+}
+
+/** A row as written by the server, with the version later edits compare against. */
+export interface SavedRow {
+  id: number;
+  updated_at: string;
+}
+
+/** Thrown when replaying an edit would overwrite a change made elsewhere. */
+export class SyncConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncConflictError';
+  }
+}
+
+let nextTempId = -1;
+
+/** A placeholder id for a row added offline. Negative, so it can't clash with a real one. */
+export function newTempId() {
+  nextTempId = Math.min(nextTempId - 1, -Date.now());
+  return nextTempId;
+}
+
+function ensureUnchanged(current: SavedRow | null, updatedAt: string | null) {
+  if (!current) throw new SyncConflictError('It was deleted on another device');
+  if (updatedAt !== null && current.updated_at !== updatedAt) {
+    throw new SyncConflictError('It was changed on another device');
+  }
+}
+
+function samePreferences(a: UserPreferences | null, b: UserPreferences | null) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Writes an edit to Supabase. Unless `force` is set, the write is refused with a
+ * `SyncConflictError` if the row changed since the edit was made. Resolves to the row an
+ * add or update wrote, which later edits to the same row are rebased onto.
+ */
+export async function applyEdit(edit: OfflineEdit, force: boolean): Promise<SavedRow | void> {
+  switch (edit.kind) {
+    case 'addIngredient':
+      return inventoryRepo.addIngredient(edit.ingredient);
+    case 'updateIngredient':
+      if (!force) ensureUnchanged(await inventoryRepo.getIngredient(edit.id), edit.updatedAt);
+      return inventoryRepo.updateIngredient(edit.id, edit.changes);
+    case 'removeIngredient': {
+      const current = await inventoryRepo.getIngredient(edit.id);
+      if (!current) return;
+      if (!force) ensureUnchanged(current, edit.updatedAt);
+      return inventoryRepo.removeIngredient(edit.id);
+    }
+    case 'addUtensil':
+      return inventoryRepo.addUtensil(edit.name);
+    case 'renameUtensil':
+      if (!force) ensureUnchanged(await inventoryRepo.getUtensil(edit.id), edit.updatedAt);
+      return inventoryRepo.renameUtensil(edit.id, edit.name);
+    case 'removeUtensil': {
+      const current = await inventoryRepo.getUtensil(edit.id);
+      if (!current) return;
+      if (!force) ensureUnchanged(current, edit.updatedAt);
+      return inventoryRepo.removeUtensil(edit.id);
+    }
+    case 'addRecipe':
+      return recipesRepo.create(edit.recipe);
+    case 'removeRecipe': {
+      const current = await recipesRepo.get(edit.id);
+      if (!current) return;
+      if (!force) ensureUnchanged(current, edit.updatedAt);
+      return recipesRepo.remove(edit.id);
+    }
+    case 'savePreferences':
+      if (!force && !samePreferences(await preferencesRepo.get(), edit.previous)) {
+        throw new SyncConflictError('They were changed on another device');
+      }
+      return preferencesRepo.save(edit.preferences);
+  }
+}
+
+/**
+ * Points edits queued after `applied` at the row the server wrote: a temp id becomes the
+ * real one, and `updatedAt` moves on so the app's own earlier edit isn't seen as a conflict.
+ */
+export function rebaseEdit(edit: OfflineEdit, applied: OfflineEdit, row: SavedRow): OfflineEdit {
+  const appliedId = 'tempId' in applied ? applied.tempId : 'id' in applied ? applied.id : null;
+  if (!('id' in edit) || editTable(edit) !== editTable(applied) || edit.id !== appliedId) {
+    return edit;
+  }
+  return { ...edit, id: row.id, updatedAt: row.updated_at };
+}
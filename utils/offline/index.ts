@@ -0,0 +1,8 @@
+// Offline support: edits to the user's data are queued on the device while there's no
+// connection and replayed in order once it's back, with conflicts set aside for the user.
+
+export { newTempId } from './edits';
+export type { OfflineEdit } from './edits';
+export { markOffline, watchConnectivity } from './network';
+export { clearQueue, flushQueue, loadQueue, resolveIssue, submitEdit, useSyncStore } from './queue';
+export type { QueuedEdit, SyncIssue } from './queue';
@@ -0,0 +1,44 @@
+import { onlineManager } from '@tanstack/react-query';
+import { AppState } from 'react-native';
+
+import { supabaseAnonKey, supabaseUrl } from '~/utils/supabase';
+
+const PROBE_INTERVAL_MS = 15_000;
+
+/** Resolves true if the Supabase API answers at all, whatever the status. */
+async function probe() {
+  try {
+    await fetch(`${supabaseUrl}/auth/v1/health`, { headers: { apikey: supabaseAnonKey } });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Called when a request fails to reach the server; queries pause and edits queue. */
+export function markOffline() {
+  onlineManager.setOnline(false);
+}
+
+/**
+ * React Native has no `online`/`offline` events for React Query to listen to, so
+ * connectivity is inferred instead: a failed request marks the app offline (see
+ * `markOffline`), and from then on the API is probed until it answers again.
+ */
+export function watchConnectivity() {
+  onlineManager.setEventListener((setOnline) => {
+    const check = async () => setOnline(await probe());
+
+    const interval = setInterval(() => {
+      if (!onlineManager.isOnline()) check();
+    }, PROBE_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') check();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  });
+}
@@ -0,0 +1,178 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { onlineManager } from '@tanstack/react-query';
+import { create } from 'zustand';
+
+import { isNetworkError, isUniqueViolation } from '~/utils/repositories';
+import { OfflineEdit, SyncConflictError, applyEdit, editTable, rebaseEdit } from './edits';
+import { markOffline } from './network';
+
+const QUEUE_KEY = 'offline:queue';
+
+export interface QueuedEdit {
+  id: string;
+  edit: OfflineEdit;
+  /** What the edit was to, for showing the user, e.g. the ingredient's name. */
+  label: string;
+  queuedAt: string;
+  /** Set when the user chose to keep this edit over the server's version. */
+  force?: boolean;
+}
+
+/** A queued edit the server refused. Kept until the user keeps or discards it. */
+export interface SyncIssue {
+  entry: QueuedEdit;
+  message: string;
+  /** True when the row changed elsewhere, rather than the write failing outright. */
+  conflict: boolean;
+}
+
+interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  pending: QueuedEdit[];
+  issues: SyncIssue[];
+}
+
+export const useSyncStore = create<SyncState>(() => ({
+  online: onlineManager.isOnline(),
+  syncing: false,
+  pending: [],
+  issues: [],
+}));
+
+useSyncStore.subscribe((state, previous) => {
+  if (state.pending === previous.pending && state.issues === previous.issues) return;
+  AsyncStorage.setItem(
+    QUEUE_KEY,
+    JSON.stringify({ pending: state.pending, issues: state.issues })
+  ).catch((error) => console.error('Error saving offline queue:', error));
+});
+
+onlineManager.subscribe((online) => useSyncStore.setState({ online }));
+
+// Adds that have been replayed, so a later edit to a placeholder row still in the
+// cache reaches the real row
+const replayedIds = new Map<string, number>();
+
+function replayedKey(edit: OfflineEdit, id: number) {
+  return `${editTable(edit)}:${id}`;
+}
+
+export async function loadQueue() {
+  const stored = await AsyncStorage.getItem(QUEUE_KEY);
+  if (!stored) return;
+
+  const { pending, issues } = JSON.parse(stored) as Pick<SyncState, 'pending' | 'issues'>;
+  useSyncStore.setState({ pending, issues });
+}
+
+/** Drops every queued edit, e.g. when the user signs out. */
+export async function clearQueue() {
+  replayedIds.clear();
+  useSyncStore.setState({ pending: [], issues: [] });
+  await AsyncStorage.removeItem(QUEUE_KEY);
+}
+
+function enqueue(entry: QueuedEdit) {
+  useSyncStore.setState(({ pending }) => ({ pending: [...pending, entry] }));
+}
+
+function describeFailure(error: unknown) {
+  if (error instanceof SyncConflictError) return error.message;
+  if (isUniqueViolation(error)) return 'Something with the same name already exists';
+  return 'The server rejected this change';
+}
+
+/**
+ * Applies an edit straight away when online, or queues it to be replayed on reconnect.
+ * While earlier edits are still queued, new ones queue behind them so the server sees
+ * them in order. Resolves to the id of the row an add created: the real id, or the
+ * edit's `tempId` if it was queued.
+ */
+export async function submitEdit(edit: OfflineEdit, label: string): Promise<number | undefined> {
+  if ('id' in edit) {
+    const replayedId = replayedIds.get(replayedKey(edit, edit.id));
+    if (replayedId !== undefined) edit = { ...edit, id: replayedId, updatedAt: null };
+  }
+
+  if (onlineManager.isOnline() && useSyncStore.getState().pending.length === 0) {
+    try {
+      // The user just made this edit against what they can see, so it isn't checked
+      const row = await applyEdit(edit, true);
+      return row?.id;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      markOffline();
+    }
+  }
+
+  enqueue({
+    id: `${Date.now()}-${Math.random()}`,
+    edit,
+    label,
+    queuedAt: new Date().toISOString(),
+  });
+  flushQueue();
+  return 'tempId' in edit ? edit.tempId : undefined;
+}
+
+/**
+ * Replays queued edits in order while online. An edit that conflicts or fails is set
+ * aside as an issue for the user to resolve and the rest carry on; losing the
+ * connection again stops the replay where it is.
+ */
+export async function flushQueue() {
+  if (useSyncStore.getState().syncing || !onlineManager.isOnline()) return;
+  useSyncStore.setState({ syncing: true });
+
+  try {
+    for (;;) {
+      const [entry] = useSyncStore.getState().pending;
+      if (!entry || !onlineManager.isOnline()) break;
+
+      try {
+        const row = await applyEdit(entry.edit, entry.force ?? false);
+        if (row && 'tempId' in entry.edit) {
+          replayedIds.set(replayedKey(entry.edit, entry.edit.tempId), row.id);
+        }
+        useSyncStore.setState(({ pending }) => ({
+          pending: pending
+            .filter((queued) => queued.id !== entry.id)
+            .map((queued) =>
+              row ? { ...queued, edit: rebaseEdit(queued.edit, entry.edit, row) } : queued
+            ),
+        }));
+      } catch (error) {
+        if (isNetworkError(error)) {
+          markOffline();
+          break;
+        }
+        console.error('Error replaying offline edit:', error);
+        useSyncStore.setState(({ pending, issues }) => ({
+          pending: pending.filter((queued) => queued.id !== entry.id),
+          issues: [
+            ...issues,
+            {
+              entry,
+              message: describeFailure(error),
+              conflict: error instanceof SyncConflictError,
+            },
+          ],
+        }));
+      }
+    }
+  } finally {
+    useSyncStore.setState({ syncing: false });
+  }
+}
+
+/** Settles an issue: `keep` requeues the edit to overwrite the server, otherwise it's dropped. */
+export function resolveIssue(entryId: string, keep: boolean) {
+  const issue = useSyncStore.getState().issues.find((i) => i.entry.id === entryId);
+  if (!issue) return;
+
+  useSyncStore.setState(({ issues }) => ({ issues: issues.filter((i) => i !== issue) }));
+  if (keep) enqueue({ ...issue.entry, force: true });
+  // The lists are refetched when the flush finishes, which also drops a discarded edit
+  flushQueue();
+}
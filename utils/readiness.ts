@@ -0,0 +1,73 @@
+// Scores saved recipes against the current `ingredients` inventory, for the dashboard's
+// "what can I cook right now" filter and the breakdown on the saved recipe screen. Built
+// on checkCanCook, so a recipe scored ready is one the cook RPC accepts.
+
+import { CookCheck, InventoryItem, checkCanCook } from '~/utils/cookCheck';
+import { StoredRecipeIngredient } from '~/utils/recipes';
+import { normalizeRecipeIngredients } from '~/utils/units';
+
+/**
+ * `ready`: everything is covered. `short`: everything is present, but some amounts fall
+ * short or cannot be compared. `missing`: some ingredients are not in the inventory.
+ */
+export type ReadinessStatus = 'ready' | 'short' | 'missing';
+
+export interface RecipeReadiness extends CookCheck {
+  status: ReadinessStatus;
+  /** 0 to 1; the share of the recipe's ingredients the inventory covers */
+  score: number;
+  missingCount: number;
+  shortCount: number;
+}
+
+export type ReadinessFilter = 'all' | ReadinessStatus;
+
+export type RecipeSort = 'newest' | 'readiness';
+
+export const READINESS_FILTERS: { value: ReadinessFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'ready', label: 'Ready to cook' },
+  { value: 'short', label: 'Short on quantity' },
+  { value: 'missing', label: 'Missing items' },
+];
+
+export function getRecipeReadiness(
+  recipeIngredients: StoredRecipeIngredient[],
+  inventory: InventoryItem[]
+): RecipeReadiness {
+  const check = checkCanCook(normalizeRecipeIngredients(recipeIngredients), inventory);
+
+  const missingCount = check.shortfalls.filter(({ status }) => status === 'missing').length;
+  const shortCount = check.shortfalls.length - missingCount;
+
+  // A short ingredient counts for the share of it that is on hand
+  const covered = check.ingredients.reduce((total, ingredient) => {
+    if (ingredient.status === 'available' || ingredient.status === 'staple') return total + 1;
+    if (ingredient.status === 'insufficient' && ingredient.needed > 0) {
+      return total + ingredient.available / ingredient.needed;
+    }
+    return total;
+  }, 0);
+  const score = check.ingredients.length > 0 ? covered / check.ingredients.length : 1;
+
+  const status: ReadinessStatus = missingCount > 0 ? 'missing' : shortCount > 0 ? 'short' : 'ready';
+  return { ...check, status, score, missingCount, shortCount };
+}
+
+export function describeReadiness({ status, missingCount, shortCount }: RecipeReadiness) {
+  switch (status) {
+    case 'ready':
+      return 'Ready to cook';
+    case 'short':
+      return `Short on ${shortCount} ${shortCount === 1 ? 'item' : 'items'}`;
+    case 'missing':
+      return `Missing ${missingCount} ${missingCount === 1 ? 'item' : 'items'}`;
+  }
+}
+
+const STATUS_ORDER: Record<ReadinessStatus, number> = { ready: 0, short: 1, missing: 2 };
+
+/** Orders the most cookable first: ready, then short, then missing, by score within each. */
+export function compareReadiness(a: RecipeReadiness, b: RecipeReadiness) {
+  return STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || b.score - a.score;
+}
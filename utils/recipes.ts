@@ -0,0 +1,32 @@
+import { GeneratedRecipe } from '~/utils/ai';
+import { normalizeRecipeIngredients } from '~/utils/units';
+
+/** A recipe ingredient as stored in `recipes.ingredients`; older rows use free-text quantities. */
+export interface StoredRecipeIngredient {
+  name: string;
+  quantity: number | string;
+  unit?: string;
+}
+
+/**
+ * Builds the new `recipes` row for a generated recipe, for `recipesRepo.create`. Ingredients
+ * are always written in the structured `{ name, quantity, unit }` form that
+ * `select_recipe_and_subtract_ingredients` expects.
+ */
+export function toRecipeInsert(recipe: GeneratedRecipe) {
+  // Parse time to get prep and cook times (simplified)
+  const timeInMinutes = parseInt(recipe.time) || 30;
+  const prepTime = Math.floor(timeInMinutes * 0.3);
+  const cookTime = Math.floor(timeInMinutes * 0.7);
+
+  return {
+    title: recipe.title,
+    description: recipe.description,
+    ingredients: normalizeRecipeIngredients(recipe.ingredients),
+    instructions: recipe.instructions,
+    prep_time_minutes: prepTime,
+    cook_time_minutes: cookTime,
+    servings: recipe.servings,
+    is_used: false,
+  };
+}
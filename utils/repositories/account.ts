@@ -0,0 +1,43 @@
+import { Allergy } from '~/utils/ai';
+import { Tables } from '~/utils/database.types';
+import { supabase } from '~/utils/supabase';
+import { Recipe } from './recipes';
+
+/** One household the user belongs to in an export, with its whole kitchen. */
+export interface ExportedHousehold {
+  id: number;
+  name: string;
+  role: string;
+  joined_at: string;
+  ingredients: Tables<'ingredients'>[];
+  utensils: Tables<'utensils'>[];
+  recipes: Recipe[];
+  cooks: (Tables<'recipe_cooks'> & { items: Tables<'recipe_cook_items'>[] })[];
+}
+
+/** Everything the app stores about the user, as built by `export_account_data`. */
+export interface AccountExport {
+  exported_at: string;
+  email: string | null;
+  profile: Tables<'profiles'> | null;
+  preferences: (Omit<Tables<'user_preferences'>, 'allergies'> & { allergies: Allergy[] }) | null;
+  shopping_list: Tables<'shopping_list'>[];
+  households: ExportedHousehold[];
+}
+
+export const accountRepo = {
+  async export(): Promise<AccountExport> {
+    const { data, error } = await supabase.rpc('export_account_data');
+    if (error) throw error;
+    return data as unknown as AccountExport;
+  },
+
+  /**
+   * Deletes the account through the `delete-account` Edge Function, which needs the
+   * service role to remove the auth user. Households shared with others are kept.
+   */
+  async delete() {
+    const { error } = await supabase.functions.invoke('delete-account', { method: 'POST' });
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,11 @@
+/** True when a repository call failed on a unique constraint, e.g. a duplicate name. */
+export function isUniqueViolation(error: unknown) {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === '23505';
+}
+
+/** True when a repository call failed because the request never reached the server. */
+export function isNetworkError(error: unknown) {
+  if (typeof error !== 'object' || error === null || !('message' in error)) return false;
+  // React Native, Chrome and Safari word a failed fetch differently
+  return /Network request failed|Failed to fetch|Load failed/.test(String(error.message));
+}
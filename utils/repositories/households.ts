@@ -0,0 +1,119 @@
+import { Database } from '~/utils/database.types';
+import { supabase } from '~/utils/supabase';
+import { requireUserId } from './session';
+
+export type HouseholdRole = 'owner' | 'member';
+
+/** A household the user belongs to. `active` marks the one whose kitchen the app shows. */
+export interface Household {
+  id: number;
+  name: string;
+  role: HouseholdRole;
+  active: boolean;
+}
+
+export type HouseholdMember = Omit<
+  Database['public']['Functions']['list_household_members']['Returns'][number],
+  'role'
+> & { role: HouseholdRole };
+
+/**
+ * Resolves an RPC that reports failures as an "Error: ..." message, throwing those so
+ * callers can treat them like any other failure.
+ */
+function checkResult(result: string) {
+  if (result.startsWith('Error: ')) throw new Error(result.slice('Error: '.length));
+  return result;
+}
+
+/**
+ * Households share one kitchen between their members. Joining, leaving and switching go
+ * through database functions, which keep every household with at least one owner.
+ */
+export const householdsRepo = {
+  /** Every household the user belongs to, oldest membership first. */
+  async list(): Promise<Household[]> {
+    const userId = await requireUserId();
+    const [memberships, profile] = await Promise.all([
+      supabase
+        .from('household_members')
+        .select('role, household:households(id, name)')
+        .eq('user_id', userId)
+        .order('joined_at'),
+      supabase.from('profiles').select('active_household_id').eq('id', userId).maybeSingle(),
+    ]);
+    if (memberships.error) throw memberships.error;
+    if (profile.error) throw profile.error;
+
+    return (memberships.data || []).map(({ role, household }) => ({
+      id: household.id,
+      name: household.name,
+      role: role as HouseholdRole,
+      active: household.id === profile.data?.active_household_id,
+    }));
+  },
+
+  async listMembers(householdId: number): Promise<HouseholdMember[]> {
+    const { data, error } = await supabase.rpc('list_household_members', {
+      p_household_id: householdId,
+    });
+    if (error) throw error;
+    return (data || []).map((member) => ({ ...member, role: member.role as HouseholdRole }));
+  },
+
+  /** Creates a household owned by the user and switches to it. Resolves to its id. */
+  async create(name: string): Promise<number> {
+    const { data, error } = await supabase.rpc('create_household', { p_name: name });
+    if (error) throw error;
+    return data;
+  },
+
+  /** Makes another of the user's households the one the app shows. */
+  async switchTo(householdId: number) {
+    const { error } = await supabase.rpc('switch_household', { p_household_id: householdId });
+    if (error) throw error;
+  },
+
+  /** A single-use code, valid for a week, that lets someone join the household. */
+  async createInvite(householdId: number): Promise<string> {
+    const { data, error } = await supabase.rpc('create_household_invite', {
+      p_household_id: householdId,
+    });
+    if (error) throw error;
+    return data;
+  },
+
+  /** Joins the household an invite code belongs to and switches to it. */
+  async acceptInvite(code: string): Promise<string> {
+    const { data, error } = await supabase.rpc('accept_household_invite', { p_code: code });
+    if (error) throw error;
+    return checkResult(data);
+  },
+
+  async leave(householdId: number): Promise<string> {
+    const { data, error } = await supabase.rpc('leave_household', {
+      p_household_id: householdId,
+    });
+    if (error) throw error;
+    return checkResult(data);
+  },
+
+  async removeMember(householdId: number, userId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('leave_household', {
+      p_household_id: householdId,
+      p_user_id: userId,
+    });
+    if (error) throw error;
+    return checkResult(data);
+  },
+
+  async setRole(householdId: number, userId: string, role: HouseholdRole): Promise<string> {
+    const { data, error } = await supabase.rpc('set_household_role', {
+      p_household_id: householdId,
+      p_user_id: userId,
+      p_role: role,
+    });
+    if (error) throw error;
+    return checkResult(data);
+  },
+};
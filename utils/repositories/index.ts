@@ -0,0 +1,17 @@
+// Typed access to the app's tables. Screens go through these instead of calling
+// `supabase.from(...)` directly; each method throws the Supabase error on failure.
+
+export { accountRepo } from './account';
+export type { AccountExport, ExportedHousehold } from './account';
+export { isNetworkError, isUniqueViolation } from './errors';
+export { householdsRepo } from './households';
+export type { Household, HouseholdMember, HouseholdRole } from './households';
+export { inventoryRepo } from './inventory';
+export type { Ingredient, IngredientChanges, NewIngredient, Utensil } from './inventory';
+export { DEFAULT_PREFERENCES, preferencesRepo, toRecipePreferences } from './preferences';
+export type { Difficulty, UserPreferences } from './preferences';
+export { profileRepo } from './profile';
+export type { Profile, ProfileChanges } from './profile';
+export { recipesRepo } from './recipes';
+export type { NewRecipe, Recipe, RecipeChanges } from './recipes';
+export { requireUserId } from './session';
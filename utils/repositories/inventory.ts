@@ -0,0 +1,111 @@
+import { InventoryItem } from '~/utils/cookCheck';
+import { Tables, TablesInsert, TablesUpdate } from '~/utils/database.types';
+import { supabase } from '~/utils/supabase';
+import { requireUserId } from './session';
+
+export type Ingredient = Tables<'ingredients'>;
+export type NewIngredient = Omit<TablesInsert<'ingredients'>, 'user_id'>;
+export type IngredientChanges = Omit<TablesUpdate<'ingredients'>, 'user_id'>;
+
+export type Utensil = Tables<'utensils'>;
+
+/**
+ * The `ingredients` and `utensils` tables, which together make up the active household's
+ * kitchen. RLS limits every query to that household.
+ */
+export const inventoryRepo = {
+  /** Every ingredient row, newest first. */
+  async listIngredients(): Promise<Ingredient[]> {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  },
+
+  /** Just the amounts, for the can-cook check. */
+  async listStock(): Promise<InventoryItem[]> {
+    const { data, error } = await supabase.from('ingredients').select('name, quantity, unit');
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getIngredient(id: number): Promise<Ingredient | null> {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async addIngredient(ingredient: NewIngredient): Promise<Ingredient> {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .insert({ ...ingredient, user_id: await requireUserId() })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async updateIngredient(id: number, changes: IngredientChanges): Promise<Ingredient> {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async removeIngredient(id: number) {
+    const { error } = await supabase.from('ingredients').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  /** Every utensil row, newest first. */
+  async listUtensils(): Promise<Utensil[]> {
+    const { data, error } = await supabase
+      .from('utensils')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getUtensil(id: number): Promise<Utensil | null> {
+    const { data, error } = await supabase.from('utensils').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async addUtensil(name: string): Promise<Utensil> {
+    const { data, error } = await supabase
+      .from('utensils')
+      .insert({ name, user_id: await requireUserId() })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async renameUtensil(id: number, name: string): Promise<Utensil> {
+    const { data, error } = await supabase
+      .from('utensils')
+      .update({ name })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async removeUtensil(id: number) {
+    const { error } = await supabase.from('utensils').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,76 @@
+import { Allergy, RecipePreferences } from '~/utils/ai';
+import { Enums, Json, Tables } from '~/utils/database.types';
+import { supabase } from '~/utils/supabase';
+import { requireUserId } from './session';
+
+export type Difficulty = Enums<'difficulty_enum'>;
+
+/** A user's generation preferences. Recipes must meet every diet and avoid every allergy. */
+export interface UserPreferences {
+  diets: string[];
+  allergies: Allergy[];
+  tastes: string[];
+  preferred_difficulty: Difficulty | null;
+  preferred_time_minutes: number | null;
+  preferred_portions: number | null;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  diets: [],
+  allergies: [],
+  tastes: [],
+  preferred_difficulty: null,
+  preferred_time_minutes: null,
+  preferred_portions: null,
+};
+
+function toPreferences(row: Tables<'user_preferences'>): UserPreferences {
+  return {
+    diets: row.diets,
+    // Checked by the `user_preferences_allergies_valid` constraint
+    allergies: row.allergies as unknown as Allergy[],
+    tastes: row.tastes || [],
+    preferred_difficulty: row.preferred_difficulty,
+    preferred_time_minutes: row.preferred_time_minutes,
+    preferred_portions: row.preferred_portions,
+  };
+}
+
+/** The preferences in the shape the AI service takes. */
+export function toRecipePreferences(preferences: UserPreferences): RecipePreferences {
+  return {
+    diets: preferences.diets.length > 0 ? preferences.diets : undefined,
+    allergies: preferences.allergies.length > 0 ? preferences.allergies : undefined,
+    tastes: preferences.tastes.length > 0 ? preferences.tastes : undefined,
+    preferred_difficulty: preferences.preferred_difficulty || undefined,
+    preferred_time_minutes: preferences.preferred_time_minutes || undefined,
+    preferred_portions: preferences.preferred_portions || undefined,
+  };
+}
+
+export const preferencesRepo = {
+  /** The user's preferences, or null if they haven't saved any yet. */
+  async get(): Promise<UserPreferences | null> {
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select('*')
+      .eq('id', await requireUserId())
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toPreferences(data) : null;
+  },
+
+  async save(preferences: UserPreferences) {
+    const { error } = await supabase.from('user_preferences').upsert({
+      id: await requireUserId(),
+      diets: preferences.diets,
+      allergies: preferences.allergies as unknown as Json,
+      tastes: preferences.tastes,
+      preferred_difficulty: preferences.preferred_difficulty,
+      preferred_time_minutes: preferences.preferred_time_minutes,
+      preferred_portions: preferences.preferred_portions,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) throw error;
+  },
+};
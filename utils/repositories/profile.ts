@@ -0,0 +1,62 @@
+import { Tables, TablesUpdate } from '~/utils/database.types';
+import { supabase } from '~/utils/supabase';
+import { requireUserId } from './session';
+
+export type Profile = Tables<'profiles'>;
+export type ProfileChanges = Omit<TablesUpdate<'profiles'>, 'id'>;
+
+// Public bucket, with each user's uploads under a folder named by their id
+const AVATAR_BUCKET = 'avatars';
+
+export const profileRepo = {
+  /** The signed-in user's profile, created by a trigger on sign-up. */
+  async get(): Promise<Profile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', await requireUserId())
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async update(changes: ProfileChanges) {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', await requireUserId());
+    if (error) throw error;
+  },
+
+  /**
+   * Uploads a picture from a local `uri` to Storage and makes it the profile's avatar,
+   * removing earlier uploads. Resolves to the picture's public URL.
+   */
+  async uploadAvatar(uri: string, contentType: string) {
+    const userId = await requireUserId();
+    const file = await (await fetch(uri)).arrayBuffer();
+    // A new path each time, so nothing keeps showing a cached copy of the old picture
+    const path = `${userId}/${Date.now()}.${contentType.split('/')[1] ?? 'jpg'}`;
+
+    const avatars = supabase.storage.from(AVATAR_BUCKET);
+    const { error } = await avatars.upload(path, file, { contentType });
+    if (error) throw error;
+
+    const {
+      data: { publicUrl },
+    } = avatars.getPublicUrl(path);
+    await profileRepo.update({ avatar_url: publicUrl });
+
+    // Only tidying up: the new avatar is saved even if this fails
+    const { data: uploads } = await avatars.list(userId);
+    const stale = (uploads ?? [])
+      .map((upload) => `${userId}/${upload.name}`)
+      .filter((upload) => upload !== path);
+    if (stale.length > 0) await avatars.remove(stale);
+    return publicUrl;
+  },
+
+  completeOnboarding() {
+    return profileRepo.update({ onboarding_complete: true });
+  },
+};
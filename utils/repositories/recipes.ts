@@ -0,0 +1,70 @@
+import { Json, Tables, TablesInsert, TablesUpdate } from '~/utils/database.types';
+import { StoredRecipeIngredient } from '~/utils/recipes';
+import { supabase } from '~/utils/supabase';
+import { requireUserId } from './session';
+
+/** A saved recipe, with the `ingredients` JSONB column typed. */
+export type Recipe = Omit<Tables<'recipes'>, 'ingredients'> & {
+  ingredients: StoredRecipeIngredient[];
+};
+
+export type NewRecipe = Omit<TablesInsert<'recipes'>, 'user_id' | 'ingredients'> & {
+  ingredients: StoredRecipeIngredient[];
+};
+
+export type RecipeChanges = Omit<TablesUpdate<'recipes'>, 'ingredients'> & {
+  ingredients?: StoredRecipeIngredient[];
+};
+
+function toRecipe(row: Tables<'recipes'>): Recipe {
+  return { ...row, ingredients: (row.ingredients ?? []) as unknown as StoredRecipeIngredient[] };
+}
+
+function toJson(ingredients: StoredRecipeIngredient[]) {
+  return ingredients as unknown as Json;
+}
+
+export const recipesRepo = {
+  /** The user's saved recipes, newest first. */
+  async list(): Promise<Recipe[]> {
+    const { data, error } = await supabase
+      .from('recipes')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(toRecipe);
+  },
+
+  async get(id: number): Promise<Recipe | null> {
+    const { data, error } = await supabase.from('recipes').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data ? toRecipe(data) : null;
+  },
+
+  async create(recipe: NewRecipe): Promise<Recipe> {
+    const { data, error } = await supabase
+      .from('recipes')
+      .insert({
+        ...recipe,
+        user_id: await requireUserId(),
+        ingredients: toJson(recipe.ingredients),
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    return toRecipe(data);
+  },
+
+  async update(id: number, { ingredients, ...changes }: RecipeChanges) {
+    const { error } = await supabase
+      .from('recipes')
+      .update(ingredients ? { ...changes, ingredients: toJson(ingredients) } : changes)
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async remove(id: number) {
+    const { error } = await supabase.from('recipes').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
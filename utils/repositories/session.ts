@@ -0,0 +1,13 @@
+import { supabase } from '~/utils/supabase';
+
+/**
+ * The signed-in user's id, for writes to tables that don't default `user_id`. Read from
+ * the stored session so it works offline; RLS still checks the token on the write itself.
+ */
+export async function requireUserId() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new Error('No user found');
+  return session.user.id;
+}
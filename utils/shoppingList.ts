@@ -0,0 +1,163 @@
+// The `shopping_list` table: adding a recipe's shortfall, merging duplicates across units,
+// and moving bought items into the `ingredients` inventory.
+
+import { convertQuantity } from '~/utils/conversion';
+import { IngredientShortfall } from '~/utils/cookCheck';
+import { normalizeIngredientName } from '~/utils/ingredientMatch';
+import { supabase } from '~/utils/supabase';
+import { Unit, normalizeUnit } from '~/utils/units';
+
+export interface ShoppingListItem {
+  id: number;
+  name: string;
+  quantity: number;
+  unit: string;
+  checked: boolean;
+  recipe_id: number | null;
+  created_at: string;
+}
+
+export interface NewShoppingItem {
+  name: string;
+  quantity: number;
+  unit: Unit;
+  recipe_id?: number | null;
+}
+
+/**
+ * Turns a recipe's shortfalls into shopping items for the amount still needed. Items whose
+ * units can't be compared with the inventory are left out, since we can't tell how much
+ * more to buy.
+ */
+export function shortfallsToShoppingItems(
+  shortfalls: IngredientShortfall[],
+  recipeId: number | null = null
+): NewShoppingItem[] {
+  return shortfalls
+    .filter((shortfall) => shortfall.status !== 'incompatible')
+    .map((shortfall) => ({
+      name: shortfall.name,
+      quantity: shortfall.needed - shortfall.available,
+      unit: shortfall.unit,
+      recipe_id: recipeId,
+    }))
+    .filter((item) => item.quantity > 0);
+}
+
+/** Converts `quantity` of `unit` into `target`'s unit, if the units can be related. */
+function convertInto(
+  name: string,
+  quantity: number,
+  unit: string,
+  target: { unit: string }
+): number | null {
+  const from = normalizeUnit(unit);
+  const to = normalizeUnit(target.unit);
+  if (!from || !to) return null;
+  return convertQuantity(quantity, from, to, name);
+}
+
+function sameIngredient(a: string, b: string) {
+  return normalizeIngredientName(a) === normalizeIngredientName(b);
+}
+
+/**
+ * Plans how to add `additions` to the list: each one is folded into an unchecked item for
+ * the same ingredient when the units convert, and inserted as a new row otherwise.
+ */
+export function planShoppingListMerge(existing: ShoppingListItem[], additions: NewShoppingItem[]) {
+  const updates = new Map<number, number>();
+  const inserts: NewShoppingItem[] = [];
+
+  for (const addition of additions) {
+    const merged = existing.some((item) => {
+      if (item.checked || !sameIngredient(item.name, addition.name)) return false;
+      const quantity = convertInto(addition.name, addition.quantity, addition.unit, item);
+      if (quantity === null) return false;
+      updates.set(item.id, (updates.get(item.id) ?? item.quantity) + quantity);
+      return true;
+    });
+    if (merged) continue;
+
+    const pending = inserts.find((item) => sameIngredient(item.name, addition.name));
+    const quantity = pending
+      ? convertInto(addition.name, addition.quantity, addition.unit, pending)
+      : null;
+    if (pending && quantity !== null) {
+      pending.quantity += quantity;
+    } else {
+      inserts.push({ ...addition });
+    }
+  }
+
+  return {
+    updates: [...updates].map(([id, quantity]) => ({ id, quantity })),
+    inserts,
+  };
+}
+
+export async function fetchShoppingList(): Promise<ShoppingListItem[]> {
+  const { data, error } = await supabase
+    .from('shopping_list')
+    .select('*')
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function setShoppingItemChecked(id: number, checked: boolean) {
+  const { error } = await supabase.from('shopping_list').update({ checked }).eq('id', id);
+  if (error) throw error;
+}
+
+export async function removeShoppingItem(id: number) {
+  const { error } = await supabase.from('shopping_list').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/** Adds items to the user's shopping list, merging them with what is already there. */
+export async function addToShoppingList(additions: NewShoppingItem[]) {
+  const { updates, inserts } = planShoppingListMerge(await fetchShoppingList(), additions);
+
+  for (const { id, quantity } of updates) {
+    const { error } = await supabase.from('shopping_list').update({ quantity }).eq('id', id);
+    if (error) throw error;
+  }
+
+  if (inserts.length > 0) {
+    const { error } = await supabase.from('shopping_list').insert(inserts);
+    if (error) throw error;
+  }
+
+  return updates.length + inserts.length;
+}
+
+/**
+ * Moves bought items into the `ingredients` inventory, adding to an existing row for the
+ * same ingredient in that row's unit, then removes them from the list. Returns the names
+ * of items that were kept because the inventory holds them in a unit that doesn't convert.
+ * The addition happens in `record_bought_ingredient`, against the inventory as it is then,
+ * so the history shows a purchase and concurrent changes to the row are kept.
+ */
+export async function moveBoughtToInventory(items: ShoppingListItem[]) {
+  const skipped: string[] = [];
+
+  for (const item of items) {
+    const { data, error } = await supabase.rpc('record_bought_ingredient', {
+      p_name: item.name.trim(),
+      p_quantity: item.quantity,
+      p_unit: item.unit,
+    });
+    if (error) throw error;
+    if (data.startsWith('Error: Incompatible units')) {
+      skipped.push(item.name);
+      continue;
+    }
+    if (data.startsWith('Error: ')) throw new Error(data.slice('Error: '.length));
+
+    const { error: deleteError } = await supabase.from('shopping_list').delete().eq('id', item.id);
+    if (deleteError) throw deleteError;
+  }
+
+  return skipped;
+}
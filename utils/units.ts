@@ -0,0 +1,209 @@
+// Units and quantities shared by the inventory (`ingredients` table) and recipes
+// (`recipes.ingredients` JSONB), which both store `{ quantity: number, unit }`.
+
+export const UNITS = [
+  'g',
+  'kg',
+  'mg',
+  'ml',
+  'l',
+  'cup',
+  'cups',
+  'tbsp',
+  'tsp',
+  'oz',
+  'lb',
+  'piece',
+  'pieces',
+  'whole',
+  'clove',
+  'cloves',
+  'stick',
+  'pinch',
+  'dash',
+  'bunch',
+] as const;
+
+export type Unit = (typeof UNITS)[number];
+
+export interface RecipeIngredient {
+  name: string;
+  quantity: number;
+  unit: Unit;
+}
+
+// Spellings models and older saved recipes use, mapped onto `UNITS`
+const UNIT_ALIASES: Record<string, Unit> = {
+  gram: 'g',
+  grams: 'g',
+  gr: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  kilo: 'kg',
+  kilos: 'kg',
+  milligram: 'mg',
+  milligrams: 'mg',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  tbs: 'tbsp',
+  tbsps: 'tbsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tsps: 'tsp',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+  pc: 'piece',
+  pcs: 'piece',
+  sticks: 'stick',
+  pinches: 'pinch',
+  dashes: 'dash',
+  bunches: 'bunch',
+  slice: 'piece',
+  slices: 'pieces',
+};
+
+// Units spelled differently for one and for several, which `UNITS` has both forms of
+const PLURAL_UNITS: Partial<Record<Unit, Unit>> = { cup: 'cups', piece: 'pieces', clove: 'cloves' };
+const SINGULAR_UNITS: Partial<Record<Unit, Unit>> = {
+  cups: 'cup',
+  pieces: 'piece',
+  cloves: 'clove',
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '¼': 0.25,
+  '½': 0.5,
+  '¾': 0.75,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '⅛': 0.125,
+};
+
+export function isUnit(value: string): value is Unit {
+  return (UNITS as readonly string[]).includes(value);
+}
+
+/** Maps a free-text unit onto the controlled vocabulary, or null if it is not a unit. */
+export function normalizeUnit(raw: string): Unit | null {
+  const unit = raw.trim().toLowerCase().replace(/\.$/, '');
+  if (isUnit(unit)) return unit;
+  return UNIT_ALIASES[unit] ?? null;
+}
+
+function parseAmount(text: string): number | null {
+  const value = text.replace(/[¼½¾⅓⅔⅛]/g, (fraction) => ` ${UNICODE_FRACTIONS[fraction]}`).trim();
+
+  // "1 1/2", "1/2", "1.5", "1 0.5" (from unicode fractions)
+  const parts = value.split(/\s+/);
+  let total = 0;
+  for (const part of parts) {
+    const fraction = part.match(/^(\d+)\/(\d+)$/);
+    const number = fraction ? Number(fraction[1]) / Number(fraction[2]) : Number(part);
+    if (isNaN(number)) return null;
+    total += number;
+  }
+  return parts.length > 0 ? total : null;
+}
+
+const THOUSANDS = /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+
+/**
+ * Parses a legacy free-text quantity such as "2 cups", "1 1/2 tbsp", "½ tsp", "2-3 cloves",
+ * "3 eggs" or "a pinch" into an amount and a unit from `UNITS`. Counts without a unit are
+ * treated as pieces; text without any amount becomes a single unit of whatever is named.
+ */
+export function parseQuantity(text: string): { quantity: number; unit: Unit } {
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(
+      /^((?:\d+\/\d+|\d{1,3}(?:,\d{3})+(?:\.\d+)?(?!\d)|\d+(?:[.,]\d+)?|[¼½¾⅓⅔⅛])(?:\s*(?:\d+\/\d+|[¼½¾⅓⅔⅛]))?)(?:\s*-\s*[\d.,/]+)?\s*(.*)$/
+    );
+
+  if (!match) {
+    const unit = text.split(/\s+/).map(normalizeUnit).find(Boolean);
+    return { quantity: 1, unit: unit ?? 'whole' };
+  }
+
+  // A comma before groups of three digits separates thousands ("1,000 g"); any other
+  // comma is a decimal point ("1,5 kg")
+  const amount = THOUSANDS.test(match[1]) ? match[1].replace(/,/g, '') : match[1].replace(',', '.');
+  const quantity = parseAmount(amount) ?? 1;
+  const firstWord = match[2].split(/\s+/)[0] ?? '';
+  const unit = normalizeUnit(firstWord) ?? (quantity === 1 ? 'piece' : 'pieces');
+  return { quantity, unit };
+}
+
+/**
+ * Brings a stored or generated ingredient into the structured form, accepting the legacy
+ * `{ name, quantity: "2 cups" }` shape as well as loosely typed amounts and units.
+ */
+export function toRecipeIngredient(ingredient: {
+  name: string;
+  quantity: unknown;
+  unit?: unknown;
+}): RecipeIngredient {
+  if (typeof ingredient.quantity === 'number' && typeof ingredient.unit === 'string') {
+    return {
+      name: ingredient.name,
+      quantity: ingredient.quantity,
+      unit: normalizeUnit(ingredient.unit) ?? 'whole',
+    };
+  }
+
+  const text =
+    typeof ingredient.unit === 'string'
+      ? `${ingredient.quantity ?? ''} ${ingredient.unit}`
+      : String(ingredient.quantity ?? '');
+  return { name: ingredient.name, ...parseQuantity(text) };
+}
+
+export function normalizeRecipeIngredients(
+  ingredients: { name: string; quantity: unknown; unit?: unknown }[] | null | undefined
+): RecipeIngredient[] {
+  return (ingredients ?? []).map(toRecipeIngredient);
+}
+
+/** True when any ingredient is still in the legacy free-text form. */
+export function hasLegacyQuantities(
+  ingredients: { quantity: unknown; unit?: unknown }[] | null | undefined
+) {
+  return (ingredients ?? []).some(
+    (ingredient) => typeof ingredient.quantity !== 'number' || typeof ingredient.unit !== 'string'
+  );
+}
+
+export function formatAmount(quantity: number) {
+  return Number.isInteger(quantity) ? String(quantity) : String(Math.round(quantity * 100) / 100);
+}
+
+/** The spelling of `unit` that reads right after `quantity`: "1 cup" but "2 cups". */
+export function unitForAmount(quantity: number, unit: Unit): Unit {
+  const singular = SINGULAR_UNITS[unit] ?? unit;
+  const plural = PLURAL_UNITS[singular];
+  if (!plural) return unit;
+  return formatAmount(quantity) === '1' ? singular : plural;
+}
+
+export function formatQuantity({ quantity, unit }: { quantity: number; unit: string }) {
+  return `${formatAmount(quantity)} ${isUnit(unit) ? unitForAmount(quantity, unit) : unit}`;
+}
+
+/** Multiplies every quantity, e.g. by 0.5 to cook half a recipe. */
+export function scaleIngredients(ingredients: RecipeIngredient[], multiplier: number) {
+  return ingredients.map((ingredient) => ({
+    ...ingredient,
+    quantity: ingredient.quantity * multiplier,
+  }));
+}